@@ -0,0 +1,139 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import {
+  config,
+  logger,
+  redisConnection,
+  REDIS_KEY_API_RATE_LIMIT,
+  ApiKeyRecord,
+  ApiKeyScope,
+  findActiveApiKey,
+  hasApiKeyScope,
+  touchApiKey,
+} from "shared";
+
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+const LAST_USED_UPDATE_INTERVAL_MS = 60_000; // Avoid a database write on every request
+const lastUsedUpdates = new Map<number, number>();
+
+// EventSource cannot send headers, so the SSE stream is the only route that also takes ?api_key=. Everywhere else a key
+// in the query string would only end up in access logs, proxy logs and browser history
+const QUERY_KEY_PATHS = new Set(["/api/products/stream"]);
+
+const getQueryApiKey = (req: Request): string | null => {
+  return typeof req.query.api_key === "string" && req.query.api_key.length > 0 ? req.query.api_key : null;
+};
+
+// Key lookup order: X-API-Key header, Authorization: Bearer, then ?api_key= on the SSE stream
+const extractApiKey = (req: Request): string | null => {
+  const headerKey = req.header("X-API-Key");
+  if (headerKey) {
+    return headerKey.trim();
+  }
+
+  const authorization = req.header("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  return QUERY_KEY_PATHS.has(`${req.baseUrl}${req.path}`) ? getQueryApiKey(req) : null;
+};
+
+export const getApiKey = (res: Response): ApiKeyRecord | null => {
+  return (res.locals.apiKey as ApiKeyRecord | undefined) ?? null;
+};
+
+// Fixed one-minute window per key: returns the remaining allowance, or the seconds until the window resets
+const consumeRateLimit = async (
+  apiKey: ApiKeyRecord
+): Promise<{ allowed: boolean; limit: number; remaining: number; resetSeconds: number }> => {
+  const limit = apiKey.rateLimitPerMinute ?? config.API_RATE_LIMIT_PER_MINUTE;
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const windowStart = nowSeconds - (nowSeconds % RATE_LIMIT_WINDOW_SECONDS);
+  const resetSeconds = windowStart + RATE_LIMIT_WINDOW_SECONDS - nowSeconds;
+  const key = REDIS_KEY_API_RATE_LIMIT(apiKey.id, windowStart);
+
+  const [[, count]] = (await redisConnection.multi().incr(key).expire(key, RATE_LIMIT_WINDOW_SECONDS + 5).exec()) as [
+    [Error | null, number],
+    [Error | null, number],
+  ];
+
+  return { allowed: count <= limit, limit, remaining: Math.max(0, limit - count), resetSeconds };
+};
+
+export const authenticate: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  if (!config.API_AUTH_ENABLED) {
+    return next();
+  }
+
+  try {
+    const key = extractApiKey(req);
+    if (!key) {
+      const error = getQueryApiKey(req)
+        ? "Pass the API key in the X-API-Key or Authorization header - ?api_key= is only accepted by the event stream"
+        : "API key required";
+      return res.status(401).json({ success: false, error });
+    }
+
+    const apiKey = await findActiveApiKey(key);
+    if (!apiKey) {
+      return res.status(401).json({ success: false, error: "Invalid or revoked API key" });
+    }
+
+    const rateLimit = await consumeRateLimit(apiKey);
+    res.setHeader("X-RateLimit-Limit", rateLimit.limit.toString());
+    res.setHeader("X-RateLimit-Remaining", rateLimit.remaining.toString());
+    res.setHeader("X-RateLimit-Reset", rateLimit.resetSeconds.toString());
+    if (!rateLimit.allowed) {
+      res.setHeader("Retry-After", rateLimit.resetSeconds.toString());
+      return res.status(429).json({ success: false, error: "Rate limit exceeded" });
+    }
+
+    const lastUpdate = lastUsedUpdates.get(apiKey.id) ?? 0;
+    if (Date.now() - lastUpdate > LAST_USED_UPDATE_INTERVAL_MS) {
+      lastUsedUpdates.set(apiKey.id, Date.now());
+      touchApiKey(apiKey.id).catch((error) => {
+        logger.debug({ error, apiKeyId: apiKey.id }, "Failed to update API key last used time");
+      });
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMsg }, "Failed to authenticate API request");
+    res.status(500).json({ success: false, error: "Authentication failed" });
+  }
+};
+
+export const requireScope = (scope: ApiKeyScope): RequestHandler => {
+  return (req, res, next) => {
+    if (!config.API_AUTH_ENABLED) {
+      return next();
+    }
+
+    const apiKey = getApiKey(res);
+    if (!apiKey || !hasApiKeyScope(apiKey, scope)) {
+      return res.status(403).json({ success: false, error: `Missing required scope: ${scope}` });
+    }
+    next();
+  };
+};
+
+// Only echo allowed origins back; "*" in API_CORS_ORIGINS allows any origin
+export const cors: RequestHandler = (req, res, next) => {
+  const origin = req.header("Origin");
+  const allowAny = config.API_CORS_ORIGINS.includes("*");
+  const allowed = origin !== undefined && (allowAny || config.API_CORS_ORIGINS.includes(origin));
+
+  if (allowed) {
+    res.header("Access-Control-Allow-Origin", allowAny ? "*" : origin);
+    res.header("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS");
+    res.header("Access-Control-Allow-Headers", "Content-Type, Authorization, X-API-Key, Last-Event-ID");
+  }
+  res.header("Vary", "Origin");
+
+  if (req.method === "OPTIONS") {
+    return res.sendStatus(allowed || origin === undefined ? 204 : 403);
+  }
+  next();
+};
@@ -0,0 +1,83 @@
+import type { Request, Response } from "express";
+import {
+  config,
+  logger,
+  ProductFreshness,
+  CachedResponse,
+  getResponseCacheVersion,
+  getCachedResponse,
+  setCachedResponse,
+} from "shared";
+import { getCacheKey, buildEtag, isNotModified } from "./etag.js";
+
+// Conditional GET and Redis response caching for product reads.
+// The weak ETag covers the request (path + query) and the freshness of the rows it reads (max updatedAt, row count),
+// so a 304 can be answered from one aggregate query. Full responses are cached until the product worker writes a page.
+
+type ConditionalOptions = {
+  getFreshness: () => Promise<ProductFreshness>;
+  load: () => Promise<object | null>; // null = 404
+  notFoundMessage?: string;
+};
+
+const setValidators = (res: Response, etag: string, lastModified: string | null): void => {
+  res.setHeader("ETag", etag);
+  if (lastModified) {
+    res.setHeader("Last-Modified", new Date(lastModified).toUTCString());
+  }
+  res.setHeader("Cache-Control", "private, no-cache"); // Clients may keep the body but must revalidate
+};
+
+const respond = (req: Request, res: Response, entry: CachedResponse, cacheStatus: "HIT" | "MISS"): void => {
+  setValidators(res, entry.etag, entry.lastModified);
+  res.setHeader("X-Cache", cacheStatus);
+  if (isNotModified(req, entry.etag, entry.lastModified)) {
+    res.status(304).end();
+    return;
+  }
+  res.json(entry.body);
+};
+
+export const sendConditionalProductResponse = async (req: Request, res: Response, options: ConditionalOptions): Promise<void> => {
+  const cacheKey = getCacheKey(req);
+  const cacheEnabled = config.API_CACHE_TTL_SECONDS > 0;
+
+  // The cache is an optimisation - read or write failures fall through to the database
+  let version: string | null = null;
+  if (cacheEnabled) {
+    try {
+      version = await getResponseCacheVersion();
+      const cached = await getCachedResponse(version, cacheKey);
+      if (cached) {
+        return respond(req, res, cached, "HIT");
+      }
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Response cache read failed");
+    }
+  }
+
+  const freshness = await options.getFreshness();
+  const etag = buildEtag(cacheKey, freshness);
+  const lastModified = freshness.lastModified?.toISOString() ?? null;
+
+  if (isNotModified(req, etag, lastModified)) {
+    setValidators(res, etag, lastModified);
+    res.status(304).end();
+    return;
+  }
+
+  const body = await options.load();
+  if (!body) {
+    res.status(404).json({ success: false, error: options.notFoundMessage ?? "Not found" });
+    return;
+  }
+
+  const entry: CachedResponse = { etag, lastModified, body };
+  if (version !== null) {
+    await setCachedResponse(version, cacheKey, entry, config.API_CACHE_TTL_SECONDS).catch((error) => {
+      logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Response cache write failed");
+    });
+  }
+
+  respond(req, res, entry, "MISS");
+};
@@ -0,0 +1,139 @@
+import { Router, type Response } from "express";
+import {
+  logger,
+  triggerCrawl,
+  pauseCrawl,
+  resumeCrawl,
+  resetRotation,
+  reassignGeneralWorker,
+  recordAdminAction,
+  getAdminAuditLog,
+  AdminAuditAction,
+} from "shared";
+import { getApiKey, requireScope } from "./auth.js";
+import { validateQuery, validateParams, validateBody, getQuery, getParams, getBody } from "./validation.js";
+import { sendError } from "./errors.js";
+import { workerIdParamsSchema, workerReassignBodySchema, adminAuditQuerySchema, crawlMarketplaceQuerySchema } from "./schemas.js";
+
+// Admin routes for crawl orchestration. Each successful action is written to admin_audit_log
+
+export const crawlAdminRouter = Router();
+
+crawlAdminRouter.use("/api/admin/crawl", requireScope("admin"));
+crawlAdminRouter.use("/api/admin/workers", requireScope("admin"));
+crawlAdminRouter.use("/api/admin/audit-log", requireScope("admin"));
+
+// The action has already been applied at this point, so a failed audit write is logged rather than failing the request
+const audit = async (res: Response, action: AdminAuditAction, params: unknown, result: unknown): Promise<void> => {
+  const apiKey = getApiKey(res);
+  try {
+    await recordAdminAction({ action, actor: apiKey ? { id: apiKey.id, name: apiKey.name } : null, params, result });
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : String(error), action }, "Failed to write admin audit log entry");
+  }
+  logger.info({ action, apiKeyId: apiKey?.id ?? null, params, result }, "Admin action applied");
+};
+
+crawlAdminRouter.post("/api/admin/crawl/trigger", validateQuery(crawlMarketplaceQuerySchema), async (req, res) => {
+  try {
+    const { marketplace } = getQuery(res, crawlMarketplaceQuerySchema);
+    const triggered = await triggerCrawl(marketplace);
+    if (!triggered) {
+      return res.status(409).json({ success: false, error: `Crawl of ${marketplace} is paused - resume it before triggering` });
+    }
+    await audit(res, "crawl.trigger", { marketplace }, { triggered });
+    res.json({ success: true, triggered });
+  } catch (error) {
+    sendError(res, error, "Failed to trigger crawl via API");
+  }
+});
+
+crawlAdminRouter.post("/api/admin/crawl/pause", validateQuery(crawlMarketplaceQuerySchema), async (req, res) => {
+  try {
+    const { marketplace } = getQuery(res, crawlMarketplaceQuerySchema);
+    const previous = await pauseCrawl(marketplace);
+    const pausedAt = previous.pausedAt ?? new Date();
+    await audit(res, "crawl.pause", { marketplace }, { alreadyPaused: previous.paused, pausedAt });
+    res.json({ success: true, paused: true, pausedAt, changed: !previous.paused });
+  } catch (error) {
+    sendError(res, error, "Failed to pause crawl via API");
+  }
+});
+
+crawlAdminRouter.post("/api/admin/crawl/resume", validateQuery(crawlMarketplaceQuerySchema), async (req, res) => {
+  try {
+    const { marketplace } = getQuery(res, crawlMarketplaceQuerySchema);
+    const previous = await resumeCrawl(marketplace);
+    await audit(res, "crawl.resume", { marketplace }, { wasPaused: previous.paused, pausedAt: previous.pausedAt });
+    res.json({ success: true, paused: false, pausedAt: null, changed: previous.paused });
+  } catch (error) {
+    sendError(res, error, "Failed to resume crawl via API");
+  }
+});
+
+crawlAdminRouter.post("/api/admin/crawl/rotation/reset", validateQuery(crawlMarketplaceQuerySchema), async (req, res) => {
+  try {
+    const { marketplace } = getQuery(res, crawlMarketplaceQuerySchema);
+    const result = await resetRotation(marketplace);
+    await audit(res, "rotation.reset", { marketplace }, result);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendError(res, error, "Failed to reset rotation via API");
+  }
+});
+
+crawlAdminRouter.post(
+  "/api/admin/workers/:id/reassign",
+  validateParams(workerIdParamsSchema),
+  validateQuery(crawlMarketplaceQuerySchema),
+  validateBody(workerReassignBodySchema),
+  async (req, res) => {
+    try {
+      const { id } = getParams(res, workerIdParamsSchema);
+      const { marketplace } = getQuery(res, crawlMarketplaceQuerySchema);
+      const { queue, start, end, force } = getBody(res, workerReassignBodySchema);
+      const range = start !== undefined && end !== undefined ? { queue, start, end } : undefined;
+
+      const result = await reassignGeneralWorker(id, { range, force }, marketplace);
+      switch (result.status) {
+        case "not_found":
+          return res.status(404).json({ success: false, error: `General worker ${id} of ${marketplace} not found` });
+        case "processing":
+          return res
+            .status(409)
+            .json({ success: false, error: `General worker ${id} is processing its current range - pass force to reassign anyway` });
+        case "out_of_range":
+          return res
+            .status(422)
+            .json({ success: false, error: `Page range ends after the last page of the ${queue} queue (${result.totalPages})` });
+      }
+
+      await audit(res, "worker.reassign", { marketplace, workerId: id, range: range ?? null, force }, {
+        previousRanges: result.previousRanges,
+        range: result.range,
+      });
+      res.json({ success: true, workerId: id, previousRanges: result.previousRanges, range: result.range });
+    } catch (error) {
+      sendError(res, error, "Failed to reassign worker via API");
+    }
+  }
+);
+
+crawlAdminRouter.get("/api/admin/audit-log", validateQuery(adminAuditQuerySchema), async (req, res) => {
+  try {
+    const { action, limit, offset } = getQuery(res, adminAuditQuerySchema);
+    const { entries, total } = await getAdminAuditLog(limit, offset, action);
+    res.json({
+      success: true,
+      entries,
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    sendError(res, error, "Failed to get admin audit log via API");
+  }
+});
@@ -0,0 +1,38 @@
+import { parseArgs } from "node:util";
+import { logger, initDb, getDb, apiKeyCreateSchema, createApiKey } from "shared";
+
+// Bootstrap an API key from the command line (e.g. the first admin key):
+// npm run api-key:create -- --name "extension" --scopes read:products [--rate-limit 300]
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      name: { type: "string" },
+      scopes: { type: "string", default: "read:products" },
+      "rate-limit": { type: "string" },
+    },
+  });
+
+  const parsed = apiKeyCreateSchema.safeParse({
+    name: values.name,
+    scopes: values.scopes?.split(",").map((scope) => scope.trim()),
+    rateLimitPerMinute: values["rate-limit"] ? parseInt(values["rate-limit"], 10) : null,
+  });
+  if (!parsed.success) {
+    console.error("Invalid arguments:", parsed.error.flatten().fieldErrors);
+    process.exit(1);
+  }
+
+  await initDb();
+  const { key, apiKey } = await createApiKey(parsed.data);
+  logger.info({ apiKeyId: apiKey.id, name: apiKey.name, scopes: apiKey.scopes }, "API key created");
+  console.log(`\n${key}\n\nStore this key now - it cannot be shown again.`);
+
+  await getDb().$disconnect();
+  process.exit(0);
+};
+
+main().catch((error) => {
+  logger.error({ error }, "Failed to create API key");
+  process.exit(1);
+});
@@ -0,0 +1,9 @@
+import type { Response } from "express";
+import { logger } from "shared";
+
+// Unexpected failures of a route: logged with `message` (and any request context) and answered with 500 and the error text
+export const sendError = (res: Response, error: unknown, message: string, context: Record<string, unknown> = {}): void => {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  logger.error({ error: errorMsg, ...context }, message);
+  res.status(500).json({ success: false, error: errorMsg });
+};
@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request } from "express";
+import { buildEtag, getCacheKey, isNotModified } from "./etag.js";
+
+const request = (originalUrl: string, headers: Record<string, string> = {}): Request =>
+  ({ originalUrl, headers }) as unknown as Request;
+
+const freshness = { lastModified: new Date("2026-10-18T12:00:00.500Z"), count: 3 };
+const lastModified = freshness.lastModified.toISOString();
+
+describe("getCacheKey", () => {
+  it("ignores parameter order and the api_key", () => {
+    assert.equal(
+      getCacheKey(request("/api/products?limit=10&queue=encore")),
+      getCacheKey(request("/api/products?queue=encore&api_key=secret&limit=10"))
+    );
+  });
+
+  it("separates different queries", () => {
+    assert.notEqual(getCacheKey(request("/api/products?limit=10")), getCacheKey(request("/api/products?limit=20")));
+  });
+});
+
+describe("buildEtag", () => {
+  it("builds a weak ETag that changes with the rows read", () => {
+    const etag = buildEtag("key", freshness);
+    assert.match(etag, /^W\/"[\w-]+"$/);
+    assert.equal(buildEtag("key", freshness), etag);
+    assert.notEqual(buildEtag("key", { ...freshness, count: 2 }), etag);
+    assert.notEqual(buildEtag("key", { ...freshness, lastModified: new Date(0) }), etag);
+    assert.notEqual(buildEtag("other", freshness), etag);
+  });
+});
+
+describe("isNotModified", () => {
+  const etag = buildEtag("key", freshness);
+
+  it("matches If-None-Match against the ETag, weak or strong, in a list or as *", () => {
+    assert.equal(isNotModified(request("/", { "if-none-match": etag }), etag, lastModified), true);
+    assert.equal(isNotModified(request("/", { "if-none-match": etag.slice(2) }), etag, lastModified), true);
+    assert.equal(isNotModified(request("/", { "if-none-match": `W/"other", ${etag}` }), etag, lastModified), true);
+    assert.equal(isNotModified(request("/", { "if-none-match": "*" }), etag, lastModified), true);
+    assert.equal(isNotModified(request("/", { "if-none-match": 'W/"other"' }), etag, lastModified), false);
+  });
+
+  it("lets If-None-Match win over If-Modified-Since", () => {
+    const headers = { "if-none-match": 'W/"other"', "if-modified-since": "Sun, 18 Oct 2026 13:00:00 GMT" };
+    assert.equal(isNotModified(request("/", headers), etag, lastModified), false);
+  });
+
+  it("compares If-Modified-Since at second precision", () => {
+    assert.equal(isNotModified(request("/", { "if-modified-since": "Sun, 18 Oct 2026 12:00:00 GMT" }), etag, lastModified), true);
+    assert.equal(isNotModified(request("/", { "if-modified-since": "Sun, 18 Oct 2026 11:59:59 GMT" }), etag, lastModified), false);
+    assert.equal(isNotModified(request("/", { "if-modified-since": "not a date" }), etag, lastModified), false);
+    assert.equal(isNotModified(request("/", { "if-modified-since": "Sun, 18 Oct 2026 12:00:00 GMT" }), etag, null), false);
+  });
+
+  it("is false without validators", () => {
+    assert.equal(isNotModified(request("/"), etag, lastModified), false);
+  });
+});
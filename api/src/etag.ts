@@ -0,0 +1,40 @@
+import { createHash } from "node:crypto";
+import type { Request } from "express";
+import type { ProductFreshness } from "shared";
+
+// Cache keys, weak ETags and the conditional request decision behind sendConditionalProductResponse
+
+// Same URL with parameters in any order (and without an api_key) shares one cache entry
+export const getCacheKey = (req: Request): string => {
+  const [path, query = ""] = req.originalUrl.split("?");
+  const params = new URLSearchParams(query);
+  params.delete("api_key");
+  params.sort();
+  return createHash("sha1").update(`${path}?${params.toString()}`).digest("hex");
+};
+
+export const buildEtag = (cacheKey: string, freshness: ProductFreshness): string => {
+  const digest = createHash("sha1")
+    .update(`${cacheKey}:${freshness.lastModified?.getTime() ?? 0}:${freshness.count}`)
+    .digest("base64url");
+  return `W/"${digest}"`;
+};
+
+const stripWeak = (tag: string): string => tag.trim().replace(/^W\//, "");
+
+// If-None-Match wins over If-Modified-Since (RFC 9110). Note that If-Modified-Since alone cannot see deletions
+export const isNotModified = (req: Request, etag: string, lastModified: string | null): boolean => {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").map(stripWeak).includes(stripWeak(etag));
+  }
+
+  const ifModifiedSince = req.headers["if-modified-since"];
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !isNaN(since) && Math.floor(Date.parse(lastModified) / 1000) * 1000 <= since;
+  }
+
+  return false;
+};
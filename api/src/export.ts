@@ -0,0 +1,103 @@
+import { once } from "node:events";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { Request, Response } from "express";
+import ExcelJS from "exceljs";
+import {
+  logger,
+  PRODUCT_EXPORT_COLUMNS,
+  ProductExportRow,
+  iterateProductsForExport,
+} from "shared";
+import { getQuery } from "./validation.js";
+import { productExportQuerySchema } from "./schemas.js";
+
+// Bulk export streamed straight from the database - rows are pulled in batches only as fast as the client reads
+
+const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+} as const;
+
+const IMAGE_SEPARATOR = " | ";
+
+const toCell = (row: ProductExportRow, column: (typeof PRODUCT_EXPORT_COLUMNS)[number]): string | number | boolean | null => {
+  const value = row[column];
+  return Array.isArray(value) ? value.join(IMAGE_SEPARATOR) : value;
+};
+
+const escapeCsv = (value: string | number | boolean | null): string => {
+  if (value === null) {
+    return "";
+  }
+  let text = String(value);
+  // Neutralise spreadsheet formulas (CSV injection)
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+async function* toCsv(rows: AsyncIterable<ProductExportRow>): AsyncGenerator<string> {
+  yield "\uFEFF" + PRODUCT_EXPORT_COLUMNS.join(",") + "\r\n"; // BOM so Excel detects UTF-8
+  for await (const row of rows) {
+    yield PRODUCT_EXPORT_COLUMNS.map((column) => escapeCsv(toCell(row, column))).join(",") + "\r\n";
+  }
+}
+
+async function* toNdjson(rows: AsyncIterable<ProductExportRow>): AsyncGenerator<string> {
+  for await (const row of rows) {
+    yield JSON.stringify(row) + "\n";
+  }
+}
+
+const writeXlsx = async (rows: AsyncIterable<ProductExportRow>, res: Response): Promise<void> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useSharedStrings: false, useStyles: false });
+  const worksheet = workbook.addWorksheet("Products");
+  worksheet.columns = PRODUCT_EXPORT_COLUMNS.map((column) => ({ header: column, key: column }));
+
+  for await (const row of rows) {
+    worksheet.addRow(Object.fromEntries(PRODUCT_EXPORT_COLUMNS.map((column) => [column, toCell(row, column)]))).commit();
+    if (res.writableNeedDrain) {
+      await once(res, "drain");
+    }
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+};
+
+export const exportProducts = async (req: Request, res: Response): Promise<void> => {
+  const { format, ...filter } = getQuery(res, productExportQuerySchema);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="products-${timestamp}.${format}"`);
+
+  const rows = iterateProductsForExport(filter);
+  let exported = 0;
+  const counted = (async function* () {
+    for await (const row of rows) {
+      exported++;
+      yield row;
+    }
+  })();
+
+  try {
+    if (format === "xlsx") {
+      await writeXlsx(counted, res);
+    } else {
+      await pipeline(Readable.from(format === "csv" ? toCsv(counted) : toNdjson(counted)), res);
+    }
+    logger.info({ format, exported }, "Product export completed");
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMsg, format, exported }, "Product export failed");
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: errorMsg });
+    } else {
+      res.destroy(); // Truncated download rather than a silently incomplete file
+    }
+  }
+};
@@ -0,0 +1,222 @@
+import { Router, type Request, type Response } from "express";
+import {
+  getNewestProducts,
+  getVineQueueUrl,
+  currentMarketplace,
+  MARKETPLACES,
+  DEFAULT_MARKETPLACE,
+  DEFAULT_VINE_QUEUE,
+  type ProductFeedItem,
+} from "shared";
+import { requireScope } from "./auth.js";
+import { validateQuery, getQuery } from "./validation.js";
+import { sendError } from "./errors.js";
+import { FEED_FORMATS, productFeedQuerySchema } from "./schemas.js";
+
+// Feeds of newly discovered items (newest createdAt first) for feed readers.
+// Readers authenticate with the X-API-Key or Authorization: Bearer header, as the rest of the API does.
+
+type FeedFormat = (typeof FEED_FORMATS)[number];
+
+type FeedContext = {
+  title: string;
+  selfUrl: string;
+  homeUrl: string;
+  updated: Date;
+};
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  atom: "application/atom+xml; charset=utf-8",
+  rss: "application/rss+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "") // Not allowed in XML 1.0
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+};
+
+// Formatted in the locale of the item's marketplace
+const formatPrice = (product: ProductFeedItem): string | null => {
+  const { priceCents: cents, currencyCode } = product;
+  if (cents === null || cents === undefined) {
+    return null;
+  }
+  const { locale, currency } = MARKETPLACES[product.marketplace];
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency: currencyCode ?? currency }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currencyCode ?? ""}`.trim();
+  }
+};
+
+// Filters are echoed in the feed title so several subscriptions can be told apart in a reader
+const describeFilter = (filter: Record<string, unknown>): string => {
+  const parts = Object.entries(filter)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${String(value)}`);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+};
+
+// Items of the default marketplace keep their bare-ASIN IDs from before marketplaces existed, so readers don't re-show them
+const toFeedItemId = (product: ProductFeedItem): string =>
+  product.marketplace === DEFAULT_MARKETPLACE ? product.asin : `${product.marketplace}:${product.asin}`;
+
+const buildSummaryHtml = (product: ProductFeedItem): string => {
+  const lines: string[] = [];
+  const image = product.images[0];
+  if (image) {
+    lines.push(`<p><img src="${escapeXml(image)}" alt="${escapeXml(product.title)}" /></p>`);
+  }
+  const price = formatPrice(product);
+  if (price) {
+    lines.push(`<p>Price: ${escapeXml(price)}</p>`);
+  }
+  if (product.brand) {
+    lines.push(`<p>Brand: ${escapeXml(product.brand)}</p>`);
+  }
+  if (product.rating !== null) {
+    lines.push(`<p>Rating: ${product.rating} (${product.ratingCount ?? 0} ratings)</p>`);
+  }
+  return lines.join("\n");
+};
+
+const renderAtom = (products: ProductFeedItem[], context: FeedContext): string => {
+  const entries = products.map((product) => {
+    const price = formatPrice(product);
+    return [
+      "  <entry>",
+      `    <id>urn:asin:${escapeXml(toFeedItemId(product))}</id>`,
+      `    <title>${escapeXml(product.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(product.url)}" />`,
+      `    <published>${product.createdAt.toISOString()}</published>`,
+      `    <updated>${product.updatedAt.toISOString()}</updated>`,
+      price ? `    <summary>${escapeXml(price)}</summary>` : null,
+      `    <content type="html">${escapeXml(buildSummaryHtml(product))}</content>`,
+      product.category ? `    <category term="${escapeXml(product.category)}" />` : null,
+      "  </entry>",
+    ]
+      .filter((line) => line !== null)
+      .join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(context.selfUrl)}</id>`,
+    `  <title>${escapeXml(context.title)}</title>`,
+    `  <updated>${context.updated.toISOString()}</updated>`,
+    `  <link rel="self" href="${escapeXml(context.selfUrl)}" />`,
+    `  <link rel="alternate" href="${escapeXml(context.homeUrl)}" />`,
+    "  <author><name>vine-crawler</name></author>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+};
+
+const renderRss = (products: ProductFeedItem[], context: FeedContext): string => {
+  const items = products.map((product) => {
+    const image = product.images[0];
+    return [
+      "    <item>",
+      `      <title>${escapeXml(product.title)}</title>`,
+      `      <link>${escapeXml(product.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(toFeedItemId(product))}</guid>`,
+      `      <pubDate>${product.createdAt.toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(buildSummaryHtml(product))}</description>`,
+      product.category ? `      <category>${escapeXml(product.category)}</category>` : null,
+      // RSS enclosures require a length; 0 is the accepted value when it is unknown
+      image ? `      <enclosure url="${escapeXml(image)}" length="0" type="image/jpeg" />` : null,
+      "    </item>",
+    ]
+      .filter((line) => line !== null)
+      .join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${escapeXml(context.title)}</title>`,
+    `    <link>${escapeXml(context.homeUrl)}</link>`,
+    `    <description>${escapeXml(context.title)}</description>`,
+    `    <lastBuildDate>${context.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(context.selfUrl)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+};
+
+// JSON Feed 1.1 - https://www.jsonfeed.org/version/1.1/
+const renderJsonFeed = (products: ProductFeedItem[], context: FeedContext): string => {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: context.title,
+    home_page_url: context.homeUrl,
+    feed_url: context.selfUrl,
+    items: products.map((product) => ({
+      id: toFeedItemId(product),
+      url: product.url,
+      title: product.title,
+      content_html: buildSummaryHtml(product),
+      summary: formatPrice(product) ?? undefined,
+      image: product.images[0],
+      date_published: product.createdAt.toISOString(),
+      date_modified: product.updatedAt.toISOString(),
+      tags: product.category ? [product.category] : undefined,
+      _vine: {
+        marketplace: product.marketplace,
+        asin: product.asin,
+        priceCents: product.priceCents,
+        currencyCode: product.currencyCode,
+        brand: product.brand ?? null,
+        rating: product.rating,
+        ratingCount: product.ratingCount,
+      },
+    })),
+  });
+};
+
+const RENDERERS: Record<FeedFormat, (products: ProductFeedItem[], context: FeedContext) => string> = {
+  atom: renderAtom,
+  rss: renderRss,
+  json: renderJsonFeed,
+};
+
+const sendFeed = (format: FeedFormat) => async (req: Request, res: Response) => {
+  try {
+    const { limit, ...filter } = getQuery(res, productFeedQuerySchema);
+    const products = await getNewestProducts(limit, filter);
+
+    const origin = `${req.protocol}://${req.get("host")}`;
+    const context: FeedContext = {
+      title: `New Vine items${describeFilter(filter)}`,
+      selfUrl: `${origin}${req.originalUrl}`,
+      homeUrl: getVineQueueUrl(
+        filter.marketplace && filter.marketplace !== currentMarketplace.id ? MARKETPLACES[filter.marketplace] : currentMarketplace,
+        filter.queue ?? DEFAULT_VINE_QUEUE
+      ),
+      updated: products[0]?.createdAt ?? new Date(0),
+    };
+
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader("Cache-Control", "private, max-age=60");
+    res.send(RENDERERS[format](products, context));
+  } catch (error) {
+    sendError(res, error, "Failed to render product feed via API", { format });
+  }
+};
+
+export const feedsRouter = Router();
+
+for (const format of FEED_FORMATS) {
+  feedsRouter.get(`/feeds/new.${format}`, requireScope("read:products"), validateQuery(productFeedQuerySchema), sendFeed(format));
+}
@@ -0,0 +1,27 @@
+import { createHandler } from "graphql-http/lib/use/express";
+import { logger } from "shared";
+import { getApiKey } from "../auth.js";
+import { graphqlSchema, type GraphQLContext } from "./schema.js";
+import { createLoaders } from "./loaders.js";
+import { createQueryLimitsRule } from "./limits.js";
+
+// POST/GET /graphql (GraphQL over HTTP). Authentication runs before this handler; scopes are checked per field
+
+export const graphqlHandler = createHandler<GraphQLContext>({
+  schema: graphqlSchema,
+  context: (req): GraphQLContext => ({
+    apiKey: getApiKey(req.context.res),
+    loaders: createLoaders(),
+  }),
+  validationRules: (req, args, specifiedRules) => [
+    ...specifiedRules,
+    createQueryLimitsRule((args.variableValues as Record<string, unknown> | undefined) ?? {}),
+  ],
+  onOperation: (req, args, result) => {
+    // Errors thrown outside GraphQL (database, Redis) are unexpected; user input errors are not logged
+    const unexpected = result.errors?.filter((error) => error.originalError && !("extensions" in error.originalError));
+    if (unexpected && unexpected.length > 0) {
+      logger.error({ errors: unexpected.map((error) => ({ message: error.message, path: error.path })) }, "GraphQL operation failed");
+    }
+  },
+});
@@ -0,0 +1,130 @@
+import {
+  GraphQLError,
+  Kind,
+  getNamedType,
+  isObjectType,
+  isInterfaceType,
+  valueFromAST,
+  type ASTVisitor,
+  type FragmentDefinitionNode,
+  type GraphQLCompositeType,
+  type GraphQLSchema,
+  type SelectionSetNode,
+  type ValidationContext,
+  type ValidationRule,
+} from "graphql";
+
+// Query depth and complexity limits, checked before execution.
+// Cost: every field costs 1; a field with a `first` argument multiplies the cost of its selection by `first`.
+// Introspection fields (__schema, __type, __typename) are free so GraphQL tooling keeps working.
+
+export const MAX_QUERY_DEPTH = 8;
+export const MAX_QUERY_COMPLEXITY = 2_000;
+
+type Measure = { depth: number; cost: number };
+
+const measureSelectionSet = (
+  selectionSet: SelectionSetNode,
+  parentType: GraphQLCompositeType,
+  schema: GraphQLSchema,
+  fragments: Record<string, FragmentDefinitionNode>,
+  variables: Record<string, unknown>,
+  visitedFragments: Set<string>
+): Measure => {
+  let depth = 0;
+  let cost = 0;
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      if (selection.name.value.startsWith("__")) {
+        continue;
+      }
+      const fieldDef = isObjectType(parentType) || isInterfaceType(parentType) ? parentType.getFields()[selection.name.value] : undefined;
+      if (!fieldDef) {
+        continue; // Unknown fields are reported by the standard validation rules
+      }
+
+      let child: Measure = { depth: 0, cost: 0 };
+      const childType = getNamedType(fieldDef.type);
+      if (selection.selectionSet && (isObjectType(childType) || isInterfaceType(childType))) {
+        child = measureSelectionSet(selection.selectionSet, childType, schema, fragments, variables, visitedFragments);
+      }
+
+      const firstArgDef = fieldDef.args.find((arg) => arg.name === "first");
+      let multiplier = 1;
+      if (firstArgDef) {
+        const firstNode = selection.arguments?.find((arg) => arg.name.value === "first");
+        const value = firstNode ? valueFromAST(firstNode.value, firstArgDef.type, variables) : firstArgDef.defaultValue;
+        multiplier = typeof value === "number" && value > 0 ? value : 1;
+      }
+
+      depth = Math.max(depth, child.depth + 1);
+      cost += 1 + multiplier * child.cost;
+    } else {
+      let nested: SelectionSetNode | undefined;
+      let typeName: string | undefined;
+      if (selection.kind === Kind.INLINE_FRAGMENT) {
+        nested = selection.selectionSet;
+        typeName = selection.typeCondition?.name.value;
+      } else {
+        const name = selection.name.value;
+        const fragment = fragments[name];
+        if (!fragment || visitedFragments.has(name)) {
+          continue; // Missing and cyclic fragments are reported by the standard validation rules
+        }
+        visitedFragments.add(name);
+        nested = fragment.selectionSet;
+        typeName = fragment.typeCondition.name.value;
+      }
+
+      const fragmentType = typeName ? schema.getType(typeName) : parentType;
+      if (nested && fragmentType && (isObjectType(fragmentType) || isInterfaceType(fragmentType))) {
+        const measured = measureSelectionSet(nested, fragmentType, schema, fragments, variables, visitedFragments);
+        depth = Math.max(depth, measured.depth);
+        cost += measured.cost;
+      }
+      if (selection.kind === Kind.FRAGMENT_SPREAD) {
+        visitedFragments.delete(selection.name.value);
+      }
+    }
+  }
+
+  return { depth, cost };
+};
+
+export const createQueryLimitsRule = (variables: Record<string, unknown> = {}): ValidationRule => {
+  return (context: ValidationContext): ASTVisitor => ({
+    OperationDefinition(operation) {
+      const schema = context.getSchema();
+      const rootType = operation.operation === "query" ? schema.getQueryType() : schema.getMutationType();
+      if (!rootType) {
+        return;
+      }
+
+      const fragments: Record<string, FragmentDefinitionNode> = {};
+      for (const definition of context.getDocument().definitions) {
+        if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+          fragments[definition.name.value] = definition;
+        }
+      }
+
+      const { depth, cost } = measureSelectionSet(operation.selectionSet, rootType, schema, fragments, variables, new Set());
+      if (depth > MAX_QUERY_DEPTH) {
+        context.reportError(
+          new GraphQLError(`Query depth ${depth} exceeds the maximum of ${MAX_QUERY_DEPTH}`, {
+            nodes: [operation],
+            extensions: { code: "QUERY_TOO_DEEP" },
+          })
+        );
+      }
+      if (cost > MAX_QUERY_COMPLEXITY) {
+        context.reportError(
+          new GraphQLError(`Query complexity ${cost} exceeds the maximum of ${MAX_QUERY_COMPLEXITY}`, {
+            nodes: [operation],
+            extensions: { code: "QUERY_TOO_COMPLEX" },
+          })
+        );
+      }
+    },
+  });
+};
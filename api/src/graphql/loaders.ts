@@ -0,0 +1,67 @@
+import DataLoader from "dataloader";
+import { ProductRecord, CrawlEventRecord, CrawlStatus, MarketplaceId, getProductsByAsins, getRecentCrawlEventsByAsins } from "shared";
+
+// Per-request DataLoaders: every Product/ProductCrawlEvent resolved in one tick becomes one Prisma query per marketplace
+
+export type ProductKey = {
+  marketplace: MarketplaceId;
+  asin: string;
+};
+
+export type Loaders = {
+  productByAsin: DataLoader<ProductKey, ProductRecord | null, string>;
+  recentCrawlEvents: (limit: number, status?: CrawlStatus) => DataLoader<ProductKey, CrawlEventRecord[], string>;
+};
+
+const toCacheKey = (key: ProductKey): string => `${key.marketplace}:${key.asin}`;
+
+// Splits a batch of keys by marketplace, since the repository lookups take one marketplace at a time
+const groupAsinsByMarketplace = (keys: readonly ProductKey[]): Map<MarketplaceId, string[]> => {
+  const groups = new Map<MarketplaceId, string[]>();
+  for (const key of keys) {
+    groups.set(key.marketplace, [...(groups.get(key.marketplace) ?? []), key.asin]);
+  }
+  return groups;
+};
+
+export const createLoaders = (): Loaders => {
+  const productByAsin = new DataLoader<ProductKey, ProductRecord | null, string>(
+    async (keys) => {
+      const groups = [...groupAsinsByMarketplace(keys)];
+      const products = (await Promise.all(groups.map(([marketplace, asins]) => getProductsByAsins(marketplace, asins)))).flat();
+      const byKey = new Map(products.map((product) => [toCacheKey(product), product]));
+      return keys.map((key) => byKey.get(toCacheKey(key)) ?? null);
+    },
+    { cacheKeyFn: toCacheKey }
+  );
+
+  // One loader per (limit, status) combination, since they batch into different queries
+  const crawlEventLoaders = new Map<string, DataLoader<ProductKey, CrawlEventRecord[], string>>();
+  const recentCrawlEvents = (limit: number, status?: CrawlStatus): DataLoader<ProductKey, CrawlEventRecord[], string> => {
+    const key = `${limit}:${status ?? "*"}`;
+    let loader = crawlEventLoaders.get(key);
+    if (!loader) {
+      loader = new DataLoader<ProductKey, CrawlEventRecord[], string>(
+        async (keys) => {
+          const groups = [...groupAsinsByMarketplace(keys)];
+          const events = (
+            await Promise.all(groups.map(([marketplace, asins]) => getRecentCrawlEventsByAsins(marketplace, asins, limit, status)))
+          ).flat();
+          const byKey = new Map<string, CrawlEventRecord[]>();
+          for (const event of events) {
+            if (event.asin) {
+              const eventKey = toCacheKey({ marketplace: event.marketplace, asin: event.asin });
+              byKey.set(eventKey, [...(byKey.get(eventKey) ?? []), event]);
+            }
+          }
+          return keys.map((productKey) => byKey.get(toCacheKey(productKey)) ?? []);
+        },
+        { cacheKeyFn: toCacheKey }
+      );
+      crawlEventLoaders.set(key, loader);
+    }
+    return loader;
+  };
+
+  return { productByAsin, recentCrawlEvents };
+};
@@ -0,0 +1,480 @@
+import {
+  GraphQLSchema,
+  GraphQLObjectType,
+  GraphQLInputObjectType,
+  GraphQLEnumType,
+  GraphQLScalarType,
+  GraphQLNonNull,
+  GraphQLList,
+  GraphQLString,
+  GraphQLInt,
+  GraphQLFloat,
+  GraphQLBoolean,
+  GraphQLError,
+  Kind,
+} from "graphql";
+import { z } from "zod";
+import {
+  config,
+  ProductRecord,
+  ProductFilter,
+  ProductSort,
+  CrawlEventRecord,
+  CrawlEventFilter,
+  CrawlStatus,
+  WorkerFleetStatus,
+  ApiKeyRecord,
+  MarketplaceId,
+  MARKETPLACE_IDS,
+  VINE_QUEUE_IDS,
+  ApiKeyScope,
+  productFilterFieldsSchema,
+  checkProductFilterRanges,
+  hasApiKeyScope,
+  getAllProducts,
+  getProductsByCursor,
+  getTotalProductCount,
+  decodeProductCursor,
+  getCrawlEvents,
+  getLatestCrawlMetadata,
+  getWorkerFleetStatus,
+} from "shared";
+import type { Loaders } from "./loaders.js";
+
+// Code-first GraphQL schema over the same repositories the REST routes use
+
+export type GraphQLContext = {
+  apiKey: ApiKeyRecord | null;
+  loaders: Loaders;
+};
+
+const MAX_PAGE_SIZE = 100;
+const MAX_CRAWL_EVENTS_PER_PRODUCT = 50;
+
+const requireScope = (context: GraphQLContext, scope: ApiKeyScope): void => {
+  if (config.API_AUTH_ENABLED && (!context.apiKey || !hasApiKeyScope(context.apiKey, scope))) {
+    throw new GraphQLError(`Missing required scope: ${scope}`, { extensions: { code: "FORBIDDEN" } });
+  }
+};
+
+const badInput = (message: string): GraphQLError => new GraphQLError(message, { extensions: { code: "BAD_USER_INPUT" } });
+
+const checkPageSize = (first: number, max: number = MAX_PAGE_SIZE): void => {
+  if (first < 1 || first > max) {
+    throw badInput(`first must be between 1 and ${max}`);
+  }
+};
+
+// Offset cursors for orderings without a keyset (every sort except UPDATED, and crawl events)
+const encodeOffsetCursor = (offset: number): string => Buffer.from(JSON.stringify({ o: offset })).toString("base64url");
+
+const decodeOffsetCursor = (cursor: string | null | undefined): number => {
+  if (!cursor) {
+    return 0;
+  }
+  try {
+    const parsed = z.object({ o: z.number().int().nonnegative() }).safeParse(JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")));
+    if (parsed.success) {
+      return parsed.data.o;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw badInput("Invalid cursor");
+};
+
+const DateTimeScalar = new GraphQLScalarType<Date | null, string>({
+  name: "DateTime",
+  description: "ISO 8601 timestamp",
+  serialize: (value) => (value instanceof Date ? value.toISOString() : new Date(String(value)).toISOString()),
+  parseValue: (value) => {
+    const date = new Date(String(value));
+    if (typeof value !== "string" || isNaN(date.getTime())) {
+      throw badInput("DateTime must be an ISO 8601 string");
+    }
+    return date;
+  },
+  parseLiteral: (ast) => {
+    const date = ast.kind === Kind.STRING ? new Date(ast.value) : null;
+    if (!date || isNaN(date.getTime())) {
+      throw badInput("DateTime must be an ISO 8601 string");
+    }
+    return date;
+  },
+});
+
+const CrawlStatusEnum = new GraphQLEnumType({
+  name: "CrawlStatus",
+  values: {
+    SUCCESS: { value: "success" },
+    FAILED: { value: "failed" },
+  },
+});
+
+const MarketplaceEnum = new GraphQLEnumType({
+  name: "Marketplace",
+  values: Object.fromEntries(MARKETPLACE_IDS.map((id) => [id.toUpperCase(), { value: id }])),
+});
+
+const VineQueueEnum = new GraphQLEnumType({
+  name: "VineQueue",
+  values: Object.fromEntries(VINE_QUEUE_IDS.map((id) => [id.toUpperCase(), { value: id }])),
+});
+
+const ProductSortEnum = new GraphQLEnumType({
+  name: "ProductSort",
+  values: {
+    UPDATED: { value: "updated", description: "Most recently updated first (keyset pagination)" },
+    NEWEST: { value: "newest" },
+    PRICE_ASC: { value: "price_asc" },
+    PRICE_DESC: { value: "price_desc" },
+    RATING: { value: "rating" },
+  },
+});
+
+const PageInfoType = new GraphQLObjectType({
+  name: "PageInfo",
+  fields: {
+    hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    endCursor: { type: GraphQLString },
+  },
+});
+
+// Thunks break the Product <-> ProductCrawlEvent cycle
+const ProductType: GraphQLObjectType<ProductRecord, GraphQLContext> = new GraphQLObjectType<ProductRecord, GraphQLContext>({
+  name: "Product",
+  fields: () => ({
+    marketplace: { type: new GraphQLNonNull(MarketplaceEnum) },
+    asin: { type: new GraphQLNonNull(GraphQLString) },
+    queue: { type: new GraphQLNonNull(VineQueueEnum), description: "Vine queue the item was last listed in" },
+    url: { type: new GraphQLNonNull(GraphQLString) },
+    title: { type: new GraphQLNonNull(GraphQLString) },
+    pageNumber: { type: new GraphQLNonNull(GraphQLInt), description: "Page within the queue" },
+    images: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(GraphQLString))) },
+    priceCents: { type: GraphQLInt },
+    currencyCode: { type: GraphQLString },
+    rating: { type: GraphQLFloat },
+    ratingCount: { type: GraphQLInt },
+    brand: { type: GraphQLString },
+    description: { type: GraphQLString },
+    category: { type: GraphQLString },
+    availability: { type: GraphQLString },
+    primeEligible: { type: GraphQLBoolean },
+    discount: { type: GraphQLString },
+    originalPrice: { type: GraphQLInt },
+    vineNote: { type: GraphQLString },
+    firstSeenAt: { type: DateTimeScalar, description: "First crawl that found the item" },
+    lastSeenAt: { type: DateTimeScalar, description: "Most recent crawl that found the item" },
+    removedAt: { type: DateTimeScalar, description: "When the item left its page; null while it is listed" },
+    timesSeen: { type: GraphQLInt, description: "Number of crawls that found the item" },
+    crawlEvents: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(CrawlEventType))),
+      description: "Most recent crawl events for this product, newest first. Requires read:crawl",
+      args: {
+        first: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 5 },
+        status: { type: CrawlStatusEnum },
+      },
+      resolve: (product, args: { first: number; status?: CrawlStatus }, context) => {
+        requireScope(context, "read:crawl");
+        checkPageSize(args.first, MAX_CRAWL_EVENTS_PER_PRODUCT);
+        return context.loaders.recentCrawlEvents(args.first, args.status).load(product);
+      },
+    },
+  }),
+});
+
+const CrawlEventType: GraphQLObjectType<CrawlEventRecord, GraphQLContext> = new GraphQLObjectType<CrawlEventRecord, GraphQLContext>({
+  name: "ProductCrawlEvent",
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLInt) },
+    marketplace: { type: new GraphQLNonNull(MarketplaceEnum) },
+    asin: { type: GraphQLString },
+    queue: { type: new GraphQLNonNull(VineQueueEnum) },
+    url: { type: new GraphQLNonNull(GraphQLString) },
+    pageNumber: { type: new GraphQLNonNull(GraphQLInt) },
+    status: { type: new GraphQLNonNull(CrawlStatusEnum) },
+    error: { type: GraphQLString },
+    crawlRunId: { type: GraphQLInt, description: "Crawl run that was open when the event was written" },
+    createdAt: { type: new GraphQLNonNull(DateTimeScalar) },
+    product: {
+      type: ProductType,
+      description: "null when the product no longer exists; check removedAt for items that are no longer listed. Requires read:products",
+      resolve: (event, args, context) => {
+        requireScope(context, "read:products");
+        return event.asin ? context.loaders.productByAsin.load({ marketplace: event.marketplace, asin: event.asin }) : null;
+      },
+    },
+  }),
+});
+
+type ProductConnection = { filter: Partial<ProductFilter>; nodes: ProductRecord[]; endCursor: string | null };
+
+const ProductConnectionType = new GraphQLObjectType<ProductConnection, GraphQLContext>({
+  name: "ProductConnection",
+  fields: {
+    nodes: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ProductType))) },
+    pageInfo: {
+      type: new GraphQLNonNull(PageInfoType),
+      resolve: (connection) => ({ hasNextPage: connection.endCursor !== null, endCursor: connection.endCursor }),
+    },
+    totalCount: {
+      type: new GraphQLNonNull(GraphQLInt),
+      resolve: (connection) => getTotalProductCount(connection.filter), // Only counted when asked for
+    },
+  },
+});
+
+type CrawlEventConnection = { nodes: CrawlEventRecord[]; total: number; endCursor: string | null };
+
+const CrawlEventConnectionType = new GraphQLObjectType<CrawlEventConnection, GraphQLContext>({
+  name: "ProductCrawlEventConnection",
+  fields: {
+    nodes: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(CrawlEventType))) },
+    pageInfo: {
+      type: new GraphQLNonNull(PageInfoType),
+      resolve: (connection) => ({ hasNextPage: connection.endCursor !== null, endCursor: connection.endCursor }),
+    },
+    totalCount: {
+      type: new GraphQLNonNull(GraphQLInt),
+      resolve: (connection) => connection.total,
+    },
+  },
+});
+
+const CrawlMetadataType = new GraphQLObjectType({
+  name: "CrawlMetadata",
+  fields: {
+    totalPages: { type: new GraphQLNonNull(GraphQLInt) },
+    totalProducts: { type: new GraphQLNonNull(GraphQLInt) },
+    lastUpdated: { type: new GraphQLNonNull(DateTimeScalar) },
+  },
+});
+
+const WorkerTypeEnum = new GraphQLEnumType({
+  name: "WorkerType",
+  values: { MANAGER: { value: "manager" }, GENERAL: { value: "general" }, PRODUCT: { value: "product" } },
+});
+
+const WorkerStateEnum = new GraphQLEnumType({
+  name: "WorkerState",
+  values: { ALIVE: { value: "alive" }, STALE: { value: "stale" }, DEAD: { value: "dead" } },
+});
+
+const PageRangeType = new GraphQLObjectType({
+  name: "PageRange",
+  fields: {
+    queue: { type: new GraphQLNonNull(VineQueueEnum) },
+    start: { type: new GraphQLNonNull(GraphQLInt) },
+    end: { type: new GraphQLNonNull(GraphQLInt) },
+  },
+});
+
+const PageAssignmentType = new GraphQLObjectType({
+  name: "PageAssignment",
+  fields: {
+    queue: { type: new GraphQLNonNull(VineQueueEnum) },
+    page: { type: new GraphQLNonNull(GraphQLInt) },
+  },
+});
+
+const WorkerLockType = new GraphQLObjectType({
+  name: "WorkerLock",
+  fields: {
+    held: { type: new GraphQLNonNull(GraphQLBoolean) },
+    refreshedAt: { type: DateTimeScalar },
+    ageMs: { type: GraphQLInt },
+    ttlSeconds: { type: GraphQLInt },
+  },
+});
+
+const WorkerStatusType = new GraphQLObjectType({
+  name: "WorkerStatus",
+  fields: {
+    type: { type: new GraphQLNonNull(WorkerTypeEnum) },
+    id: { type: new GraphQLNonNull(GraphQLInt) },
+    state: { type: new GraphQLNonNull(WorkerStateEnum) },
+    lastHeartbeatAt: { type: DateTimeScalar },
+    heartbeatAgeMs: { type: GraphQLInt },
+    assignedRanges: { type: new GraphQLList(new GraphQLNonNull(PageRangeType)) },
+    assignedPages: { type: new GraphQLList(new GraphQLNonNull(PageAssignmentType)) },
+    processing: { type: GraphQLBoolean },
+    complete: { type: GraphQLBoolean },
+    lock: { type: new GraphQLNonNull(WorkerLockType) },
+  },
+});
+
+const QueueCoordinationType = new GraphQLObjectType({
+  name: "QueueCoordination",
+  fields: {
+    queue: { type: new GraphQLNonNull(VineQueueEnum) },
+    totalPages: { type: GraphQLInt },
+    totalProducts: { type: GraphQLInt },
+    lastAssignedPage: { type: GraphQLInt },
+  },
+});
+
+const WorkerFleetType = new GraphQLObjectType<WorkerFleetStatus>({
+  name: "WorkerFleet",
+  fields: {
+    workers: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(WorkerStatusType))) },
+    alive: { type: new GraphQLNonNull(GraphQLInt), resolve: (fleet) => fleet.counts.alive },
+    stale: { type: new GraphQLNonNull(GraphQLInt), resolve: (fleet) => fleet.counts.stale },
+    dead: { type: new GraphQLNonNull(GraphQLInt), resolve: (fleet) => fleet.counts.dead },
+    paused: { type: new GraphQLNonNull(GraphQLBoolean), resolve: (fleet) => fleet.coordination.paused },
+    totalPages: { type: GraphQLInt, resolve: (fleet) => fleet.coordination.totalPages },
+    queues: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(QueueCoordinationType))),
+      resolve: (fleet) => fleet.coordination.queues,
+    },
+  },
+});
+
+const ProductFilterInput = new GraphQLInputObjectType({
+  name: "ProductFilter",
+  fields: {
+    marketplace: { type: MarketplaceEnum, description: "All marketplaces when omitted" },
+    queue: { type: VineQueueEnum, description: "All queues when omitted" },
+    q: { type: GraphQLString, description: "Keyword matched against the title" },
+    brand: { type: GraphQLString },
+    category: { type: GraphQLString },
+    minPrice: { type: GraphQLInt, description: "Minimum price in cents" },
+    maxPrice: { type: GraphQLInt, description: "Maximum price in cents" },
+    minRating: { type: GraphQLFloat },
+    minRatingCount: { type: GraphQLInt },
+    primeEligible: { type: GraphQLBoolean },
+    minPage: { type: GraphQLInt },
+    maxPage: { type: GraphQLInt },
+    includeRemoved: { type: GraphQLBoolean, description: "Include items that are no longer listed (removedAt is set)" },
+  },
+});
+
+// Same rules as the REST query string, with real booleans for primeEligible and includeRemoved
+const graphqlProductFilterSchema = productFilterFieldsSchema
+  .omit({ sort: true })
+  .extend({ primeEligible: z.boolean().optional(), includeRemoved: z.boolean().optional() })
+  .superRefine(checkProductFilterRanges);
+
+const parseProductFilter = (input: Record<string, unknown> | undefined): Omit<ProductFilter, "sort"> => {
+  // GraphQL passes explicit nulls for omitted nullable fields in variables
+  const defined = Object.fromEntries(Object.entries(input ?? {}).filter(([, value]) => value !== null));
+  const parsed = graphqlProductFilterSchema.safeParse(defined);
+  if (!parsed.success) {
+    throw badInput(parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "));
+  }
+  return parsed.data;
+};
+
+const CrawlEventFilterInput = new GraphQLInputObjectType({
+  name: "CrawlEventFilter",
+  fields: {
+    marketplace: { type: MarketplaceEnum },
+    queue: { type: VineQueueEnum },
+    status: { type: CrawlStatusEnum },
+    asin: { type: GraphQLString },
+    pageNumber: { type: GraphQLInt },
+    since: { type: DateTimeScalar },
+    until: { type: DateTimeScalar },
+  },
+});
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: "Query",
+  fields: {
+    product: {
+      type: ProductType,
+      description: "Requires read:products. marketplace defaults to the API's MARKETPLACE",
+      args: {
+        asin: { type: new GraphQLNonNull(GraphQLString) },
+        marketplace: { type: MarketplaceEnum },
+      },
+      resolve: (root, args: { asin: string; marketplace?: MarketplaceId | null }, context) => {
+        requireScope(context, "read:products");
+        return context.loaders.productByAsin.load({ marketplace: args.marketplace ?? config.MARKETPLACE, asin: args.asin });
+      },
+    },
+    products: {
+      type: new GraphQLNonNull(ProductConnectionType),
+      description: "Requires read:products. UPDATED uses keyset cursors; other sorts page by offset",
+      args: {
+        filter: { type: ProductFilterInput },
+        sort: { type: new GraphQLNonNull(ProductSortEnum), defaultValue: "updated" },
+        first: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 50 },
+        after: { type: GraphQLString },
+      },
+      resolve: async (
+        root,
+        args: { filter?: Record<string, unknown>; sort: ProductSort; first: number; after?: string | null },
+        context
+      ): Promise<ProductConnection> => {
+        requireScope(context, "read:products");
+        checkPageSize(args.first);
+        const filter = { ...parseProductFilter(args.filter), sort: args.sort };
+
+        if (args.sort === "updated") {
+          const cursor = args.after ? decodeProductCursor(args.after) : null;
+          if (args.after && !cursor) {
+            throw badInput("Invalid cursor");
+          }
+          const { products, nextCursor } = await getProductsByCursor(args.first, cursor, filter);
+          for (const product of products) {
+            context.loaders.productByAsin.prime(product, product);
+          }
+          return { filter, nodes: products, endCursor: nextCursor };
+        }
+
+        const offset = decodeOffsetCursor(args.after);
+        const products = await getAllProducts(args.first + 1, offset, filter);
+        const nodes = products.slice(0, args.first);
+        for (const product of nodes) {
+          context.loaders.productByAsin.prime(product, product);
+        }
+        return { filter, nodes, endCursor: products.length > args.first ? encodeOffsetCursor(offset + args.first) : null };
+      },
+    },
+    crawlEvents: {
+      type: new GraphQLNonNull(CrawlEventConnectionType),
+      description: "Requires read:crawl. Newest first",
+      args: {
+        filter: { type: CrawlEventFilterInput },
+        first: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 50 },
+        after: { type: GraphQLString },
+      },
+      resolve: async (
+        root,
+        args: { filter?: { [K in keyof CrawlEventFilter]?: CrawlEventFilter[K] | null }; first: number; after?: string | null },
+        context
+      ): Promise<CrawlEventConnection> => {
+        requireScope(context, "read:crawl");
+        checkPageSize(args.first);
+        const filter = Object.fromEntries(Object.entries(args.filter ?? {}).filter(([, value]) => value !== null)) as CrawlEventFilter;
+        if (filter.since && filter.until && filter.since > filter.until) {
+          throw badInput("since must be before until");
+        }
+
+        const offset = decodeOffsetCursor(args.after);
+        const { events, total } = await getCrawlEvents(filter, args.first, offset);
+        return { nodes: events, total, endCursor: offset + events.length < total ? encodeOffsetCursor(offset + args.first) : null };
+      },
+    },
+    crawlMetadata: {
+      type: CrawlMetadataType,
+      description: "Requires read:crawl. Latest sweep of any marketplace unless one is given",
+      args: { marketplace: { type: MarketplaceEnum } },
+      resolve: (root, args: { marketplace?: MarketplaceId | null }, context) => {
+        requireScope(context, "read:crawl");
+        return getLatestCrawlMetadata(args.marketplace ?? undefined);
+      },
+    },
+    workers: {
+      type: new GraphQLNonNull(WorkerFleetType),
+      description: "Requires read:crawl. marketplace defaults to the API's MARKETPLACE",
+      args: { marketplace: { type: MarketplaceEnum } },
+      resolve: (root, args: { marketplace?: MarketplaceId | null }, context) => {
+        requireScope(context, "read:crawl");
+        return getWorkerFleetStatus(args.marketplace ?? config.MARKETPLACE);
+      },
+    },
+  },
+});
+
+export const graphqlSchema = new GraphQLSchema({ query: QueryType });
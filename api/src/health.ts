@@ -0,0 +1,100 @@
+import type { Request, Response } from "express";
+import { config, logger, getDb, redisConnection, getMigrationStatus, getLastSuccessfulCrawlAtByMarketplace } from "shared";
+
+// Liveness only says the process is serving requests. Readiness checks every dependency:
+// a failing database, Redis or migration check makes the API unready (503); a stale crawl only warns
+
+export type HealthCheckStatus = "pass" | "warn" | "fail";
+
+export type HealthCheck = {
+  status: HealthCheckStatus;
+  latencyMs: number;
+  error?: string;
+  details?: Record<string, unknown>;
+};
+
+const startedAt = Date.now();
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const runCheck = async (
+  check: () => Promise<{ status: HealthCheckStatus; details?: Record<string, unknown> }>
+): Promise<HealthCheck> => {
+  const start = performance.now();
+  try {
+    const { status, details } = await withTimeout(check(), config.HEALTH_CHECK_TIMEOUT_MS);
+    return { status, latencyMs: Math.round(performance.now() - start), details };
+  } catch (error) {
+    return {
+      status: "fail",
+      latencyMs: Math.round(performance.now() - start),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+const checkDatabase = async () => {
+  await getDb().$queryRaw`SELECT 1`;
+  return { status: "pass" as const };
+};
+
+const checkRedis = async () => {
+  const reply = await redisConnection.ping();
+  return { status: reply === "PONG" ? ("pass" as const) : ("fail" as const) };
+};
+
+const checkMigrations = async () => {
+  const { applied, pending, failed } = await getMigrationStatus();
+  const status: HealthCheckStatus = failed.length > 0 || (pending?.length ?? 0) > 0 ? "fail" : "pass";
+  return { status, details: { applied, pending, failed } };
+};
+
+// Reported per marketplace - the API's own MARKETPLACE plus every marketplace with a successful crawl - and warns
+// if any of them is stale
+const checkCrawlFreshness = async () => {
+  const lastSuccessByMarketplace = await getLastSuccessfulCrawlAtByMarketplace();
+  const marketplaces = [...new Set([config.MARKETPLACE, ...lastSuccessByMarketplace.keys()])];
+  const freshness = marketplaces.map((marketplace) => {
+    const lastSuccessAt = lastSuccessByMarketplace.get(marketplace) ?? null;
+    const ageMinutes = lastSuccessAt ? Math.floor((Date.now() - lastSuccessAt.getTime()) / 60_000) : null;
+    return { marketplace, lastSuccessAt, ageMinutes, stale: ageMinutes === null || ageMinutes > config.HEALTH_CRAWL_STALE_AFTER_MINUTES };
+  });
+  const status: HealthCheckStatus = freshness.some((entry) => entry.stale) ? "warn" : "pass";
+  return {
+    status,
+    details: { marketplaces: freshness, staleAfterMinutes: config.HEALTH_CRAWL_STALE_AFTER_MINUTES },
+  };
+};
+
+export const liveness = (req: Request, res: Response): void => {
+  res.json({ status: "pass", service: "vine-api", uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000) });
+};
+
+export const readiness = async (req: Request, res: Response): Promise<void> => {
+  const [database, redis, migrations, crawl] = await Promise.all([
+    runCheck(checkDatabase),
+    runCheck(checkRedis),
+    runCheck(checkMigrations),
+    runCheck(checkCrawlFreshness),
+  ]);
+  const checks = { database, redis, migrations, crawl };
+
+  const statuses = Object.values(checks).map((check) => check.status);
+  const status: HealthCheckStatus = statuses.includes("fail") ? "fail" : statuses.includes("warn") ? "warn" : "pass";
+
+  if (status === "fail") {
+    const failing = Object.entries(checks)
+      .filter(([, check]) => check.status === "fail")
+      .map(([name, check]) => ({ name, error: check.error }));
+    logger.warn({ failing }, "Readiness check failed");
+  }
+
+  res.setHeader("Cache-Control", "no-store");
+  res.status(status === "fail" ? 503 : 200).json({ status, service: "vine-api", checks });
+};
@@ -1,85 +1,260 @@
 import express from "express";
-import { config, logger, initDb, getProductByAsin, getProductsByPage, getAllProducts, getTotalProductCount } from "shared";
+import { config, logger, initDb, getProductByAsin, getProductsByPage, getAllProducts, getTotalProductCount, searchProducts, getProductsByCursor, decodeProductCursor, getProductChangesSince, decodeSyncToken, createApiKey, listApiKeys, revokeApiKey, getCrawlEvents, getCrawlFailureSummary, getWorkerFleetStatus, getProductFreshness, getProductFreshnessByAsin, getProductsByAsins, getProductHistory, metricsRegistry, setMetricsService, registerWorkerHeartbeatMetrics, startWebhookDelivery } from "shared";
+import { streamProducts } from "./productStream.js";
+import { authenticate, requireScope, cors } from "./auth.js";
+import { validateQuery, validateParams, validateBody, getQuery, getParams, getBody } from "./validation.js";
+import { sendError } from "./errors.js";
+import { productListQuerySchema, productSearchQuerySchema, asinParamsSchema, pageParamsSchema, productPageQuerySchema, productStreamQuerySchema, syncQuerySchema, apiKeyIdParamsSchema, apiKeyCreateSchema, productExportQuerySchema, crawlEventQuerySchema, crawlEventSummaryQuerySchema, productLookupBodySchema, productHistoryQuerySchema, productQuerySchema, crawlMarketplaceQuerySchema } from "./schemas.js";
+import { docsRouter } from "./openapi.js";
+import { exportProducts } from "./export.js";
+import { crawlAdminRouter } from "./crawlAdmin.js";
+import { liveness, readiness } from "./health.js";
+import { sendConditionalProductResponse } from "./conditional.js";
+import { graphqlHandler } from "./graphql/index.js";
+import { feedsRouter } from "./feeds.js";
+import { watchlistsRouter } from "./watchlists.js";
+import { webhooksRouter } from "./webhooks.js";
+import { runsRouter } from "./runs.js";
 
 const app = express();
 app.use(express.json({ limit: "10mb" }));
 
-// CORS middleware for extension
-app.use((req, res, next) => {
-  res.header("Access-Control-Allow-Origin", "*");
-  res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.header("Access-Control-Allow-Headers", "Content-Type");
-  if (req.method === "OPTIONS") {
-    return res.sendStatus(200);
-  }
-  next();
-});
+// CORS middleware for extension (origins from API_CORS_ORIGINS)
+app.use(cors);
+
+// OpenAPI document and Swagger UI - public, registered before authentication
+app.use(docsRouter);
+
+// Every /api route needs an API key; routes declare the scope they require
+app.use("/api", authenticate);
+app.use("/feeds", authenticate); // Feed readers send the key as X-API-Key or Authorization: Bearer
 
 // Health check endpoint
 app.get("/health", (req, res) => {
   res.json({ status: "ok", service: "vine-api" });
 });
 
-// Get all products (paginated) - for extension
-app.get("/api/products", async (req, res) => {
+// Probes for orchestrators: liveness never touches dependencies, readiness returns 503 when MySQL, Redis or migrations fail
+app.get("/health/live", liveness);
+app.get("/health/ready", readiness);
+
+// Prometheus metrics - public like /health. Worker heartbeat ages are reported from here only
+setMetricsService("api");
+registerWorkerHeartbeatMetrics();
+app.get("/metrics", async (req, res) => {
+  try {
+    res.type(metricsRegistry.contentType).send(await metricsRegistry.metrics());
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMsg }, "Failed to collect metrics");
+    res.status(500).type("text/plain").send(errorMsg);
+  }
+});
+
+// Get all products (paginated, filterable, sortable) - for extension
+// Offset mode: ?limit=&offset=. Cursor mode: pass ?cursor= (empty for the first page), then the returned nextCursor
+app.get("/api/products", requireScope("read:products"), validateQuery(productListQuerySchema), async (req, res) => {
   try {
-    const limit = parseInt(req.query.limit as string, 10) || 100;
-    const offset = parseInt(req.query.offset as string, 10) || 0;
+    const { limit, offset, cursor: cursorParam, ...filter } = getQuery(res, productListQuerySchema);
 
-    const products = await getAllProducts(limit, offset);
-    const total = await getTotalProductCount();
+    if (cursorParam !== undefined) {
+      if (offset > 0) {
+        return res.status(400).json({ success: false, error: "cursor and offset cannot be combined" });
+      }
+      if (filter.sort !== "updated") {
+        return res.status(400).json({ success: false, error: "Cursor pagination only supports sort=updated" });
+      }
+      const cursor = cursorParam ? decodeProductCursor(cursorParam) : null;
+      if (cursorParam && !cursor) {
+        return res.status(400).json({ success: false, error: "Invalid cursor" });
+      }
+
+      return await sendConditionalProductResponse(req, res, {
+        getFreshness: () => getProductFreshness(filter),
+        load: async () => {
+          const { products, nextCursor } = await getProductsByCursor(limit, cursor, filter);
+          const total = await getTotalProductCount(filter);
+          return {
+            success: true,
+            products,
+            pagination: {
+              limit,
+              total,
+              nextCursor,
+              hasMore: nextCursor !== null,
+            },
+          };
+        },
+      });
+    }
+
+    await sendConditionalProductResponse(req, res, {
+      getFreshness: () => getProductFreshness(filter),
+      load: async () => {
+        const products = await getAllProducts(limit, offset, filter);
+        const total = await getTotalProductCount(filter);
+        return {
+          success: true,
+          products,
+          pagination: {
+            limit,
+            offset,
+            total,
+            hasMore: offset + limit < total,
+          },
+        };
+      },
+    });
+  } catch (error) {
+    sendError(res, error, "Failed to get products via API");
+  }
+});
+
+// Full-text search over title, description and brand (relevance-ranked, paginated)
+// Boolean mode supports +required, -excluded, "exact phrases" and prefix* terms
+app.get("/api/search", requireScope("read:products"), validateQuery(productSearchQuerySchema), async (req, res) => {
+  try {
+    const query = getQuery(res, productSearchQuerySchema);
+
+    const { hits, total } = await searchProducts(query);
 
     res.json({
       success: true,
-      products,
+      query: query.q,
+      mode: query.mode,
+      results: hits,
       pagination: {
-        limit,
-        offset,
+        limit: query.limit,
+        offset: query.offset,
         total,
-        hasMore: offset + limit < total,
+        hasMore: query.offset + query.limit < total,
       },
     });
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    logger.error({ error: errorMsg }, "Failed to get products via API");
-    res.status(500).json({ success: false, error: errorMsg });
+    sendError(res, error, "Failed to search products via API", { q: req.query.q });
+  }
+});
+
+// Live stream of product.added / product.updated / product.removed events (SSE)
+// Must be registered before /api/products/:asin. Resume with the Last-Event-ID header or ?lastEventId=
+app.get("/api/products/stream", requireScope("read:products"), validateQuery(productStreamQuerySchema), streamProducts);
+
+// Look up many ASINs in one request - the extension sends every ASIN visible on the Vine page
+app.post("/api/products/lookup", requireScope("read:products"), validateBody(productLookupBodySchema), async (req, res) => {
+  try {
+    const { marketplace, asins } = getBody(res, productLookupBodySchema);
+    const found = await getProductsByAsins(marketplace, asins);
+
+    const foundAsins = new Set(found.map((product) => product.asin));
+    const products = Object.fromEntries(found.map((product) => [product.asin, product]));
+    const missing = asins.filter((asin) => !foundAsins.has(asin));
+    res.json({ success: true, products, missing });
+  } catch (error) {
+    sendError(res, error, "Failed to look up products via API");
   }
 });
 
 // Get product by ASIN - for extension
-app.get("/api/products/:asin", async (req, res) => {
+app.get("/api/products/:asin", requireScope("read:products"), validateParams(asinParamsSchema), validateQuery(productQuerySchema), async (req, res) => {
+  try {
+    const { asin } = getParams(res, asinParamsSchema);
+    const { marketplace } = getQuery(res, productQuerySchema);
+    await sendConditionalProductResponse(req, res, {
+      getFreshness: () => getProductFreshnessByAsin(marketplace, asin),
+      load: async () => {
+        const product = await getProductByAsin(marketplace, asin);
+        return product ? { success: true, product } : null;
+      },
+      notFoundMessage: "Product not found",
+    });
+  } catch (error) {
+    sendError(res, error, "Failed to get product via API", { asin: req.params.asin });
+  }
+});
+
+// Timeline of title, price, rating and availability changes for one product
+app.get("/api/products/:asin/history", requireScope("read:products"), validateParams(asinParamsSchema), validateQuery(productHistoryQuerySchema), async (req, res) => {
   try {
-    const { asin } = req.params;
-    const product = await getProductByAsin(asin);
-    if (!product) {
+    const { asin } = getParams(res, asinParamsSchema);
+    const { marketplace, limit } = getQuery(res, productHistoryQuerySchema);
+    const { entries, hasMore } = await getProductHistory(marketplace, asin, limit);
+
+    // Products crawled before history was recorded have no snapshots yet, so only unknown ASINs are a 404
+    if (entries.length === 0 && !(await getProductByAsin(marketplace, asin))) {
       return res.status(404).json({ success: false, error: "Product not found" });
     }
-    res.json({ success: true, product });
+    res.json({ success: true, marketplace, asin: asin.toUpperCase(), history: entries, hasMore });
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    logger.error({ error: errorMsg, asin: req.params.asin }, "Failed to get product via API");
-    res.status(500).json({ success: false, error: errorMsg });
+    sendError(res, error, "Failed to get product history via API", { asin: req.params.asin });
   }
 });
 
 // Get products by page number - for extension
-app.get("/api/products/page/:pageNumber", async (req, res) => {
+// Returns the whole page unless ?cursor= is passed, in which case results are paginated by cursor
+app.get("/api/products/page/:pageNumber", requireScope("read:products"), validateParams(pageParamsSchema), validateQuery(productPageQuerySchema), async (req, res) => {
   try {
-    const pageNumber = parseInt(req.params.pageNumber, 10);
-    if (isNaN(pageNumber) || pageNumber < 1) {
-      return res.status(400).json({ success: false, error: "Invalid page number" });
+    const { pageNumber } = getParams(res, pageParamsSchema);
+    const { marketplace, queue, cursor: cursorParam, limit } = getQuery(res, productPageQuerySchema);
+    const pageFilter = { marketplace, queue, minPage: pageNumber, maxPage: pageNumber };
+
+    if (cursorParam !== undefined) {
+      const cursor = cursorParam ? decodeProductCursor(cursorParam) : null;
+      if (cursorParam && !cursor) {
+        return res.status(400).json({ success: false, error: "Invalid cursor" });
+      }
+
+      return await sendConditionalProductResponse(req, res, {
+        getFreshness: () => getProductFreshness(pageFilter),
+        load: async () => {
+          const { products, nextCursor } = await getProductsByCursor(limit, cursor, pageFilter);
+          return {
+            success: true,
+            products,
+            count: products.length,
+            pagination: {
+              limit,
+              nextCursor,
+              hasMore: nextCursor !== null,
+            },
+          };
+        },
+      });
     }
-    const products = await getProductsByPage(pageNumber);
-    res.json({ success: true, products, count: products.length });
+
+    await sendConditionalProductResponse(req, res, {
+      getFreshness: () => getProductFreshness(pageFilter),
+      load: async () => {
+        const products = await getProductsByPage(marketplace, queue, pageNumber);
+        return { success: true, products, count: products.length };
+      },
+    });
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    logger.error({ error: errorMsg, pageNumber: req.params.pageNumber }, "Failed to get products by page via API");
-    res.status(500).json({ success: false, error: errorMsg });
+    sendError(res, error, "Failed to get products by page via API", { pageNumber: req.params.pageNumber });
   }
 });
 
+// Incremental sync - products changed since the token plus tombstones for removed ASINs
+// Omit ?since for a full sync; keep calling with the returned syncToken while hasMore is true
+app.get("/api/sync", requireScope("read:products"), validateQuery(syncQuerySchema), async (req, res) => {
+  try {
+    const { since: sinceParam, limit, marketplace } = getQuery(res, syncQuerySchema);
+    const since = sinceParam ? decodeSyncToken(sinceParam) : null;
+    if (sinceParam && !since) {
+      return res.status(400).json({ success: false, error: "Invalid sync token" });
+    }
+
+    const changes = await getProductChangesSince(since, limit, marketplace);
+    res.json({ success: true, ...changes });
+  } catch (error) {
+    sendError(res, error, "Failed to get product changes via API");
+  }
+});
+
+// Bulk export as CSV, NDJSON or XLSX (accepts the product listing filters)
+app.get("/api/export", requireScope("read:products"), validateQuery(productExportQuerySchema), exportProducts);
+
 // Get statistics - for extension
-app.get("/api/stats", async (req, res) => {
+app.get("/api/stats", requireScope("read:products"), async (req, res) => {
   try {
     const totalProducts = await getTotalProductCount();
     res.json({
@@ -89,18 +264,119 @@ app.get("/api/stats", async (req, res) => {
       },
     });
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    logger.error({ error: errorMsg }, "Failed to get stats via API");
-    res.status(500).json({ success: false, error: errorMsg });
+    sendError(res, error, "Failed to get stats via API");
   }
 });
 
+// Crawl events - newest first, filterable by status, asin, page, crawl run and time window
+app.get("/api/crawl-events", requireScope("read:crawl"), validateQuery(crawlEventQuerySchema), async (req, res) => {
+  try {
+    const { limit, offset, ...filter } = getQuery(res, crawlEventQuerySchema);
+    const { events, total } = await getCrawlEvents(filter, limit, offset);
+
+    res.json({
+      success: true,
+      events,
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    sendError(res, error, "Failed to get crawl events via API");
+  }
+});
+
+// Which errors and pages keep failing - defaults to the last 24 hours
+app.get("/api/crawl-events/summary", requireScope("read:crawl"), validateQuery(crawlEventSummaryQuerySchema), async (req, res) => {
+  try {
+    const { limit, ...filter } = getQuery(res, crawlEventSummaryQuerySchema);
+    const until = filter.until ?? new Date();
+    const since = filter.since ?? new Date(until.getTime() - 24 * 60 * 60 * 1000);
+
+    const summary = await getCrawlFailureSummary({ ...filter, since, until }, limit);
+    res.json({ success: true, window: { since, until }, ...summary });
+  } catch (error) {
+    sendError(res, error, "Failed to get crawl event summary via API");
+  }
+});
+
+// Worker fleet status - derived from the heartbeat, assignment and lock keys the workers keep in Redis
+app.get("/api/workers", requireScope("read:crawl"), validateQuery(crawlMarketplaceQuerySchema), async (req, res) => {
+  try {
+    const { marketplace } = getQuery(res, crawlMarketplaceQuerySchema);
+    const fleet = await getWorkerFleetStatus(marketplace);
+    res.json({ success: true, ...fleet });
+  } catch (error) {
+    sendError(res, error, "Failed to get worker status via API");
+  }
+});
+
+// API key management - admin only. The plaintext key is returned once, on creation
+app.get("/api/admin/api-keys", requireScope("admin"), async (req, res) => {
+  try {
+    const apiKeys = await listApiKeys();
+    res.json({ success: true, apiKeys });
+  } catch (error) {
+    sendError(res, error, "Failed to list API keys via API");
+  }
+});
+
+app.post("/api/admin/api-keys", requireScope("admin"), validateBody(apiKeyCreateSchema), async (req, res) => {
+  try {
+    const { key, apiKey } = await createApiKey(getBody(res, apiKeyCreateSchema));
+    logger.info({ apiKeyId: apiKey.id, name: apiKey.name, scopes: apiKey.scopes }, "API key created");
+    res.status(201).json({ success: true, key, apiKey });
+  } catch (error) {
+    sendError(res, error, "Failed to create API key via API");
+  }
+});
+
+app.delete("/api/admin/api-keys/:id", requireScope("admin"), validateParams(apiKeyIdParamsSchema), async (req, res) => {
+  try {
+    const { id } = getParams(res, apiKeyIdParamsSchema);
+    const revoked = await revokeApiKey(id);
+    if (!revoked) {
+      return res.status(404).json({ success: false, error: "API key not found or already revoked" });
+    }
+    logger.info({ apiKeyId: id }, "API key revoked");
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, "Failed to revoke API key via API", { id: req.params.id });
+  }
+});
+
+// Atom, RSS and JSON Feed of newly discovered items, with the product listing filters
+app.use(feedsRouter);
+
+// Keyword watchlists and the matches recorded by the product worker
+app.use(watchlistsRouter);
+
+// Outbound webhook subscriptions and delivery log - admin only
+app.use(webhooksRouter);
+
+// Crawl runs - one per full sweep, with page and product counts
+app.use(runsRouter);
+
+// Crawl orchestration (trigger, pause/resume, rotation reset, worker reassignment) - admin only, audited
+app.use(crawlAdminRouter);
+
+// GraphQL - same API keys as /api, scopes are enforced per field
+app.use("/graphql", authenticate);
+app.all("/graphql", graphqlHandler);
+
 const main = async (): Promise<void> => {
   try {
     // Initialize database connection
     await initDb();
     logger.info("Database initialized for API");
 
+    if (config.WEBHOOK_DELIVERY_ENABLED) {
+      startWebhookDelivery();
+    }
+
     const port = config.API_PORT;
     app.listen(port, () => {
       logger.info({ port }, "API server started");
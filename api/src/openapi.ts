@@ -0,0 +1,639 @@
+import express, { Router } from "express";
+import { z } from "zod";
+import swaggerUiDist from "swagger-ui-dist";
+import { OpenAPIRegistry, OpenApiGeneratorV31, type RouteConfig } from "@asteasolutions/zod-to-openapi";
+import {
+  errorResponseSchema,
+  productListQuerySchema,
+  productListResponseSchema,
+  productSearchQuerySchema,
+  productSearchResponseSchema,
+  productStreamQuerySchema,
+  productEventSchema,
+  asinParamsSchema,
+  productQuerySchema,
+  productResponseEnvelopeSchema,
+  productLookupBodySchema,
+  productLookupResponseSchema,
+  productHistoryQuerySchema,
+  productHistoryResponseSchema,
+  pageParamsSchema,
+  productPageQuerySchema,
+  productPageResponseSchema,
+  syncQuerySchema,
+  syncResponseSchema,
+  productExportQuerySchema,
+  crawlEventQuerySchema,
+  crawlEventListResponseSchema,
+  crawlEventSummaryQuerySchema,
+  crawlRunQuerySchema,
+  crawlRunIdParamsSchema,
+  crawlRunListResponseSchema,
+  crawlRunResponseSchema,
+  FEED_FORMATS,
+  productFeedQuerySchema,
+  watchlistIdParamsSchema,
+  watchlistInputSchema,
+  watchMatchQuerySchema,
+  watchlistListResponseSchema,
+  watchlistResponseSchema,
+  watchMatchListResponseSchema,
+  webhookIdParamsSchema,
+  webhookSubscriptionCreateSchema,
+  webhookUpdateSchema,
+  webhookDeliveryQuerySchema,
+  webhookListResponseSchema,
+  webhookResponseSchema,
+  webhookCreatedResponseSchema,
+  webhookDeliveryListResponseSchema,
+  crawlEventSummaryResponseSchema,
+  workerFleetResponseSchema,
+  workerIdParamsSchema,
+  crawlMarketplaceQuerySchema,
+  workerReassignBodySchema,
+  workerReassignResponseSchema,
+  crawlTriggerResponseSchema,
+  crawlPauseResponseSchema,
+  rotationResetResponseSchema,
+  adminAuditQuerySchema,
+  adminAuditResponseSchema,
+  statsResponseSchema,
+  apiKeyListResponseSchema,
+  apiKeyCreateSchema,
+  apiKeyCreatedResponseSchema,
+  apiKeyIdParamsSchema,
+  successResponseSchema,
+  healthResponseSchema,
+  livenessResponseSchema,
+  readinessResponseSchema,
+} from "./schemas.js";
+
+// OpenAPI 3.1 document generated from the same zod schemas the routes validate against
+
+const registry = new OpenAPIRegistry();
+
+const apiKeyAuth = registry.registerComponent("securitySchemes", "ApiKeyAuth", {
+  type: "apiKey",
+  in: "header",
+  name: "X-API-Key",
+});
+const bearerAuth = registry.registerComponent("securitySchemes", "BearerAuth", {
+  type: "http",
+  scheme: "bearer",
+});
+const security = [{ [apiKeyAuth.name]: [] }, { [bearerAuth.name]: [] }];
+
+const json = <T extends z.ZodTypeAny>(description: string, schema: T) => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const errorResponses = {
+  400: json("Invalid parameters", errorResponseSchema),
+  401: json("Missing or invalid API key", errorResponseSchema),
+  403: json("API key lacks the required scope", errorResponseSchema),
+  429: {
+    ...json("Rate limit exceeded", errorResponseSchema),
+    headers: { "Retry-After": { description: "Seconds until the rate limit window resets", schema: { type: "integer" as const } } },
+  },
+  500: json("Internal error", errorResponseSchema),
+};
+
+// Product reads answer conditional requests (If-None-Match / If-Modified-Since) with 304
+const notModifiedResponse = {
+  description: "Not modified - the ETag or Last-Modified validator still matches",
+};
+
+const registerApiPath = (route: Omit<RouteConfig, "responses"> & { responses: RouteConfig["responses"] }): void => {
+  registry.registerPath({
+    security,
+    ...route,
+    responses: { ...errorResponses, ...route.responses },
+  });
+};
+
+registry.registerPath({
+  method: "get",
+  path: "/health",
+  tags: ["Health"],
+  summary: "Health check",
+  responses: { 200: json("Service is up", healthResponseSchema) },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/health/live",
+  tags: ["Health"],
+  summary: "Liveness probe",
+  description: "Succeeds whenever the process can serve requests. Does not check dependencies.",
+  responses: { 200: json("Process is alive", livenessResponseSchema) },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/health/ready",
+  tags: ["Health"],
+  summary: "Readiness probe",
+  description: "Checks MySQL, Redis, migration status and crawl freshness. A stale crawl is reported as a warning and does not fail readiness.",
+  responses: {
+    200: json("Ready (status pass or warn)", readinessResponseSchema),
+    503: json("A required dependency failed", readinessResponseSchema),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/metrics",
+  tags: ["Health"],
+  summary: "Prometheus metrics",
+  responses: {
+    200: {
+      description: "Metrics in the Prometheus text exposition format",
+      content: { "text/plain": { schema: z.string() } },
+    },
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/products",
+  tags: ["Products"],
+  summary: "List products",
+  description: "Filterable, sortable product listing. Uses offset pagination unless `cursor` is passed.",
+  request: { query: productListQuerySchema },
+  responses: {
+    200: json("Products", productListResponseSchema),
+    304: notModifiedResponse,
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/search",
+  tags: ["Products"],
+  summary: "Full-text product search",
+  description: 'Boolean mode supports `+required`, `-excluded`, `"exact phrases"` and `prefix*` terms.',
+  request: { query: productSearchQuerySchema },
+  responses: { 200: json("Relevance-ranked results", productSearchResponseSchema) },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/products/stream",
+  tags: ["Products"],
+  summary: "Stream product changes (Server-Sent Events)",
+  description: "Each SSE message carries a ProductEvent. Resume with the `Last-Event-ID` header or `lastEventId`.",
+  request: { query: productStreamQuerySchema },
+  responses: {
+    200: { description: "Event stream", content: { "text/event-stream": { schema: productEventSchema } } },
+    503: json("Event stream unavailable", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/products/lookup",
+  tags: ["Products"],
+  summary: "Look up products by ASIN in bulk",
+  request: { body: { content: { "application/json": { schema: productLookupBodySchema } } } },
+  responses: { 200: json("Found products keyed by ASIN, plus the ASINs that were not found", productLookupResponseSchema) },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/products/{asin}",
+  tags: ["Products"],
+  summary: "Get a product by ASIN",
+  request: { params: asinParamsSchema, query: productQuerySchema },
+  responses: {
+    200: json("Product", productResponseEnvelopeSchema),
+    304: notModifiedResponse,
+    404: json("Product not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/products/{asin}/history",
+  tags: ["Products"],
+  summary: "Change history of a product",
+  description:
+    "Title, price, rating, rating count and availability as they changed between crawls, with the crawl that saw each change.",
+  request: { params: asinParamsSchema, query: productHistoryQuerySchema },
+  responses: {
+    200: json("History", productHistoryResponseSchema),
+    404: json("Product not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/products/page/{pageNumber}",
+  tags: ["Products"],
+  summary: "List products on a page of a Vine queue",
+  request: { params: pageParamsSchema, query: productPageQuerySchema },
+  responses: {
+    200: json("Products on the page", productPageResponseSchema),
+    304: notModifiedResponse,
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/sync",
+  tags: ["Sync"],
+  summary: "Incremental changes feed",
+  description: "Products changed since `since` plus tombstones for removed ASINs. Repeat with `syncToken` while `hasMore`.",
+  request: { query: syncQuerySchema },
+  responses: { 200: json("Changes", syncResponseSchema) },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/export",
+  tags: ["Products"],
+  summary: "Export products",
+  description: "Streams the full or filtered catalog. Prices are decimals; images are joined with ` | ` in CSV and XLSX.",
+  request: { query: productExportQuerySchema },
+  responses: {
+    200: {
+      description: "Export file",
+      content: {
+        "text/csv": { schema: { type: "string" } },
+        "application/x-ndjson": { schema: { type: "string" } },
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": { schema: { type: "string", format: "binary" } },
+      },
+    },
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/stats",
+  tags: ["Products"],
+  summary: "Catalog statistics",
+  responses: { 200: json("Statistics", statsResponseSchema) },
+});
+
+const FEED_CONTENT_TYPES = {
+  atom: "application/atom+xml",
+  rss: "application/rss+xml",
+  json: "application/feed+json",
+} as const;
+
+for (const format of FEED_FORMATS) {
+  registerApiPath({
+    method: "get",
+    path: `/feeds/new.${format}`,
+    tags: ["Feeds"],
+    summary: `Newly discovered items (${format === "json" ? "JSON Feed" : format === "rss" ? "RSS 2.0" : "Atom"})`,
+    description: "Most recently created products first. Accepts the product listing filters; feed readers send the API key in a header.",
+    request: { query: productFeedQuerySchema },
+    responses: {
+      200: {
+        description: "Feed document",
+        content: { [FEED_CONTENT_TYPES[format]]: { schema: z.string() } },
+      },
+    },
+  });
+}
+
+registerApiPath({
+  method: "get",
+  path: "/api/crawl-events",
+  tags: ["Crawl"],
+  summary: "List crawl events",
+  description: "Newest first. Filter by status, ASIN, page, crawl run and time window.",
+  request: { query: crawlEventQuerySchema },
+  responses: { 200: json("Crawl events", crawlEventListResponseSchema) },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/crawl-events/summary",
+  tags: ["Crawl"],
+  summary: "Crawl failure summary",
+  description: "Success/failure totals plus failures grouped by error message and by page. Defaults to the last 24 hours.",
+  request: { query: crawlEventSummaryQuerySchema },
+  responses: { 200: json("Failure summary", crawlEventSummaryResponseSchema) },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/runs",
+  tags: ["Crawl"],
+  summary: "List crawl runs",
+  description:
+    "One run per full sweep over the listing pages, newest first. Counts of a running sweep grow as product workers store pages. " +
+    "Use `/api/crawl-events?crawlRunId=` for the events of a run.",
+  request: { query: crawlRunQuerySchema },
+  responses: { 200: json("Crawl runs", crawlRunListResponseSchema) },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/runs/{id}",
+  tags: ["Crawl"],
+  summary: "Get a crawl run",
+  request: { params: crawlRunIdParamsSchema },
+  responses: {
+    200: json("Crawl run", crawlRunResponseSchema),
+    404: json("Crawl run not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/workers",
+  tags: ["Crawl"],
+  summary: "Worker fleet status",
+  description: "Manager, general and product workers with heartbeat age, page assignment, processing/completion flags, lock and derived state.",
+  request: { query: crawlMarketplaceQuerySchema },
+  responses: { 200: json("Fleet status", workerFleetResponseSchema) },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/watchlists",
+  tags: ["Watchlists"],
+  summary: "List watchlists",
+  responses: { 200: json("Watchlists", watchlistListResponseSchema) },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/watchlists",
+  tags: ["Watchlists"],
+  summary: "Create a watchlist",
+  description: "Requires the write:watchlists scope. Keywords and the pattern are matched case-insensitively against `fields`.",
+  request: { body: { content: { "application/json": { schema: watchlistInputSchema } } } },
+  responses: { 201: json("Created", watchlistResponseSchema) },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/watchlists/{id}",
+  tags: ["Watchlists"],
+  summary: "Get a watchlist",
+  request: { params: watchlistIdParamsSchema },
+  responses: {
+    200: json("Watchlist", watchlistResponseSchema),
+    404: json("Watchlist not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "put",
+  path: "/api/watchlists/{id}",
+  tags: ["Watchlists"],
+  summary: "Replace a watchlist",
+  description: "Requires the write:watchlists scope. Products that already matched do not match again.",
+  request: {
+    params: watchlistIdParamsSchema,
+    body: { content: { "application/json": { schema: watchlistInputSchema } } },
+  },
+  responses: {
+    200: json("Updated", watchlistResponseSchema),
+    404: json("Watchlist not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "delete",
+  path: "/api/watchlists/{id}",
+  tags: ["Watchlists"],
+  summary: "Delete a watchlist and its matches",
+  description: "Requires the write:watchlists scope.",
+  request: { params: watchlistIdParamsSchema },
+  responses: {
+    200: json("Deleted", successResponseSchema),
+    404: json("Watchlist not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/watchlists/{id}/matches",
+  tags: ["Watchlists"],
+  summary: "Products that matched a watchlist",
+  description: "Newest first. Each product is recorded once per watchlist.",
+  request: { params: watchlistIdParamsSchema, query: watchMatchQuerySchema },
+  responses: {
+    200: json("Matches", watchMatchListResponseSchema),
+    404: json("Watchlist not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/admin/api-keys",
+  tags: ["Admin"],
+  summary: "List API keys",
+  responses: { 200: json("API keys", apiKeyListResponseSchema) },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/admin/api-keys",
+  tags: ["Admin"],
+  summary: "Create an API key",
+  request: { body: { content: { "application/json": { schema: apiKeyCreateSchema } } } },
+  responses: { 201: json("Created - the plaintext key is only returned here", apiKeyCreatedResponseSchema) },
+});
+
+registerApiPath({
+  method: "delete",
+  path: "/api/admin/api-keys/{id}",
+  tags: ["Admin"],
+  summary: "Revoke an API key",
+  request: { params: apiKeyIdParamsSchema },
+  responses: {
+    200: json("Revoked", successResponseSchema),
+    404: json("API key not found or already revoked", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/admin/webhooks",
+  tags: ["Webhooks"],
+  summary: "List webhook subscriptions",
+  responses: { 200: json("Webhook subscriptions", webhookListResponseSchema) },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/admin/webhooks",
+  tags: ["Webhooks"],
+  summary: "Create a webhook subscription",
+  description:
+    "Events are POSTed as JSON with `X-Vine-Event`, `X-Vine-Delivery`, `X-Vine-Timestamp` and " +
+    "`X-Vine-Signature: sha256=<hex HMAC-SHA256 of \"<timestamp>.<body>\">` headers. " +
+    "Non-2xx responses are retried with exponential backoff, then dead-lettered.",
+  request: { body: { content: { "application/json": { schema: webhookSubscriptionCreateSchema } } } },
+  responses: { 201: json("Created - the signing secret is only returned here", webhookCreatedResponseSchema) },
+});
+
+registerApiPath({
+  method: "patch",
+  path: "/api/admin/webhooks/{id}",
+  tags: ["Webhooks"],
+  summary: "Enable or disable a webhook subscription",
+  request: {
+    params: webhookIdParamsSchema,
+    body: { content: { "application/json": { schema: webhookUpdateSchema } } },
+  },
+  responses: {
+    200: json("Updated", webhookResponseSchema),
+    404: json("Webhook not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "delete",
+  path: "/api/admin/webhooks/{id}",
+  tags: ["Webhooks"],
+  summary: "Delete a webhook subscription and its delivery log",
+  request: { params: webhookIdParamsSchema },
+  responses: {
+    200: json("Deleted", successResponseSchema),
+    404: json("Webhook not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/admin/webhook-deliveries",
+  tags: ["Webhooks"],
+  summary: "Webhook delivery log",
+  description: "Newest first. `status=dead` lists deliveries whose retries are exhausted.",
+  request: { query: webhookDeliveryQuerySchema },
+  responses: { 200: json("Deliveries", webhookDeliveryListResponseSchema) },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/admin/webhook-deliveries/{id}/retry",
+  tags: ["Webhooks"],
+  summary: "Requeue a dead-lettered delivery",
+  request: { params: webhookIdParamsSchema },
+  responses: {
+    200: json("Requeued", successResponseSchema),
+    404: json("Dead-lettered delivery not found", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/admin/crawl/trigger",
+  tags: ["Admin"],
+  summary: "Trigger a crawl round",
+  description: "The manager starts a new assignment round once no general worker is mid-range; product workers check their pages.",
+  request: { query: crawlMarketplaceQuerySchema },
+  responses: {
+    200: json("Triggered", crawlTriggerResponseSchema),
+    409: json("Crawl is paused", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/admin/crawl/pause",
+  tags: ["Admin"],
+  summary: "Pause work assignment",
+  description: "The manager stops assigning pages. Workers finish the range they already hold.",
+  request: { query: crawlMarketplaceQuerySchema },
+  responses: { 200: json("Paused", crawlPauseResponseSchema) },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/admin/crawl/resume",
+  tags: ["Admin"],
+  summary: "Resume work assignment",
+  request: { query: crawlMarketplaceQuerySchema },
+  responses: { 200: json("Resumed", crawlPauseResponseSchema) },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/admin/crawl/rotation/reset",
+  tags: ["Admin"],
+  summary: "Reset round-robin rotation",
+  description: "Restarts rotation from page 1 and clears general worker assignments and completion flags.",
+  request: { query: crawlMarketplaceQuerySchema },
+  responses: { 200: json("Rotation reset", rotationResetResponseSchema) },
+});
+
+registerApiPath({
+  method: "post",
+  path: "/api/admin/workers/{id}/reassign",
+  tags: ["Admin"],
+  summary: "Reassign a general worker",
+  request: {
+    params: workerIdParamsSchema,
+    query: crawlMarketplaceQuerySchema,
+    body: { content: { "application/json": { schema: workerReassignBodySchema } } },
+  },
+  responses: {
+    200: json("Reassigned", workerReassignResponseSchema),
+    404: json("Worker not found", errorResponseSchema),
+    409: json("Worker is processing and force was not set", errorResponseSchema),
+    422: json("Range ends after the last page", errorResponseSchema),
+  },
+});
+
+registerApiPath({
+  method: "get",
+  path: "/api/admin/audit-log",
+  tags: ["Admin"],
+  summary: "Admin action audit log",
+  request: { query: adminAuditQuerySchema },
+  responses: { 200: json("Audit log entries, newest first", adminAuditResponseSchema) },
+});
+
+let document: ReturnType<OpenApiGeneratorV31["generateDocument"]> | null = null;
+
+export const getOpenApiDocument = (): ReturnType<OpenApiGeneratorV31["generateDocument"]> => {
+  if (!document) {
+    document = new OpenApiGeneratorV31(registry.definitions).generateDocument({
+      openapi: "3.1.0",
+      info: {
+        title: "Vine Crawler API",
+        version: "1.0.0",
+        description: "Products crawled from the Amazon Vine queues (Recommended for you, Available for all, Additional items).",
+      },
+    });
+  }
+  return document;
+};
+
+// Swagger UI is served from the swagger-ui-dist package, so the docs work without any CDN
+const swaggerUiHtml = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Vine Crawler API</title>
+    <link rel="stylesheet" href="/api/docs/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="/api/docs/swagger-ui-bundle.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: "/api/openapi.json", dom_id: "#swagger-ui" });
+    </script>
+  </body>
+</html>
+`;
+
+export const docsRouter = Router();
+
+docsRouter.get("/api/openapi.json", (req, res) => {
+  res.json(getOpenApiDocument());
+});
+
+docsRouter.get(["/api/docs", "/api/docs/index.html"], (req, res) => {
+  res.type("html").send(swaggerUiHtml);
+});
+
+docsRouter.use("/api/docs", express.static(swaggerUiDist.getAbsoluteFSPath(), { index: false }));
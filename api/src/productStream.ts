@@ -0,0 +1,154 @@
+import type { Request, Response } from "express";
+import {
+  logger,
+  PRODUCT_EVENT_TYPES,
+  ProductEvent,
+  ProductEventType,
+  isProductEventId,
+  compareProductEventIds,
+  readProductEventsSince,
+  getOldestProductEventId,
+  subscribeToProductEvents,
+} from "shared";
+
+// Server-Sent Events fan-out: one Redis subscription per API instance, shared by all connected clients
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const REPLAY_BATCH_SIZE = 500;
+
+type StreamClient = {
+  res: Response;
+  types: Set<ProductEventType>;
+  replaying: boolean;
+  buffered: ProductEvent[];
+  lastSentId: string | null;
+};
+
+const clients = new Set<StreamClient>();
+let subscription: Promise<() => Promise<void>> | null = null;
+
+const writeEvent = (client: StreamClient, event: ProductEvent): void => {
+  if (!client.types.has(event.type)) {
+    return;
+  }
+  client.res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  client.lastSentId = event.id;
+};
+
+const dispatch = (event: ProductEvent): void => {
+  for (const client of clients) {
+    if (client.replaying) {
+      client.buffered.push(event);
+    } else {
+      writeEvent(client, event);
+    }
+  }
+};
+
+const ensureSubscribed = async (): Promise<void> => {
+  if (!subscription) {
+    subscription = subscribeToProductEvents(dispatch).catch((error) => {
+      subscription = null;
+      throw error;
+    });
+  }
+  await subscription;
+};
+
+const parseTypes = (value: unknown): Set<ProductEventType> | null => {
+  if (typeof value !== "string" || value.length === 0) {
+    return new Set(PRODUCT_EVENT_TYPES);
+  }
+  const requested = value.split(",").map((type) => type.trim());
+  if (!requested.every((type): type is ProductEventType => (PRODUCT_EVENT_TYPES as readonly string[]).includes(type))) {
+    return null;
+  }
+  return new Set(requested as ProductEventType[]);
+};
+
+// Replays events missed since lastEventId, then flushes live events buffered during the replay
+const replay = async (client: StreamClient, lastEventId: string): Promise<void> => {
+  const oldestId = await getOldestProductEventId();
+  if (oldestId && compareProductEventIds(oldestId, lastEventId) > 0) {
+    // Events between lastEventId and the oldest retained one were trimmed - the client must resync
+    client.res.write(`event: stream.reset\ndata: ${JSON.stringify({ lastEventId, oldestEventId: oldestId })}\n\n`);
+  }
+
+  let cursor = lastEventId;
+  for (;;) {
+    const events = await readProductEventsSince(cursor, REPLAY_BATCH_SIZE);
+    for (const event of events) {
+      writeEvent(client, event);
+      cursor = event.id;
+    }
+    if (events.length < REPLAY_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  for (const event of client.buffered) {
+    if (compareProductEventIds(event.id, cursor) > 0) {
+      writeEvent(client, event);
+    }
+  }
+  client.buffered = [];
+};
+
+export const streamProducts = async (req: Request, res: Response): Promise<void> => {
+  const lastEventIdRaw = req.header("Last-Event-ID") ?? req.query.lastEventId;
+  const lastEventId = typeof lastEventIdRaw === "string" && lastEventIdRaw.length > 0 ? lastEventIdRaw : null;
+  if (lastEventId && !isProductEventId(lastEventId)) {
+    res.status(400).json({ success: false, error: "Invalid Last-Event-ID" });
+    return;
+  }
+
+  const types = parseTypes(req.query.types);
+  if (!types) {
+    res.status(400).json({ success: false, error: `types must be a comma-separated list of ${PRODUCT_EVENT_TYPES.join(", ")}` });
+    return;
+  }
+
+  try {
+    await ensureSubscribed();
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMsg }, "Failed to subscribe to product events");
+    res.status(503).json({ success: false, error: "Product event stream unavailable" });
+    return;
+  }
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+  res.write(`retry: 5000\n\n`);
+
+  const client: StreamClient = { res, types, replaying: lastEventId !== null, buffered: [], lastSentId: lastEventId };
+  clients.add(client);
+
+  const heartbeat = setInterval(() => {
+    res.write(`: keep-alive\n\n`);
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+    logger.debug({ clients: clients.size, lastSentId: client.lastSentId }, "Product stream client disconnected");
+  });
+
+  logger.debug({ clients: clients.size, lastEventId }, "Product stream client connected");
+
+  if (lastEventId) {
+    try {
+      await replay(client, lastEventId);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error({ error: errorMsg, lastEventId }, "Failed to replay product events");
+      res.write(`event: stream.reset\ndata: ${JSON.stringify({ lastEventId })}\n\n`);
+    } finally {
+      client.replaying = false;
+    }
+  }
+};
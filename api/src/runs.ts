@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { getCrawlRuns, getCrawlRun } from "shared";
+import { requireScope } from "./auth.js";
+import { validateQuery, validateParams, getQuery, getParams } from "./validation.js";
+import { sendError } from "./errors.js";
+import { crawlRunQuerySchema, crawlRunIdParamsSchema } from "./schemas.js";
+
+// Crawl runs opened and closed by the manager worker, one per full sweep
+
+export const runsRouter = Router();
+
+runsRouter.use("/api/runs", requireScope("read:crawl"));
+
+runsRouter.get("/api/runs", validateQuery(crawlRunQuerySchema), async (req, res) => {
+  try {
+    const { limit, offset, ...filter } = getQuery(res, crawlRunQuerySchema);
+    const { runs, total } = await getCrawlRuns(filter, limit, offset);
+    res.json({
+      success: true,
+      runs,
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    sendError(res, error, "Failed to list crawl runs via API");
+  }
+});
+
+runsRouter.get("/api/runs/:id", validateParams(crawlRunIdParamsSchema), async (req, res) => {
+  try {
+    const run = await getCrawlRun(getParams(res, crawlRunIdParamsSchema).id);
+    if (!run) {
+      return res.status(404).json({ success: false, error: "Crawl run not found" });
+    }
+    res.json({ success: true, run });
+  } catch (error) {
+    sendError(res, error, "Failed to get crawl run via API");
+  }
+});
@@ -0,0 +1,676 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import {
+  config,
+  marketplaceSchema,
+  vineQueueSchema,
+  DEFAULT_VINE_QUEUE,
+  productSchema,
+  productFilterFieldsSchema,
+  checkProductFilterRanges,
+  productSearchQuerySchema,
+  apiKeyCreateSchema,
+  API_KEY_SCOPES,
+  PRODUCT_EVENT_TYPES,
+  ADMIN_AUDIT_ACTIONS,
+  WATCHLIST_FIELDS,
+  watchlistInputSchema,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_DELIVERY_STATUSES,
+  webhookSubscriptionCreateSchema,
+  PRODUCT_SNAPSHOT_FIELDS,
+  PRODUCT_SNAPSHOT_SOURCES,
+  CRAWL_RUN_STATUSES,
+  CRAWL_RUN_TRIGGERS,
+} from "shared";
+
+// Request and response schemas for every API route - used both for runtime validation and the OpenAPI document
+
+extendZodWithOpenApi(z);
+
+export const errorResponseSchema = z
+  .object({
+    success: z.literal(false),
+    error: z.string(),
+    details: z.record(z.array(z.string())).optional().describe("Validation errors by field"),
+  })
+  .openapi("ErrorResponse");
+
+export const productResponseSchema = productSchema
+  .extend({
+    firstSeenAt: z.string().datetime().optional().describe("First crawl that found the item"),
+    lastSeenAt: z.string().datetime().optional().describe("Most recent crawl that found the item"),
+    removedAt: z.string().datetime().nullable().optional().describe("When the item left its page; null while it is listed"),
+    timesSeen: z.number().int().optional().describe("Number of crawls that found the item"),
+  })
+  .openapi("Product");
+
+// Query parameters
+
+export const productListQuerySchema = productFilterFieldsSchema
+  .extend({
+    limit: z.coerce.number().int().positive().max(1000).default(100),
+    offset: z.coerce.number().int().nonnegative().default(0),
+    cursor: z
+      .string()
+      .optional()
+      .describe("Opaque cursor from pagination.nextCursor; pass an empty value to start cursor pagination"),
+  })
+  .superRefine(checkProductFilterRanges);
+
+export { productSearchQuerySchema };
+
+export const productExportQuerySchema = productFilterFieldsSchema
+  .omit({ sort: true })
+  .extend({
+    format: z.enum(["csv", "ndjson", "xlsx"]).default("csv"),
+  })
+  .superRefine(checkProductFilterRanges);
+
+export const FEED_FORMATS = ["atom", "rss", "json"] as const;
+
+export const productFeedQuerySchema = productFilterFieldsSchema
+  .omit({ sort: true })
+  .extend({
+    limit: z.coerce.number().int().positive().max(200).default(50),
+  })
+  .superRefine(checkProductFilterRanges);
+
+export const asinParamsSchema = z.object({
+  asin: z.string().regex(/^[A-Z0-9]{10}$/i, "ASIN must be 10 letters or digits"),
+});
+
+// Routes that address one product or page need a marketplace; the API's own MARKETPLACE is the default
+const marketplaceParam = marketplaceSchema.default(config.MARKETPLACE).describe("Marketplace the ASIN or page belongs to");
+
+export const productQuerySchema = z.object({
+  marketplace: marketplaceParam,
+});
+
+export const productHistoryQuerySchema = z.object({
+  marketplace: marketplaceParam,
+  limit: z.coerce.number().int().positive().max(1000).default(100).describe("Number of most recent changes to return"),
+});
+
+export const PRODUCT_LOOKUP_MAX_ASINS = 500;
+
+export const productLookupBodySchema = z.object({
+  marketplace: marketplaceParam,
+  asins: z
+    .array(z.string().trim().regex(/^[A-Z0-9]{10}$/i, "ASIN must be 10 letters or digits"))
+    .min(1)
+    .max(PRODUCT_LOOKUP_MAX_ASINS)
+    .transform((asins) => [...new Set(asins.map((asin) => asin.toUpperCase()))])
+    .describe(`Up to ${PRODUCT_LOOKUP_MAX_ASINS} ASINs; duplicates are ignored`),
+});
+
+export const pageParamsSchema = z.object({
+  pageNumber: z.coerce.number().int().positive(),
+});
+
+export const productPageQuerySchema = z.object({
+  marketplace: marketplaceParam,
+  queue: vineQueueSchema.default(DEFAULT_VINE_QUEUE).describe("Vine queue the page belongs to"),
+  cursor: z.string().optional().describe("Paginate the page by cursor; pass an empty value for the first page"),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+export const productStreamQuerySchema = z.object({
+  lastEventId: z.string().optional().describe("Alternative to the Last-Event-ID header"),
+  types: z.string().optional().describe(`Comma-separated event types (${PRODUCT_EVENT_TYPES.join(", ")})`),
+  api_key: z.string().optional().describe("API key, for EventSource clients that cannot send headers"),
+});
+
+export const syncQuerySchema = z.object({
+  since: z.string().optional().describe("syncToken from the previous response; omit for a full sync"),
+  limit: z.coerce.number().int().positive().max(1000).default(500),
+  marketplace: marketplaceSchema.optional().describe("Only this marketplace - pass the same value on every call of a sync"),
+});
+
+const crawlEventWindowSchema = z.object({
+  marketplace: marketplaceSchema.optional(),
+  queue: vineQueueSchema.optional(),
+  asin: z.string().regex(/^[A-Z0-9]{10}$/i, "ASIN must be 10 letters or digits").optional(),
+  pageNumber: z.coerce.number().int().positive().optional(),
+  crawlRunId: z.coerce.number().int().positive().optional().describe("Only events written during this crawl run"),
+  since: z.coerce.date().optional().describe("Start of the time window (ISO 8601)"),
+  until: z.coerce.date().optional().describe("End of the time window (ISO 8601)"),
+});
+
+const checkCrawlEventWindow = (window: { since?: Date; until?: Date }, ctx: z.RefinementCtx): void => {
+  if (window.since && window.until && window.since > window.until) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "since must be before until", path: ["since"] });
+  }
+};
+
+export const crawlEventQuerySchema = crawlEventWindowSchema
+  .extend({
+    status: z.enum(["success", "failed"]).optional(),
+    limit: z.coerce.number().int().positive().max(1000).default(100),
+    offset: z.coerce.number().int().nonnegative().default(0),
+  })
+  .superRefine(checkCrawlEventWindow);
+
+export const crawlEventSummaryQuerySchema = crawlEventWindowSchema
+  .extend({
+    limit: z.coerce.number().int().positive().max(500).default(50).describe("Maximum groups per breakdown"),
+  })
+  .superRefine(checkCrawlEventWindow);
+
+export const apiKeyIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+// Crawl coordination keys are namespaced per marketplace, so fleet status and crawl admin act on one marketplace at a time
+export const crawlMarketplaceQuerySchema = z.object({
+  marketplace: marketplaceSchema.default(config.MARKETPLACE).describe("Marketplace whose crawl fleet to read or control"),
+});
+
+export const workerIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const workerReassignBodySchema = z
+  .object({
+    queue: vineQueueSchema.default(DEFAULT_VINE_QUEUE).describe("Vine queue the range belongs to"),
+    start: z.number().int().positive().optional(),
+    end: z.number().int().positive().optional(),
+    force: z.boolean().default(false).describe("Reassign even while the worker is processing its current range"),
+  })
+  .describe("Pass start and end to assign a specific range, or neither to clear the assignment for the manager to refill")
+  .superRefine((body, ctx) => {
+    if ((body.start === undefined) !== (body.end === undefined)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "start and end must be given together", path: ["end"] });
+    } else if (body.start !== undefined && body.end !== undefined && body.start > body.end) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "start cannot be greater than end", path: ["start"] });
+    }
+  });
+
+export const adminAuditQuerySchema = z.object({
+  action: z.enum(ADMIN_AUDIT_ACTIONS).optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+export const watchlistIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const watchMatchQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+export const webhookIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const webhookUpdateSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const crawlRunQuerySchema = z.object({
+  marketplace: marketplaceSchema.optional(),
+  status: z.enum(CRAWL_RUN_STATUSES).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+export const crawlRunIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const webhookDeliveryQuerySchema = z.object({
+  subscriptionId: z.coerce.number().int().positive().optional(),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional().describe("dead = retries exhausted (dead-lettered)"),
+  eventType: z.enum(WEBHOOK_EVENT_TYPES).optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+export { apiKeyCreateSchema, watchlistInputSchema, webhookSubscriptionCreateSchema };
+
+// Responses
+
+export const paginationSchema = z.object({
+  limit: z.number().int(),
+  offset: z.number().int().optional(),
+  total: z.number().int().optional(),
+  nextCursor: z.string().nullable().optional(),
+  hasMore: z.boolean(),
+});
+
+export const productListResponseSchema = z.object({
+  success: z.literal(true),
+  products: z.array(productResponseSchema),
+  pagination: paginationSchema,
+});
+
+export const productResponseEnvelopeSchema = z.object({
+  success: z.literal(true),
+  product: productResponseSchema,
+});
+
+const snapshotValueSchema = z.union([z.string(), z.number()]).nullable();
+
+export const productHistoryEntrySchema = z
+  .object({
+    capturedAt: z.string().datetime(),
+    source: z.enum(PRODUCT_SNAPSHOT_SOURCES).describe("page = queue listing crawl, product = single product crawl, batch = bulk upsert"),
+    workerId: z.number().int().nullable().describe("Product worker that crawled the change"),
+    pageNumber: z.number().int(),
+    changes: z
+      .record(z.enum(PRODUCT_SNAPSHOT_FIELDS), z.object({ from: snapshotValueSchema, to: snapshotValueSchema }))
+      .describe("Changed fields only; the first entry of a product lists every field with from = null"),
+    values: z.object({
+      title: z.string(),
+      priceCents: z.number().int().nullable(),
+      currencyCode: z.string().nullable(),
+      rating: z.number().nullable(),
+      ratingCount: z.number().int().nullable(),
+      availability: z.string().nullable(),
+    }),
+  })
+  .openapi("ProductHistoryEntry");
+
+export const productHistoryResponseSchema = z.object({
+  success: z.literal(true),
+  marketplace: marketplaceSchema,
+  asin: z.string(),
+  history: z.array(productHistoryEntrySchema).describe("Oldest first"),
+  hasMore: z.boolean().describe("Older changes exist beyond limit"),
+});
+
+export const productLookupResponseSchema = z.object({
+  success: z.literal(true),
+  products: z.record(z.string(), productResponseSchema).describe("Found products keyed by ASIN"),
+  missing: z.array(z.string()).describe("Requested ASINs that are not in the database"),
+});
+
+export const productPageResponseSchema = z.object({
+  success: z.literal(true),
+  products: z.array(productResponseSchema),
+  count: z.number().int(),
+  pagination: paginationSchema.optional(),
+});
+
+export const productSearchResponseSchema = z.object({
+  success: z.literal(true),
+  query: z.string(),
+  mode: z.enum(["boolean", "natural"]),
+  results: z.array(
+    z.object({
+      product: productResponseSchema,
+      relevance: z.number(),
+      highlights: z.object({
+        title: z.string().describe("HTML-escaped title with matches wrapped in <mark>"),
+        snippet: z.string().nullable().describe("HTML-escaped description excerpt with matches wrapped in <mark>"),
+      }),
+    })
+  ),
+  pagination: paginationSchema,
+});
+
+export const productEventSchema = z
+  .object({
+    id: z.string().describe("Redis stream ID, sent as the SSE event id"),
+    type: z.enum(PRODUCT_EVENT_TYPES),
+    marketplace: marketplaceSchema,
+    asin: z.string(),
+    pageNumber: z.number().int(),
+    product: productResponseSchema.nullable(),
+    occurredAt: z.string().datetime(),
+  })
+  .openapi("ProductEvent");
+
+export const syncResponseSchema = z.object({
+  success: z.literal(true),
+  products: z.array(productResponseSchema),
+  tombstones: z.array(
+    z.object({
+      marketplace: marketplaceSchema,
+      asin: z.string(),
+      pageNumber: z.number().int(),
+      removedAt: z.string().datetime(),
+    })
+  ),
+  syncToken: z.string(),
+  hasMore: z.boolean(),
+});
+
+export const crawlEventSchema = z
+  .object({
+    id: z.number().int(),
+    marketplace: marketplaceSchema,
+    asin: z.string().nullable(),
+    queue: vineQueueSchema,
+    url: z.string(),
+    pageNumber: z.number().int(),
+    status: z.enum(["success", "failed"]),
+    error: z.string().nullable(),
+    crawlRunId: z.number().int().nullable(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi("CrawlEvent");
+
+export const crawlEventListResponseSchema = z.object({
+  success: z.literal(true),
+  events: z.array(crawlEventSchema),
+  pagination: paginationSchema,
+});
+
+export const crawlEventSummaryResponseSchema = z.object({
+  success: z.literal(true),
+  window: z.object({
+    since: z.string().datetime(),
+    until: z.string().datetime(),
+  }),
+  totals: z.object({
+    success: z.number().int(),
+    failed: z.number().int(),
+  }),
+  byError: z.array(
+    z.object({
+      error: z.string().nullable(),
+      count: z.number().int(),
+      lastSeenAt: z.string().datetime().nullable(),
+    })
+  ),
+  byPage: z.array(
+    z.object({
+      queue: vineQueueSchema,
+      pageNumber: z.number().int(),
+      failures: z.number().int(),
+      lastFailureAt: z.string().datetime().nullable(),
+    })
+  ),
+});
+
+const pageRangeSchema = z.object({ queue: vineQueueSchema, start: z.number().int(), end: z.number().int() });
+const pageAssignmentSchema = z.object({ queue: vineQueueSchema, page: z.number().int() });
+
+const workerStateSchema = z.enum(["alive", "stale", "dead"]);
+
+export const workerStatusSchema = z
+  .object({
+    type: z.enum(["manager", "general", "product"]),
+    id: z.number().int(),
+    state: workerStateSchema.openapi({
+      description: "alive: heartbeat under 60s old, stale: under 5 minutes, dead: older or missing",
+    }),
+    lastHeartbeatAt: z.string().datetime().nullable(),
+    heartbeatAgeMs: z.number().int().nullable(),
+    assignedRanges: z.array(pageRangeSchema).nullable(),
+    assignedPages: z.array(pageAssignmentSchema).nullable(),
+    processing: z.boolean().nullable(),
+    complete: z.boolean().nullable(),
+    lock: z.object({
+      held: z.boolean(),
+      refreshedAt: z.string().datetime().nullable(),
+      ageMs: z.number().int().nullable(),
+      ttlSeconds: z.number().int().nullable(),
+    }),
+  })
+  .openapi("WorkerStatus");
+
+export const workerFleetResponseSchema = z.object({
+  success: z.literal(true),
+  workers: z.array(workerStatusSchema),
+  counts: z.record(workerStateSchema, z.number().int()),
+  coordination: z.object({
+    paused: z.boolean(),
+    totalPages: z.number().int().nullable().describe("Summed over the queues discovered so far"),
+    totalProducts: z.number().int().nullable(),
+    rotationIndex: z.number().int().nullable(),
+    queues: z.array(
+      z.object({
+        queue: vineQueueSchema,
+        totalPages: z.number().int().nullable(),
+        totalProducts: z.number().int().nullable(),
+        lastAssignedPage: z.number().int().nullable(),
+      })
+    ),
+  }),
+});
+
+export const crawlTriggerResponseSchema = z.object({
+  success: z.literal(true),
+  triggered: z.literal(true),
+});
+
+export const crawlPauseResponseSchema = z.object({
+  success: z.literal(true),
+  paused: z.boolean(),
+  pausedAt: z.string().datetime().nullable(),
+  changed: z.boolean().describe("false when the crawl was already in the requested state"),
+});
+
+export const rotationResetResponseSchema = z.object({
+  success: z.literal(true),
+  previousRotationIndex: z.number().int().nullable(),
+  previousLastAssignedPages: z.record(vineQueueSchema, z.number().int().nullable()),
+  clearedWorkers: z.array(z.number().int()),
+});
+
+export const workerReassignResponseSchema = z.object({
+  success: z.literal(true),
+  workerId: z.number().int(),
+  previousRanges: z.array(pageRangeSchema).nullable(),
+  range: pageRangeSchema.nullable(),
+});
+
+export const adminAuditEntrySchema = z
+  .object({
+    id: z.number().int(),
+    action: z.string(),
+    apiKeyId: z.number().int().nullable(),
+    apiKeyName: z.string().nullable(),
+    params: z.unknown(),
+    result: z.unknown(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi("AdminAuditEntry");
+
+export const adminAuditResponseSchema = z.object({
+  success: z.literal(true),
+  entries: z.array(adminAuditEntrySchema),
+  pagination: paginationSchema,
+});
+
+export const statsResponseSchema = z.object({
+  success: z.literal(true),
+  stats: z.object({
+    totalProducts: z.number().int(),
+  }),
+});
+
+export const apiKeySchema = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    keyPrefix: z.string(),
+    scopes: z.array(z.enum(API_KEY_SCOPES)),
+    rateLimitPerMinute: z.number().int().nullable(),
+    expiresAt: z.string().datetime().nullable(),
+    revokedAt: z.string().datetime().nullable(),
+    lastUsedAt: z.string().datetime().nullable(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi("ApiKey");
+
+export const apiKeyListResponseSchema = z.object({
+  success: z.literal(true),
+  apiKeys: z.array(apiKeySchema),
+});
+
+export const apiKeyCreatedResponseSchema = z.object({
+  success: z.literal(true),
+  key: z.string().describe("Plaintext key - only returned once"),
+  apiKey: apiKeySchema,
+});
+
+export const watchlistSchema = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    marketplace: marketplaceSchema,
+    includeKeywords: z.array(z.string()),
+    excludeKeywords: z.array(z.string()),
+    pattern: z.string().nullable(),
+    fields: z.array(z.enum(WATCHLIST_FIELDS)),
+    minPrice: z.number().int().nullable(),
+    maxPrice: z.number().int().nullable(),
+    minRating: z.number().nullable(),
+    minRatingCount: z.number().int().nullable(),
+    enabled: z.boolean(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .openapi("Watchlist");
+
+export const watchlistListResponseSchema = z.object({
+  success: z.literal(true),
+  watchlists: z.array(watchlistSchema),
+});
+
+export const watchlistResponseSchema = z.object({
+  success: z.literal(true),
+  watchlist: watchlistSchema,
+});
+
+export const watchMatchSchema = z
+  .object({
+    id: z.number().int(),
+    watchlistId: z.number().int(),
+    marketplace: marketplaceSchema,
+    asin: z.string(),
+    title: z.string().describe("Title when the match fired"),
+    priceCents: z.number().int().nullable().describe("Price when the match fired"),
+    matchedAt: z.string().datetime(),
+  })
+  .openapi("WatchMatch");
+
+export const watchMatchListResponseSchema = z.object({
+  success: z.literal(true),
+  matches: z.array(watchMatchSchema),
+  pagination: paginationSchema,
+});
+
+export const webhookSubscriptionSchema = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    url: z.string(),
+    secretPrefix: z.string(),
+    events: z.array(z.enum(WEBHOOK_EVENT_TYPES)),
+    enabled: z.boolean(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .openapi("WebhookSubscription");
+
+export const webhookListResponseSchema = z.object({
+  success: z.literal(true),
+  webhooks: z.array(webhookSubscriptionSchema),
+});
+
+export const webhookResponseSchema = z.object({
+  success: z.literal(true),
+  webhook: webhookSubscriptionSchema,
+});
+
+export const webhookCreatedResponseSchema = z.object({
+  success: z.literal(true),
+  secret: z.string().describe("HMAC signing secret - only returned once"),
+  webhook: webhookSubscriptionSchema,
+});
+
+export const webhookDeliverySchema = z
+  .object({
+    id: z.number().int(),
+    outboxId: z.number().int().describe("Event ID, sent as `id` in the payload"),
+    subscriptionId: z.number().int(),
+    eventType: z.string(),
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+    attempts: z.number().int(),
+    responseStatus: z.number().int().nullable(),
+    lastError: z.string().nullable(),
+    deliveredAt: z.string().datetime().nullable(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .openapi("WebhookDelivery");
+
+export const webhookDeliveryListResponseSchema = z.object({
+  success: z.literal(true),
+  deliveries: z.array(webhookDeliverySchema),
+  pagination: paginationSchema,
+});
+
+export const crawlRunSchema = z
+  .object({
+    id: z.number().int(),
+    marketplace: marketplaceSchema,
+    status: z.enum(CRAWL_RUN_STATUSES).describe("abandoned = the next sweep started before every worker reported completion"),
+    triggeredBy: z.enum(CRAWL_RUN_TRIGGERS),
+    workerId: z.number().int().nullable().describe("General worker that received the first page range"),
+    totalPages: z.number().int(),
+    totalProducts: z.number().int(),
+    pagesCrawled: z.number().int(),
+    productsAdded: z.number().int(),
+    productsUpdated: z.number().int(),
+    productsRemoved: z.number().int(),
+    failures: z.number().int(),
+    startedAt: z.string().datetime(),
+    finishedAt: z.string().datetime().nullable(),
+    durationMs: z.number().int().nullable(),
+  })
+  .openapi("CrawlRun");
+
+export const crawlRunListResponseSchema = z.object({
+  success: z.literal(true),
+  runs: z.array(crawlRunSchema),
+  pagination: paginationSchema,
+});
+
+export const crawlRunResponseSchema = z.object({
+  success: z.literal(true),
+  run: crawlRunSchema,
+});
+
+export const successResponseSchema = z.object({
+  success: z.literal(true),
+});
+
+export const healthResponseSchema = z.object({
+  status: z.literal("ok"),
+  service: z.string(),
+});
+
+const healthCheckStatusSchema = z.enum(["pass", "warn", "fail"]);
+
+export const livenessResponseSchema = z.object({
+  status: z.literal("pass"),
+  service: z.string(),
+  uptimeSeconds: z.number().int(),
+});
+
+const healthCheckSchema = z
+  .object({
+    status: healthCheckStatusSchema,
+    latencyMs: z.number().int(),
+    error: z.string().optional(),
+    details: z.record(z.unknown()).optional(),
+  })
+  .openapi("HealthCheck");
+
+export const readinessResponseSchema = z.object({
+  status: healthCheckStatusSchema,
+  service: z.string(),
+  checks: z.object({
+    database: healthCheckSchema,
+    redis: healthCheckSchema,
+    migrations: healthCheckSchema.describe("Fails when a migration failed or a shipped migration is not applied"),
+    crawl: healthCheckSchema.describe("Warns when the last successful crawl event is older than HEALTH_CRAWL_STALE_AFTER_MINUTES"),
+  }),
+});
@@ -0,0 +1,53 @@
+import type { RequestHandler, Response } from "express";
+import type { z } from "zod";
+
+// Validated values are stored on res.locals because Express types req.query/req.params as strings
+
+export const validateQuery = (schema: z.ZodTypeAny): RequestHandler => {
+  return (req, res, next) => {
+    const parsed = schema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid query parameters",
+        details: parsed.error.flatten().fieldErrors,
+      });
+    }
+    res.locals.query = parsed.data;
+    next();
+  };
+};
+
+export const validateParams = (schema: z.ZodTypeAny): RequestHandler => {
+  return (req, res, next) => {
+    const parsed = schema.safeParse(req.params);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid path parameters",
+        details: parsed.error.flatten().fieldErrors,
+      });
+    }
+    res.locals.params = parsed.data;
+    next();
+  };
+};
+
+export const validateBody = (schema: z.ZodTypeAny): RequestHandler => {
+  return (req, res, next) => {
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid request body",
+        details: parsed.error.flatten().fieldErrors,
+      });
+    }
+    res.locals.body = parsed.data;
+    next();
+  };
+};
+
+export const getQuery = <T extends z.ZodTypeAny>(res: Response, _schema: T): z.infer<T> => res.locals.query;
+export const getParams = <T extends z.ZodTypeAny>(res: Response, _schema: T): z.infer<T> => res.locals.params;
+export const getBody = <T extends z.ZodTypeAny>(res: Response, _schema: T): z.infer<T> => res.locals.body;
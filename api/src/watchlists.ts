@@ -0,0 +1,114 @@
+import { Router } from "express";
+import {
+  logger,
+  listWatchlists,
+  getWatchlist,
+  createWatchlist,
+  updateWatchlist,
+  deleteWatchlist,
+  getWatchMatches,
+} from "shared";
+import { requireScope } from "./auth.js";
+import { validateQuery, validateParams, validateBody, getQuery, getParams, getBody } from "./validation.js";
+import { sendError } from "./errors.js";
+import { watchlistIdParamsSchema, watchlistInputSchema, watchMatchQuerySchema } from "./schemas.js";
+
+// Watchlist rules are read with read:products and changed with write:watchlists. The product worker picks up changes within 30s
+
+export const watchlistsRouter = Router();
+
+const WATCHLIST_NOT_FOUND = { success: false, error: "Watchlist not found" } as const;
+
+watchlistsRouter.get("/api/watchlists", requireScope("read:products"), async (req, res) => {
+  try {
+    const watchlists = await listWatchlists();
+    res.json({ success: true, watchlists });
+  } catch (error) {
+    sendError(res, error, "Failed to list watchlists via API");
+  }
+});
+
+watchlistsRouter.post("/api/watchlists", requireScope("write:watchlists"), validateBody(watchlistInputSchema), async (req, res) => {
+  try {
+    const watchlist = await createWatchlist(getBody(res, watchlistInputSchema));
+    logger.info({ watchlistId: watchlist.id, name: watchlist.name }, "Watchlist created via API");
+    res.status(201).json({ success: true, watchlist });
+  } catch (error) {
+    sendError(res, error, "Failed to create watchlist via API");
+  }
+});
+
+watchlistsRouter.get("/api/watchlists/:id", requireScope("read:products"), validateParams(watchlistIdParamsSchema), async (req, res) => {
+  try {
+    const watchlist = await getWatchlist(getParams(res, watchlistIdParamsSchema).id);
+    if (!watchlist) {
+      return res.status(404).json(WATCHLIST_NOT_FOUND);
+    }
+    res.json({ success: true, watchlist });
+  } catch (error) {
+    sendError(res, error, "Failed to get watchlist via API");
+  }
+});
+
+watchlistsRouter.put(
+  "/api/watchlists/:id",
+  requireScope("write:watchlists"),
+  validateParams(watchlistIdParamsSchema),
+  validateBody(watchlistInputSchema),
+  async (req, res) => {
+    try {
+      const { id } = getParams(res, watchlistIdParamsSchema);
+      const watchlist = await updateWatchlist(id, getBody(res, watchlistInputSchema));
+      if (!watchlist) {
+        return res.status(404).json(WATCHLIST_NOT_FOUND);
+      }
+      logger.info({ watchlistId: id }, "Watchlist updated via API");
+      res.json({ success: true, watchlist });
+    } catch (error) {
+      sendError(res, error, "Failed to update watchlist via API");
+    }
+  }
+);
+
+watchlistsRouter.delete("/api/watchlists/:id", requireScope("write:watchlists"), validateParams(watchlistIdParamsSchema), async (req, res) => {
+  try {
+    const { id } = getParams(res, watchlistIdParamsSchema);
+    const deleted = await deleteWatchlist(id);
+    if (!deleted) {
+      return res.status(404).json(WATCHLIST_NOT_FOUND);
+    }
+    logger.info({ watchlistId: id }, "Watchlist deleted via API");
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, "Failed to delete watchlist via API");
+  }
+});
+
+watchlistsRouter.get(
+  "/api/watchlists/:id/matches",
+  requireScope("read:products"),
+  validateParams(watchlistIdParamsSchema),
+  validateQuery(watchMatchQuerySchema),
+  async (req, res) => {
+    try {
+      const { id } = getParams(res, watchlistIdParamsSchema);
+      const { limit, offset } = getQuery(res, watchMatchQuerySchema);
+      if (!(await getWatchlist(id))) {
+        return res.status(404).json(WATCHLIST_NOT_FOUND);
+      }
+      const { matches, total } = await getWatchMatches(id, limit, offset);
+      res.json({
+        success: true,
+        matches,
+        pagination: {
+          limit,
+          offset,
+          total,
+          hasMore: offset + limit < total,
+        },
+      });
+    } catch (error) {
+      sendError(res, error, "Failed to get watchlist matches via API");
+    }
+  }
+);
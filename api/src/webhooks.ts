@@ -0,0 +1,113 @@
+import { Router } from "express";
+import {
+  logger,
+  createWebhookSubscription,
+  listWebhookSubscriptions,
+  setWebhookSubscriptionEnabled,
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  retryWebhookDelivery,
+} from "shared";
+import { requireScope } from "./auth.js";
+import { validateQuery, validateParams, validateBody, getQuery, getParams, getBody } from "./validation.js";
+import { sendError } from "./errors.js";
+import {
+  webhookIdParamsSchema,
+  webhookSubscriptionCreateSchema,
+  webhookUpdateSchema,
+  webhookDeliveryQuerySchema,
+} from "./schemas.js";
+
+// Admin routes for outbound webhook subscriptions and their delivery log
+
+export const webhooksRouter = Router();
+
+webhooksRouter.use("/api/admin/webhooks", requireScope("admin"));
+webhooksRouter.use("/api/admin/webhook-deliveries", requireScope("admin"));
+
+const WEBHOOK_NOT_FOUND = { success: false, error: "Webhook not found" } as const;
+
+webhooksRouter.get("/api/admin/webhooks", async (req, res) => {
+  try {
+    const webhooks = await listWebhookSubscriptions();
+    res.json({ success: true, webhooks });
+  } catch (error) {
+    sendError(res, error, "Failed to list webhooks via API");
+  }
+});
+
+webhooksRouter.post("/api/admin/webhooks", validateBody(webhookSubscriptionCreateSchema), async (req, res) => {
+  try {
+    const { secret, subscription } = await createWebhookSubscription(getBody(res, webhookSubscriptionCreateSchema));
+    logger.info({ webhookId: subscription.id, url: subscription.url, events: subscription.events }, "Webhook created via API");
+    res.status(201).json({ success: true, secret, webhook: subscription });
+  } catch (error) {
+    sendError(res, error, "Failed to create webhook via API");
+  }
+});
+
+webhooksRouter.patch(
+  "/api/admin/webhooks/:id",
+  validateParams(webhookIdParamsSchema),
+  validateBody(webhookUpdateSchema),
+  async (req, res) => {
+    try {
+      const { id } = getParams(res, webhookIdParamsSchema);
+      const webhook = await setWebhookSubscriptionEnabled(id, getBody(res, webhookUpdateSchema).enabled);
+      if (!webhook) {
+        return res.status(404).json(WEBHOOK_NOT_FOUND);
+      }
+      logger.info({ webhookId: id, enabled: webhook.enabled }, "Webhook updated via API");
+      res.json({ success: true, webhook });
+    } catch (error) {
+      sendError(res, error, "Failed to update webhook via API");
+    }
+  }
+);
+
+webhooksRouter.delete("/api/admin/webhooks/:id", validateParams(webhookIdParamsSchema), async (req, res) => {
+  try {
+    const { id } = getParams(res, webhookIdParamsSchema);
+    const deleted = await deleteWebhookSubscription(id);
+    if (!deleted) {
+      return res.status(404).json(WEBHOOK_NOT_FOUND);
+    }
+    logger.info({ webhookId: id }, "Webhook deleted via API");
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, "Failed to delete webhook via API");
+  }
+});
+
+webhooksRouter.get("/api/admin/webhook-deliveries", validateQuery(webhookDeliveryQuerySchema), async (req, res) => {
+  try {
+    const { limit, offset, ...filter } = getQuery(res, webhookDeliveryQuerySchema);
+    const { deliveries, total } = await getWebhookDeliveries(filter, limit, offset);
+    res.json({
+      success: true,
+      deliveries,
+      pagination: {
+        limit,
+        offset,
+        total,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    sendError(res, error, "Failed to get webhook deliveries via API");
+  }
+});
+
+webhooksRouter.post("/api/admin/webhook-deliveries/:id/retry", validateParams(webhookIdParamsSchema), async (req, res) => {
+  try {
+    const { id } = getParams(res, webhookIdParamsSchema);
+    const retried = await retryWebhookDelivery(id);
+    if (!retried) {
+      return res.status(404).json({ success: false, error: "Dead-lettered delivery not found" });
+    }
+    logger.info({ deliveryId: id }, "Webhook delivery requeued via API");
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, "Failed to retry webhook delivery via API");
+  }
+});
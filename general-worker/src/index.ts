@@ -1,5 +1,5 @@
 import { chromium, Browser, BrowserContext, Page } from "playwright";
-import { config, logger, redisConnection, REDIS_KEY_TOTAL_PAGES, REDIS_KEY_TOTAL_PRODUCTS, REDIS_KEY_PRODUCT_URLS, REDIS_KEY_CRAWL_TRIGGER, REDIS_KEY_LAST_PRODUCT_COUNT, REDIS_KEY_TABS_READY, REDIS_KEY_CURRENT_BATCH_START, REDIS_KEY_CURRENT_BATCH_END, REDIS_KEY_BATCH_COMPLETE, REDIS_KEY_GENERAL_WORKER_COMPLETE, REDIS_KEY_WORKER_PAGES, REDIS_KEY_WORKER_COMPLETE, REDIS_KEY_WORKER_HEARTBEAT, REDIS_KEY_PENDING_PAGES, REDIS_KEY_ASSIGNED_PAGES, REDIS_KEY_GENERAL_WORKER_HEARTBEAT, REDIS_KEY_GENERAL_WORKER_PAGES, REDIS_KEY_GENERAL_WORKER_PROCESSING, REDIS_KEY_AMAZON_COOKIES, REDIS_KEY_AMAZON_SESSION_VALID, REDIS_KEY_WORKER_LOCK, productsQueue, ProductJobData } from "shared";
+import { config, currentMarketplace, isVineUrl, isMarketplaceUrl, getVineQueueUrl, getVineQueuePageUrl, getVineQueueFromUrl, DEFAULT_VINE_QUEUE, logger, redisConnection, REDIS_KEY_TOTAL_PAGES, REDIS_KEY_TOTAL_PRODUCTS, REDIS_KEY_PRODUCT_URLS, REDIS_KEY_CRAWL_TRIGGER, REDIS_KEY_TABS_READY, REDIS_KEY_CURRENT_BATCH_START, REDIS_KEY_CURRENT_BATCH_END, REDIS_KEY_BATCH_COMPLETE, REDIS_KEY_GENERAL_WORKER_COMPLETE, REDIS_KEY_WORKER_PAGES, REDIS_KEY_WORKER_COMPLETE, REDIS_KEY_WORKER_HEARTBEAT, REDIS_KEY_PENDING_PAGES, REDIS_KEY_ASSIGNED_PAGES, REDIS_KEY_GENERAL_WORKER_HEARTBEAT, REDIS_KEY_GENERAL_WORKER_PAGES, REDIS_KEY_GENERAL_WORKER_PROCESSING, REDIS_KEY_AMAZON_COOKIES, REDIS_KEY_AMAZON_SESSION_VALID, REDIS_KEY_WORKER_LOCK, parseGeneralWorkerPages, parseWorkerPageAssignments, productsQueue, ProductJobData, PageRange, PageAssignment, VineQueue, batchPagesOpened, loginAttempts, loginFailures, serviceUnavailableDetections, startMetricsServer } from "shared";
 import { setTimeout as delay } from "node:timers/promises";
 
 let browser: Browser | null = null;
@@ -348,7 +348,7 @@ const isSignedIn = async (page: Page): Promise<boolean> => {
 
     // Fourth check: Try to navigate to a protected page to verify
     // If we can access vine page without redirect, we're logged in
-    if (currentUrl.includes("amazon.com/vine") && !currentUrl.includes("/ap/")) {
+    if (isVineUrl(currentMarketplace, currentUrl) && !currentUrl.includes("/ap/")) {
       return true;
     }
 
@@ -809,7 +809,7 @@ const autoLogin = async (page: Page): Promise<void> => {
   // Navigate to encore queue to verify login
   logger.info({ workerId }, "Verifying login by navigating to encore queue...");
   try {
-    await page.goto(config.AMAZON_VINE_ENCORE_URL, {
+    await page.goto(currentMarketplace.encoreUrl, {
       waitUntil: "load",
       timeout: 30000,
     });
@@ -842,7 +842,7 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
     // Try navigating with shared cookies
     logger.info({ workerId }, "Using shared cookies, checking if session is valid...");
     try {
-      await navigateToEncoreQueue(page);
+      await navigateToQueue(page, DEFAULT_VINE_QUEUE);
   await delay(3000);
       
       const signedIn = await isSignedIn(page);
@@ -867,7 +867,7 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
   
   // Navigate directly to encore queue to check login status
   try {
-    await navigateToEncoreQueue(page);
+    await navigateToQueue(page, DEFAULT_VINE_QUEUE);
     await delay(3000);
   } catch (error: any) {
     // If session expired, we'll handle it with auto-login below
@@ -881,6 +881,7 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
   const signedIn = await isSignedIn(page);
   if (!signedIn) {
     logger.info({ currentUrl: page.url(), workerId }, "Not logged in. Attempting automatic login...");
+    loginAttempts.inc();
     
     try {
       // Attempt automatic login (this will verify and navigate to encore queue)
@@ -916,7 +917,7 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
           
           // Try navigating to encore queue to verify
           try {
-            await navigateToEncoreQueue(page);
+            await navigateToQueue(page, DEFAULT_VINE_QUEUE);
             await delay(2000);
             const stillSignedIn = await isSignedIn(page);
             const checkUrl = page.url();
@@ -945,6 +946,7 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
       }
     } catch (error) {
       logger.error({ workerId, error }, "Automatic login failed");
+      loginFailures.inc();
       throw error;
     }
   }
@@ -956,14 +958,14 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
   await saveSharedCookies(context);
 };
 
-const discoverPageInfo = async (page: Page): Promise<{ totalPages: number; totalProducts: number }> => {
-  logger.info("Discovering total pages and products from encore page...");
+const discoverPageInfo = async (page: Page, queue: VineQueue): Promise<{ totalPages: number; totalProducts: number }> => {
+  logger.info({ queue }, "Discovering total pages and products from queue page...");
 
-  // Ensure we're on the encore queue page
+  // Ensure we're on the first page of the queue
   const currentUrl = page.url();
-  if (!currentUrl.includes("queue=encore")) {
-    logger.info("Navigating to encore queue...");
-  await navigateToEncoreQueue(page);
+  if (getVineQueueFromUrl(currentUrl) !== queue) {
+    logger.info({ queue }, "Navigating to queue...");
+  await navigateToQueue(page, queue);
   }
   
   // Wait for page to fully load
@@ -1193,9 +1195,9 @@ const discoverPageInfo = async (page: Page): Promise<{ totalPages: number; total
 
 const checkFor503Error = async (page: Page): Promise<boolean> => {
   try {
-    // Only check for 503 on the specific endpoint: https://www.amazon.com/vine
+    // Only check for 503 on the marketplace's Vine endpoint (e.g. https://www.amazon.com/vine)
     const url = page.url();
-    const vineBaseUrl = config.AMAZON_VINE_BASE_URL || "https://www.amazon.com/vine";
+    const vineBaseUrl = currentMarketplace.vineBaseUrl;
     
     // Check if URL matches the exact endpoint (with or without trailing slash, with or without query params)
     const urlMatches = url.startsWith(vineBaseUrl) || url.startsWith(vineBaseUrl + "/");
@@ -1207,6 +1209,7 @@ const checkFor503Error = async (page: Page): Promise<boolean> => {
     const title = await page.title().catch(() => "");
     const titleLower = title.toLowerCase();
     if (titleLower.includes("503") && (titleLower.includes("error") || titleLower.includes("unavailable") || titleLower.includes("service unavailable"))) {
+      serviceUnavailableDetections.inc();
       return true;
     }
     
@@ -1232,6 +1235,9 @@ const checkFor503Error = async (page: Page): Promise<boolean> => {
       return isExactErrorPage;
     }).catch(() => false);
     
+    if (has503Error) {
+      serviceUnavailableDetections.inc();
+    }
     return has503Error;
   } catch {
     return false;
@@ -1239,18 +1245,18 @@ const checkFor503Error = async (page: Page): Promise<boolean> => {
 };
 
 
-const navigateToEncoreQueue = async (page: Page, retryCount = 0): Promise<void> => {
+const navigateToQueue = async (page: Page, queue: VineQueue, retryCount = 0): Promise<void> => {
   const currentUrl = page.url();
 
-  if (currentUrl.includes("queue=encore")) {
-    // Check if current page has 503 error (only on https://www.amazon.com/vine endpoint)
+  if (getVineQueueFromUrl(currentUrl) === queue) {
+    // Check if current page has 503 error (only on the Vine endpoint)
     const has503 = await checkFor503Error(page);
     if (has503) {
-      logger.warn({ url: page.url() }, "503 error detected on https://www.amazon.com/vine endpoint, waiting 5 minutes before retry...");
+      logger.warn({ url: page.url() }, "503 error detected on Vine endpoint, waiting 5 minutes before retry...");
       await delay(300000); // Wait 5 minutes (300000ms)
       // Force reload
       await page.reload({ waitUntil: "load", timeout: 60000 });
-      return navigateToEncoreQueue(page, retryCount + 1);
+      return navigateToQueue(page, queue, retryCount + 1);
     }
     return;
   }
@@ -1260,30 +1266,30 @@ const navigateToEncoreQueue = async (page: Page, retryCount = 0): Promise<void>
   }
 
   try {
-    const response = await page.goto(config.AMAZON_VINE_ENCORE_URL, {
+    const response = await page.goto(getVineQueueUrl(currentMarketplace, queue), {
     waitUntil: "load",
     timeout: 60000,
   });
     
-    // Check for 503 status - only on https://www.amazon.com/vine endpoint
+    // Check for 503 status - only on the Vine endpoint
     const responseUrl = response?.url() || "";
-    const vineBaseUrl = config.AMAZON_VINE_BASE_URL || "https://www.amazon.com/vine";
+    const vineBaseUrl = currentMarketplace.vineBaseUrl;
     const isVineEndpoint = responseUrl.startsWith(vineBaseUrl) || responseUrl.startsWith(vineBaseUrl + "/");
     
     if (response && response.status() === 503 && isVineEndpoint) {
-      logger.warn({ status: response.status(), url: response.url() }, "503 Service Unavailable detected on https://www.amazon.com/vine endpoint, waiting 5 minutes before retry...");
+      logger.warn({ status: response.status(), url: response.url() }, "503 Service Unavailable detected on Vine endpoint, waiting 5 minutes before retry...");
       await delay(300000); // Wait 5 minutes (300000ms)
-      return navigateToEncoreQueue(page, retryCount + 1);
+      return navigateToQueue(page, queue, retryCount + 1);
     }
     
   await delay(2000);
     
-    // Check page content for 503 error (only on https://www.amazon.com/vine endpoint)
+    // Check page content for 503 error (only on the Vine endpoint)
     const has503 = await checkFor503Error(page);
     if (has503) {
-      logger.warn({ url: page.url() }, "503 error detected in page content on https://www.amazon.com/vine endpoint, waiting 5 minutes before retry...");
+      logger.warn({ url: page.url() }, "503 error detected in page content on Vine endpoint, waiting 5 minutes before retry...");
       await delay(300000); // Wait 5 minutes (300000ms)
-      return navigateToEncoreQueue(page, retryCount + 1);
+      return navigateToQueue(page, queue, retryCount + 1);
     }
 
   const newUrl = page.url();
@@ -1292,23 +1298,23 @@ const navigateToEncoreQueue = async (page: Page, retryCount = 0): Promise<void>
     }
   } catch (error: any) {
     // Check if error is related to 503 - only retry if we're navigating to the vine endpoint
-    const targetUrl = config.AMAZON_VINE_ENCORE_URL || config.AMAZON_VINE_BASE_URL || "";
+    const targetUrl = getVineQueueUrl(currentMarketplace, queue);
     const isVineEndpoint = targetUrl.includes("/vine");
     
     if (isVineEndpoint && (error?.message?.includes("503") || error?.message?.includes("Service Unavailable"))) {
-      logger.warn({ error: error.message, url: targetUrl }, "503 error during navigation to https://www.amazon.com/vine endpoint");
+      logger.warn({ error: error.message, url: targetUrl }, "503 error during navigation to Vine endpoint");
       
       logger.warn("Waiting 5 minutes before retry...");
       await delay(300000); // Wait 5 minutes (300000ms)
-      return navigateToEncoreQueue(page, retryCount + 1);
+      return navigateToQueue(page, queue, retryCount + 1);
     }
     throw error;
   }
 };
 
 
-const openBatchOfTabs = async (targetContext: BrowserContext, batchStart: number, batchEnd: number, totalPages: number, tabsOpenedSoFar: number): Promise<number> => {
-  logger.info({ batchStart, batchEnd, totalPages }, "Opening batch of page tabs");
+const openBatchOfTabs = async (targetContext: BrowserContext, queue: VineQueue, batchStart: number, batchEnd: number, totalPages: number, tabsOpenedSoFar: number): Promise<number> => {
+  logger.info({ queue, batchStart, batchEnd, totalPages }, "Opening batch of page tabs");
   
   // Open tabs sequentially with random delay between each tab (faster for better performance)
   const startTime = Date.now();
@@ -1321,6 +1327,7 @@ const openBatchOfTabs = async (targetContext: BrowserContext, batchStart: number
   // Ensure max >= min
   const delayMax = Math.max(minDelay, maxDelay);
   const delayMin = Math.min(minDelay, maxDelay);
+  let tabsOpened = 0;
   
   for (let pageNum = batchStart; pageNum <= batchEnd; pageNum++) {
     try {
@@ -1334,18 +1341,19 @@ const openBatchOfTabs = async (targetContext: BrowserContext, batchStart: number
         await delay(randomDelay);
       }
       
-      const encoreUrl = `${config.AMAZON_VINE_ENCORE_URL}&page=${pageNum}`;
+      const queuePageUrl = getVineQueuePageUrl(currentMarketplace, queue, pageNum);
       const tab = await targetContext.newPage();
+      tabsOpened++;
       
       // Navigate with minimal wait - just commit, don't wait for full load
-      tab.goto(encoreUrl, { 
+      tab.goto(queuePageUrl, { 
         waitUntil: "commit", // Fastest option - just wait for navigation to commit
         timeout: 30000 
       }).catch(() => {
         // Navigation continues in background - non-blocking
       });
       
-      logger.debug({ pageNum, encoreUrl }, `Opened tab for page ${pageNum}`);
+      logger.debug({ pageNum, queuePageUrl }, `Opened tab for page ${pageNum}`);
     } catch (error: any) {
       // Log error but continue
       const errorMsg = error?.message || String(error);
@@ -1354,7 +1362,8 @@ const openBatchOfTabs = async (targetContext: BrowserContext, batchStart: number
   }
   
   const elapsed = Date.now() - startTime;
-  logger.info({ elapsed, batchSize, tabsCreated: batchSize, delayRange: `${delayMin}-${delayMax}ms` }, "✅ All tabs created in batch");
+  logger.info({ elapsed, batchSize, tabsCreated: tabsOpened, delayRange: `${delayMin}-${delayMax}ms` }, "✅ All tabs created in batch");
+  batchPagesOpened.observe(tabsOpened);
   
   return batchSize;
 };
@@ -1375,7 +1384,7 @@ const refreshAllTabsWithProxy = async (): Promise<void> => {
     const browserInstance = await getBrowser();
     const allContexts = browserInstance.contexts();
     
-    // Get all encore queue pages across all contexts
+    // Get all Vine queue pages across all contexts
     const allPages: Page[] = [];
     for (const ctx of allContexts) {
       try {
@@ -1384,7 +1393,7 @@ const refreshAllTabsWithProxy = async (): Promise<void> => {
           if (!p.isClosed()) {
             try {
               const url = p.url();
-              if (url.includes("queue=encore") || url.includes("amazon.com/vine")) {
+              if (isVineUrl(currentMarketplace, url)) {
                 allPages.push(p);
               }
             } catch {
@@ -1455,9 +1464,19 @@ const refreshAllTabsWithProxy = async (): Promise<void> => {
   }
 };
 
-const closeBatchTabs = async (targetContext: BrowserContext, batchStart: number, batchEnd: number): Promise<void> => {
+// Whether a tab shows a page of the given queue within the batch range
+const isTabInBatch = (url: string, queue: VineQueue, batchStart: number, batchEnd: number): boolean => {
+  const pageMatch = url.match(/[?&]page=(\d+)/);
+  if (!pageMatch || getVineQueueFromUrl(url) !== queue) {
+    return false;
+  }
+  const pageNum = parseInt(pageMatch[1], 10);
+  return pageNum >= batchStart && pageNum <= batchEnd;
+};
+
+const closeBatchTabs = async (targetContext: BrowserContext, queue: VineQueue, batchStart: number, batchEnd: number): Promise<void> => {
   const workerId = config.GENERAL_WORKER_ID || 1;
-  logger.info({ workerId, batchStart, batchEnd }, "Closing tabs for completed batch");
+  logger.info({ workerId, queue, batchStart, batchEnd }, "Closing tabs for completed batch");
   
   try {
     // Check if context is accessible (try to get pages to verify it's not closed)
@@ -1481,14 +1500,9 @@ const closeBatchTabs = async (targetContext: BrowserContext, batchStart: number,
           continue;
         }
         
-        const url = page.url();
         // Check if this page URL matches the batch range
-        const pageMatch = url.match(/[?&]page=(\d+)/);
-        if (pageMatch) {
-          const pageNum = parseInt(pageMatch[1], 10);
-          if (pageNum >= batchStart && pageNum <= batchEnd) {
-            pagesToClose.push(page);
-          }
+        if (isTabInBatch(page.url(), queue, batchStart, batchEnd)) {
+          pagesToClose.push(page);
         }
       } catch (error: any) {
         // Page might be closed or inaccessible - skip it
@@ -1512,14 +1526,9 @@ const closeBatchTabs = async (targetContext: BrowserContext, batchStart: number,
         
         // Verify the page URL still matches before closing
         try {
-          const url = page.url();
-          const pageMatch = url.match(/[?&]page=(\d+)/);
-          if (pageMatch) {
-            const pageNum = parseInt(pageMatch[1], 10);
-            if (pageNum >= batchStart && pageNum <= batchEnd) {
-              await page.close();
-              return true;
-            }
+          if (isTabInBatch(page.url(), queue, batchStart, batchEnd)) {
+            await page.close();
+            return true;
           }
         } catch {
           // Page might have been closed or navigated away, skip it
@@ -1550,13 +1559,7 @@ const closeBatchTabs = async (targetContext: BrowserContext, batchStart: number,
     const remainingPages = targetContext.pages().filter(p => {
       try {
         if (p.isClosed()) return false;
-        const url = p.url();
-        const pageMatch = url.match(/[?&]page=(\d+)/);
-        if (pageMatch) {
-          const pageNum = parseInt(pageMatch[1], 10);
-          return pageNum >= batchStart && pageNum <= batchEnd;
-        }
-        return false;
+        return isTabInBatch(p.url(), queue, batchStart, batchEnd);
       } catch {
         return false;
       }
@@ -1614,7 +1617,7 @@ const detectActiveWorkers = async (): Promise<number[]> => {
   return activeWorkers;
 };
 
-const distributePagesToWorkers = async (pages: number[]): Promise<void> => {
+const distributePagesToWorkers = async (pages: PageAssignment[]): Promise<void> => {
   // Detect active workers automatically
   const activeWorkers = await detectActiveWorkers();
   
@@ -1629,7 +1632,7 @@ const distributePagesToWorkers = async (pages: number[]): Promise<void> => {
   return distributePagesToWorkersWithList(pages, activeWorkers);
 };
 
-const distributePagesToWorkersWithList = async (pages: number[], activeWorkers: number[]): Promise<void> => {
+const distributePagesToWorkersWithList = async (pages: PageAssignment[], activeWorkers: number[]): Promise<void> => {
   const totalWorkers = activeWorkers.length;
   
   // Clear old page assignments for all active workers first to prevent caching issues
@@ -1642,7 +1645,7 @@ const distributePagesToWorkersWithList = async (pages: number[], activeWorkers:
   await delay(100);
   
   // Distribute pages evenly among active workers using round-robin
-  const workerPages: number[][] = Array.from({ length: totalWorkers }, () => []);
+  const workerPages: PageAssignment[][] = Array.from({ length: totalWorkers }, () => []);
   
   pages.forEach((page, index) => {
     const workerIndex = index % totalWorkers;
@@ -1678,9 +1681,8 @@ const reassignPagesFromIdleWorkers = async (activeWorkers: number[]): Promise<vo
   const idleWorkers: number[] = [];
   
   for (const workerId of activeWorkers) {
-    const pagesStr = await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId));
-    if (pagesStr) {
-      const pages = JSON.parse(pagesStr) as number[];
+    const pages = parseWorkerPageAssignments(await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId)));
+    if (pages) {
       if (pages.length > 0) {
         busyWorkers.push(workerId);
       } else {
@@ -1695,9 +1697,8 @@ const reassignPagesFromIdleWorkers = async (activeWorkers: number[]): Promise<vo
   if (idleWorkers.length > 0 && busyWorkers.length > 0) {
     // Get pages from the busiest worker and give to idle workers
     const busiestWorkerId = busyWorkers[0];
-    const pagesStr = await redisConnection.get(REDIS_KEY_WORKER_PAGES(busiestWorkerId));
-    if (pagesStr) {
-      const pages = JSON.parse(pagesStr) as number[];
+    const pages = parseWorkerPageAssignments(await redisConnection.get(REDIS_KEY_WORKER_PAGES(busiestWorkerId)));
+    if (pages) {
       if (pages.length > 1) {
         // Take half of pages from busiest worker
         const half = Math.ceil(pages.length / 2);
@@ -1741,9 +1742,8 @@ const waitForBatchCompletion = async (): Promise<void> => {
     // Check if all active workers are done
     let allComplete = true;
     for (const workerId of activeWorkers) {
-      const pagesStr = await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId));
-      if (pagesStr) {
-        const pages = JSON.parse(pagesStr) as number[];
+      const pages = parseWorkerPageAssignments(await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId)));
+      if (pages) {
         if (pages.length > 0) {
           allComplete = false;
           break;
@@ -1764,10 +1764,11 @@ const waitForBatchCompletion = async (): Promise<void> => {
   }
 };
 
-const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, assignedEndPage: number, onFirstLoopComplete?: () => void): Promise<void> => {
+const openAllPageTabsInBatches = async (page: Page, range: PageRange): Promise<void> => {
   const workerId = config.GENERAL_WORKER_ID || 1;
+  const { queue, start: assignedStartPage, end: assignedEndPage } = range;
   try {
-    logger.info({ workerId, assignedStartPage, assignedEndPage, totalPages: assignedEndPage - assignedStartPage + 1 }, "Starting to open assigned page tabs in batches");
+    logger.info({ workerId, queue, assignedStartPage, assignedEndPage, totalPages: assignedEndPage - assignedStartPage + 1 }, "Starting to open assigned page tabs in batches");
     
     const TABS_PER_BATCH = config.TABS_PER_BATCH || 20;
     const MAX_TABS_BEFORE_CLEANUP = 100; // Memory optimization: close tabs when reaching 100
@@ -1777,7 +1778,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
     let previousBatchContext: BrowserContext | null = null;
     const batchContexts: Array<{ batchStart: number; batchEnd: number; context: BrowserContext; completed: boolean }> = [];
     
-    // Helper function to count total open tabs across all contexts (only encore queue pages)
+    // Helper function to count total open tabs across all contexts (only Vine queue pages)
     const countTotalOpenTabs = async (): Promise<number> => {
       try {
         const browserInstance = await getBrowser();
@@ -1786,12 +1787,12 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
         for (const ctx of allContexts) {
           try {
             const pages = ctx.pages();
-            // Count only encore queue pages (not DevTools or other pages)
+            // Count only Vine queue pages (not DevTools or other pages)
             for (const p of pages) {
               if (!p.isClosed()) {
                 try {
                   const url = p.url();
-                  if (url.includes("queue=encore") || url.includes("amazon.com/vine")) {
+                  if (isVineUrl(currentMarketplace, url)) {
                     totalTabs++;
                   }
                 } catch {
@@ -1839,7 +1840,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
           }
           
           // Close tabs for this batch
-          await closeBatchTabs(batch.context, batch.batchStart, batch.batchEnd);
+          await closeBatchTabs(batch.context, queue, batch.batchStart, batch.batchEnd);
           closedTabCount += (batch.batchEnd - batch.batchStart + 1);
           logger.info({ workerId, batchStart: batch.batchStart, batchEnd: batch.batchEnd }, "✅ Closed completed batch tabs");
           
@@ -1915,7 +1916,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
         
         // Step 1: Open tabs for this batch
         logger.info({ workerId, batchStart, batchEnd }, "Opening tabs for batch...");
-        const tabsOpened = await openBatchOfTabs(targetContext, batchStart, batchEnd, assignedEndPage, totalTabsOpened);
+        const tabsOpened = await openBatchOfTabs(targetContext, queue, batchStart, batchEnd, assignedEndPage, totalTabsOpened);
         totalTabsOpened += tabsOpened;
         logger.info({ workerId, batchStart, batchEnd, tabsOpened }, "✅ Batch tabs opened");
         
@@ -1953,10 +1954,9 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
             const activeWorkers = await detectActiveWorkers();
             let allWorkersDone = true;
             for (const workerId of activeWorkers) {
-              const pagesStr = await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId));
-              if (pagesStr) {
-                const pages = JSON.parse(pagesStr) as number[];
-                const hasPreviousBatchPages = pages.some(p => p >= previousBatchStart && p <= previousBatchEnd);
+              const pages = parseWorkerPageAssignments(await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId)));
+              if (pages) {
+                const hasPreviousBatchPages = pages.some(p => p.queue === queue && p.page >= previousBatchStart && p.page <= previousBatchEnd);
                 if (hasPreviousBatchPages) {
                   allWorkersDone = false;
                   break;
@@ -1978,7 +1978,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
             // Close previous batch tabs
             logger.info({ workerId, batchStart: previousBatchStart, batchEnd: previousBatchEnd }, "Closing previous batch tabs...");
             try {
-              await closeBatchTabs(targetContext, previousBatchStart, previousBatchEnd);
+              await closeBatchTabs(targetContext, queue, previousBatchStart, previousBatchEnd);
               logger.info({ workerId, batchStart: previousBatchStart, batchEnd: previousBatchEnd }, "✅ Closed previous batch tabs");
             } catch (closeError: any) {
               const errorMsg = closeError instanceof Error ? closeError.message : String(closeError);
@@ -1990,7 +1990,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
         }
         
         // Step 3: Start crawling this batch (this will run while we open next batch in next iteration)
-        const pages = Array.from({ length: batchEnd - batchStart + 1 }, (_, i) => batchStart + i);
+        const pages = Array.from({ length: batchEnd - batchStart + 1 }, (_, i) => ({ queue, page: batchStart + i }));
         await distributePagesToWorkers(pages);
         await redisConnection.set(REDIS_KEY_TABS_READY, "1");
         await redisConnection.set(REDIS_KEY_CRAWL_TRIGGER, "1");
@@ -2012,7 +2012,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
       // Close last batch tabs
       logger.info({ workerId, batchStart: lastBatchStart, batchEnd: lastBatchEnd }, "Closing final batch tabs...");
       try {
-        await closeBatchTabs(targetContext, lastBatchStart, lastBatchEnd);
+        await closeBatchTabs(targetContext, queue, lastBatchStart, lastBatchEnd);
         logger.info({ workerId, batchStart: lastBatchStart, batchEnd: lastBatchEnd }, "✅ Closed final batch tabs");
       } catch (closeError: any) {
         const errorMsg = closeError instanceof Error ? closeError.message : String(closeError);
@@ -2105,13 +2105,13 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
         await redisConnection.del(REDIS_KEY_TABS_READY); // Clear ready flag
         
         // Open this batch of tabs (with random delay between each tab for faster opening)
-        const tabsOpened = await openBatchOfTabs(targetContext, batchStart, batchEnd, assignedEndPage, totalTabsOpened);
+        const tabsOpened = await openBatchOfTabs(targetContext, queue, batchStart, batchEnd, assignedEndPage, totalTabsOpened);
         totalTabsOpened += tabsOpened;
         
         logger.info({ workerId, batchStart, batchEnd, tabsOpened, totalTabsOpened }, "✅ Batch of tabs opened");
         
         // Distribute pages among all active product workers BEFORE triggering them
-        const pages = Array.from({ length: batchEnd - batchStart + 1 }, (_, i) => batchStart + i);
+        const pages = Array.from({ length: batchEnd - batchStart + 1 }, (_, i) => ({ queue, page: batchStart + i }));
         await distributePagesToWorkers(pages);
         
         // Mark tabs as ready and trigger product workers to crawl this batch
@@ -2216,11 +2216,10 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
               
               let allWorkersDone = true;
               for (const workerId of activeWorkers) {
-                const pagesStr = await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId));
-                if (pagesStr) {
-                  const pages = JSON.parse(pagesStr) as number[];
-                  // Check if any pages in the previous batch range are still assigned
-                  const hasPreviousBatchPages = pages.some(p => p >= prevBatchStart && p <= prevBatchEnd);
+                const pages = parseWorkerPageAssignments(await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId)));
+                if (pages) {
+                  // Check if any pages in the previous batch range of this queue are still assigned
+                  const hasPreviousBatchPages = pages.some(p => p.queue === queue && p.page >= prevBatchStart && p.page <= prevBatchEnd);
                   if (hasPreviousBatchPages) {
                     allWorkersDone = false;
                     break;
@@ -2259,7 +2258,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
             }, "Attempting to close previous batch tabs...");
             
             try {
-              await closeBatchTabs(previousBatchContext, prevBatchStart, prevBatchEnd);
+              await closeBatchTabs(previousBatchContext, queue, prevBatchStart, prevBatchEnd);
               logger.info({ 
                 workerId, 
                 batchStart: prevBatchStart, 
@@ -2311,7 +2310,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
       if (!config.USE_PROXY && previousBatchContext) {
         const lastBatch = batchContexts[batchContexts.length - 1];
         if (lastBatch) {
-          await closeBatchTabs(previousBatchContext, lastBatch.batchStart, lastBatch.batchEnd);
+          await closeBatchTabs(previousBatchContext, queue, lastBatch.batchStart, lastBatch.batchEnd);
           await delay(2000);
           // Only close context if using proxy (separate contexts)
           // If not using proxy, we're using the shared context, so don't close it
@@ -2325,23 +2324,7 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
       }
     }
     
-    logger.info({ workerId, totalTabs: totalTabsOpened, totalPages: assignedEndPage - assignedStartPage + 1, useProxy: config.USE_PROXY && config.PROXY_SERVER }, "✅ All batches processed - all assigned page tabs opened and crawled");
-    
-    // Mark first loop as completed (for proxy mode refresh cycle)
-    if (onFirstLoopComplete) {
-      onFirstLoopComplete();
-    }
-    
-    // When using proxy, start refresh cycle after first loop (keep all tabs open)
-    if (config.USE_PROXY && config.PROXY_SERVER) {
-      logger.info({ workerId, useProxy: true }, "✅ First loop completed. Starting refresh cycle with proxy switching...");
-      // Don't mark as complete - we'll continue with refresh cycle
-      // The refresh cycle will be handled in the continuous check loop
-    } else {
-      // Mark this general worker as complete when not using proxy (tabs are closed)
-      await redisConnection.set(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId), "1");
-      logger.info({ workerId, useProxy: false }, "✅ General worker completed assigned page range");
-      }
+    logger.info({ workerId, queue, totalTabs: totalTabsOpened, totalPages: assignedEndPage - assignedStartPage + 1, useProxy: config.USE_PROXY && config.PROXY_SERVER }, "✅ All batches processed - all assigned page tabs opened and crawled");
     } catch (error) {
     const currentWorkerId = config.GENERAL_WORKER_ID || 1;
     logger.error({ error, workerId: currentWorkerId }, "Failed to open page tabs in batches");
@@ -2350,33 +2333,52 @@ const openAllPageTabsInBatches = async (page: Page, assignedStartPage: number, a
 };
 
 
+type QueuePageInfo = {
+  queue: VineQueue;
+  totalPages: number;
+  totalProducts: number;
+  previousTotalPages: number | null;
+  previousTotalProducts: number | null;
+};
+
+// Discovers each configured queue in turn and stores its totals in Redis (manager will use these)
+const discoverQueuePageInfo = async (page: Page): Promise<QueuePageInfo[]> => {
+  const results: QueuePageInfo[] = [];
+  for (const queue of config.VINE_QUEUES) {
+    const previousTotalPagesStr = await redisConnection.get(REDIS_KEY_TOTAL_PAGES(queue));
+    const previousTotalProductsStr = await redisConnection.get(REDIS_KEY_TOTAL_PRODUCTS(queue));
+    
+    const { totalPages, totalProducts } = await discoverPageInfo(page, queue);
+    
+    await redisConnection.set(REDIS_KEY_TOTAL_PAGES(queue), totalPages.toString());
+    await redisConnection.set(REDIS_KEY_TOTAL_PRODUCTS(queue), totalProducts.toString());
+    
+    results.push({
+      queue,
+      totalPages,
+      totalProducts,
+      previousTotalPages: previousTotalPagesStr ? parseInt(previousTotalPagesStr, 10) : null,
+      previousTotalProducts: previousTotalProductsStr ? parseInt(previousTotalProductsStr, 10) : null,
+    });
+  }
+  return results;
+};
+
 const crawlAndCheck = async (page: Page): Promise<void> => {
   try {
-    // Discover total pages and products from the encore page
-    logger.info("Starting page and product info discovery from encore page...");
-    const { totalPages, totalProducts: discoveredTotalProducts } = await discoverPageInfo(page);
-    
-    // Get previous values from Redis
-    const previousTotalPages = await redisConnection.get(REDIS_KEY_TOTAL_PAGES);
-    const previousTotalProducts = await redisConnection.get(REDIS_KEY_TOTAL_PRODUCTS);
-    const lastProductCount = await redisConnection.get(REDIS_KEY_LAST_PRODUCT_COUNT);
-    
-    // Check if values have changed
-    const pagesChanged = previousTotalPages !== totalPages.toString();
-    const productsChanged = previousTotalProducts !== discoveredTotalProducts.toString();
-    const productCountChanged = lastProductCount !== discoveredTotalProducts.toString();
-    const isInitialRun = lastProductCount === null;
-    
-    // Update Redis with new values
-    await redisConnection.set(REDIS_KEY_TOTAL_PAGES, totalPages.toString());
-    await redisConnection.set(REDIS_KEY_TOTAL_PRODUCTS, discoveredTotalProducts.toString());
-    
-    logger.info({ 
-      totalPages, 
-      totalProducts: discoveredTotalProducts,
-      previousPages: previousTotalPages,
-      previousProducts: previousTotalProducts
-    }, "✅ Page info discovered and stored in Redis (manager will use this)");
+    // Discover total pages and products of every queue
+    logger.info({ queues: config.VINE_QUEUES }, "Starting page and product info discovery from queue pages...");
+    const discovered = await discoverQueuePageInfo(page);
+    
+    for (const info of discovered) {
+      logger.info({ 
+        queue: info.queue,
+        totalPages: info.totalPages, 
+        totalProducts: info.totalProducts,
+        previousPages: info.previousTotalPages,
+        previousProducts: info.previousTotalProducts
+      }, "✅ Page info discovered and stored in Redis (manager will use this)");
+    }
   } catch (discoveryError) {
     const errorMessage = discoveryError instanceof Error ? discoveryError.message : String(discoveryError);
     const errorStack = discoveryError instanceof Error ? discoveryError.stack : undefined;
@@ -2387,7 +2389,7 @@ const crawlAndCheck = async (page: Page): Promise<void> => {
 
 // Track current processing state to prevent duplicates
 let isProcessing = false;
-let lastProcessedRange: { start: number; end: number } | null = null;
+let lastProcessedAssignment: string | null = null;
 
 const discoverAndProcessAssignedPages = async (page: Page, onFirstLoopComplete?: () => void): Promise<void> => {
   const workerId = config.GENERAL_WORKER_ID || 1;
@@ -2399,17 +2401,13 @@ const discoverAndProcessAssignedPages = async (page: Page, onFirstLoopComplete?:
   }
   
   try {
-    // Discover total pages and products from the encore page
-    logger.info({ workerId }, "Starting page and product info discovery from encore page...");
-    const { totalPages, totalProducts: discoveredTotalProducts } = await discoverPageInfo(page);
-    
-    // Update Redis with discovered values (manager will use these)
-    await redisConnection.set(REDIS_KEY_TOTAL_PAGES, totalPages.toString());
-    await redisConnection.set(REDIS_KEY_TOTAL_PRODUCTS, discoveredTotalProducts.toString());
+    // Discover total pages and products of every queue
+    logger.info({ workerId, queues: config.VINE_QUEUES }, "Starting page and product info discovery from queue pages...");
+    const discovered = await discoverQueuePageInfo(page);
     
-    logger.info({ workerId, totalPages, totalProducts: discoveredTotalProducts }, "Discovered page and product info");
+    logger.info({ workerId, queues: discovered.map(({ queue, totalPages, totalProducts }) => ({ queue, totalPages, totalProducts })) }, "Discovered page and product info");
     
-    // Check if manager has assigned a page range to this worker
+    // Check if manager has assigned page ranges to this worker
     const assignedPagesStr = await redisConnection.get(REDIS_KEY_GENERAL_WORKER_PAGES(workerId));
     
     if (!assignedPagesStr) {
@@ -2417,40 +2415,61 @@ const discoverAndProcessAssignedPages = async (page: Page, onFirstLoopComplete?:
       return;
     }
     
-    const assignedRange = JSON.parse(assignedPagesStr) as { start: number; end: number };
+    const assignedRanges = parseGeneralWorkerPages(assignedPagesStr);
+    if (!assignedRanges) {
+      logger.warn({ workerId, assignedPagesStr }, "Invalid page assignment in Redis. Waiting for new assignment...");
+      return;
+    }
+    const assignment = JSON.stringify(assignedRanges);
     
-    // Check if this is the same range we're already processing or completed
-    if (lastProcessedRange && 
-        lastProcessedRange.start === assignedRange.start && 
-        lastProcessedRange.end === assignedRange.end) {
+    // Check if this is the same assignment we're already processing or completed
+    if (lastProcessedAssignment === assignment) {
       // Check if we've already completed this assignment
       const completeStr = await redisConnection.get(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId));
       if (completeStr === "1") {
-        logger.debug({ workerId, assignedRange }, "Already completed this range. Waiting for new assignment...");
+        logger.debug({ workerId, assignedRanges }, "Already completed this range. Waiting for new assignment...");
         return;
       }
       
       // Check if we're currently processing this range
       const processingStr = await redisConnection.get(REDIS_KEY_GENERAL_WORKER_PROCESSING(workerId));
       if (processingStr === "1") {
-        logger.debug({ workerId, assignedRange }, "Already processing this range. Skipping duplicate...");
+        logger.debug({ workerId, assignedRanges }, "Already processing this range. Skipping duplicate...");
         return;
       }
     }
     
-    logger.info({ workerId, assignedRange, totalPages }, "Got assigned page range from manager");
+    logger.info({ workerId, assignedRanges }, "Got assigned page ranges from manager");
     
     // Set processing lock
     isProcessing = true;
-    lastProcessedRange = assignedRange;
+    lastProcessedAssignment = assignment;
     await redisConnection.set(REDIS_KEY_GENERAL_WORKER_PROCESSING(workerId), "1");
     await redisConnection.del(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId)); // Clear completion flag
     
     try {
-      // Process assigned page range
-      await openAllPageTabsInBatches(page, assignedRange.start, assignedRange.end, onFirstLoopComplete);
+      // Process assigned page ranges one after another (one range per queue at most)
+      for (const range of assignedRanges) {
+        await openAllPageTabsInBatches(page, range);
+      }
+      
+      logger.info({ workerId, assignedRanges }, "✅ Completed processing assigned page ranges");
       
-      logger.info({ workerId, assignedRange }, "✅ Completed processing assigned page range");
+      // Mark first loop as completed (for proxy mode refresh cycle)
+      if (onFirstLoopComplete) {
+        onFirstLoopComplete();
+      }
+      
+      // When using proxy, start refresh cycle after first loop (keep all tabs open)
+      if (config.USE_PROXY && config.PROXY_SERVER) {
+        logger.info({ workerId, useProxy: true }, "✅ First loop completed. Starting refresh cycle with proxy switching...");
+        // Don't mark as complete - we'll continue with refresh cycle
+        // The refresh cycle will be handled in the continuous check loop
+      } else {
+        // Mark this general worker as complete when not using proxy (tabs are closed)
+        await redisConnection.set(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId), "1");
+        logger.info({ workerId, useProxy: false }, "✅ General worker completed assigned page range");
+      }
     } finally {
       // Clear processing lock
       isProcessing = false;
@@ -2570,6 +2589,8 @@ const main = async (): Promise<void> => {
     process.exit(1);
   }
   
+  startMetricsServer("general-worker");
+  
   // Store the lock value we acquired for verification during refresh
   let ourLockValue = duplicateCheck.lockValue;
   
@@ -2704,7 +2725,7 @@ const main = async (): Promise<void> => {
     
     // Check if we're already on a page with the session
     const currentUrl = page.url();
-    if (currentUrl.includes("amazon.com")) {
+    if (isMarketplaceUrl(currentMarketplace, currentUrl)) {
       logger.info({ url: currentUrl }, "Already on Amazon page");
     }
     
@@ -2788,33 +2809,24 @@ const main = async (): Promise<void> => {
         if (stillSignedIn) {
           // In production mode, after first loop, check for changes and refresh tabs
           if (isProduction && firstLoopCompleted) {
-            // Get current totalPages and totalProducts from Redis
-            const currentTotalPagesStr = await redisConnection.get(REDIS_KEY_TOTAL_PAGES);
-            const currentTotalProductsStr = await redisConnection.get(REDIS_KEY_TOTAL_PRODUCTS);
-            
-            // Discover new values
-            const { totalPages: newTotalPages, totalProducts: newTotalProducts } = await discoverPageInfo(page);
-            
-            // Update Redis with new values
-            await redisConnection.set(REDIS_KEY_TOTAL_PAGES, newTotalPages.toString());
-            await redisConnection.set(REDIS_KEY_TOTAL_PRODUCTS, newTotalProducts.toString());
-            
-            const currentTotalPages = currentTotalPagesStr ? parseInt(currentTotalPagesStr, 10) : 0;
-            const currentTotalProducts = currentTotalProductsStr ? parseInt(currentTotalProductsStr, 10) : 0;
+            // Discover new values of every queue (previous values come from Redis)
+            const discovered = await discoverQueuePageInfo(page);
             
-            const pagesChanged = currentTotalPages !== newTotalPages;
-            const productsChanged = currentTotalProducts !== newTotalProducts;
+            const changedQueues = discovered.filter(
+              (info) => (info.previousTotalPages ?? 0) !== info.totalPages || (info.previousTotalProducts ?? 0) !== info.totalProducts
+            );
             
-            if (pagesChanged || productsChanged) {
+            if (changedQueues.length > 0) {
               logger.info({ 
                 workerId, 
                 mode: "production",
-                oldPages: currentTotalPages, 
-                newPages: newTotalPages,
-                oldProducts: currentTotalProducts,
-                newProducts: newTotalProducts,
-                pagesChanged,
-                productsChanged
+                changes: changedQueues.map((info) => ({
+                  queue: info.queue,
+                  oldPages: info.previousTotalPages ?? 0,
+                  newPages: info.totalPages,
+                  oldProducts: info.previousTotalProducts ?? 0,
+                  newProducts: info.totalProducts,
+                }))
               }, "⚠️ Detected changes in totalPages or totalProducts! Refreshing all tabs with new proxy...");
               
               // Clear completion flag to allow re-processing when changes detected
@@ -2828,7 +2840,7 @@ const main = async (): Promise<void> => {
                 firstLoopCompleted = true;
               });
             } else {
-              logger.debug({ workerId, mode: "production", totalPages: newTotalPages, totalProducts: newTotalProducts }, "No changes detected, continuing monitoring...");
+              logger.debug({ workerId, mode: "production", queues: discovered.map(({ queue, totalPages, totalProducts }) => ({ queue, totalPages, totalProducts })) }, "No changes detected, continuing monitoring...");
             }
           } else {
             // Normal discovery and processing (first loop or development mode)
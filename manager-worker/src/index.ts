@@ -1,4 +1,4 @@
-import { config, logger, redisConnection, REDIS_KEY_TOTAL_PAGES, REDIS_KEY_TOTAL_PRODUCTS, REDIS_KEY_GENERAL_WORKER_HEARTBEAT, REDIS_KEY_GENERAL_WORKER_PAGES, REDIS_KEY_GENERAL_WORKER_COMPLETE, REDIS_KEY_GENERAL_WORKER_PROCESSING, REDIS_KEY_MANAGER_TRIGGER, REDIS_KEY_WORKER_LOCK, REDIS_KEY_ROTATION_INDEX, REDIS_KEY_LAST_ASSIGNED_PAGE } from "shared";
+import { config, logger, redisConnection, REDIS_KEY_TOTAL_PAGES, REDIS_KEY_TOTAL_PRODUCTS, REDIS_KEY_GENERAL_WORKER_HEARTBEAT, REDIS_KEY_GENERAL_WORKER_PAGES, REDIS_KEY_GENERAL_WORKER_COMPLETE, REDIS_KEY_GENERAL_WORKER_PROCESSING, REDIS_KEY_MANAGER_TRIGGER, REDIS_KEY_WORKER_LOCK, REDIS_KEY_ROTATION_INDEX, REDIS_KEY_LAST_ASSIGNED_PAGE, parseGeneralWorkerPages, PageRange, VineQueue, isCrawlPaused, startMetricsServer, openCrawlRun, completeCrawlRun, getActiveCrawlRun, CrawlRunTrigger } from "shared";
 import { setTimeout as delay } from "node:timers/promises";
 
 // Manager worker - controls and assigns work to general workers
@@ -27,8 +27,132 @@ const detectActiveGeneralWorkers = async (): Promise<number[]> => {
   return activeWorkers;
 };
 
-// Round-robin rotation: Assign work in batches, rotating through servers
-const distributePagesRoundRobin = async (totalPages: number): Promise<void> => {
+type QueueTotal = { queue: VineQueue; totalPages: number };
+
+// Page counts of the configured Vine queues, in sweep order. Queues the general workers have not discovered yet are left out
+const getQueueTotals = async (): Promise<QueueTotal[]> => {
+  const totals: QueueTotal[] = [];
+  for (const queue of config.VINE_QUEUES) {
+    const totalPagesStr = await redisConnection.get(REDIS_KEY_TOTAL_PAGES(queue));
+    if (!totalPagesStr) {
+      continue;
+    }
+    const totalPages = parseInt(totalPagesStr, 10);
+    if (isNaN(totalPages) || totalPages <= 0) {
+      logger.warn({ queue, totalPagesStr }, "Invalid total pages value");
+      continue;
+    }
+    totals.push({ queue, totalPages });
+  }
+  return totals;
+};
+
+const sumTotalPages = (totals: QueueTotal[]): number => totals.reduce((sum, { totalPages }) => sum + totalPages, 0);
+
+const getDiscoveredTotalProducts = async (): Promise<number> => {
+  let totalProducts = 0;
+  for (const queue of config.VINE_QUEUES) {
+    const parsed = parseInt((await redisConnection.get(REDIS_KEY_TOTAL_PRODUCTS(queue))) ?? "", 10);
+    totalProducts += isNaN(parsed) || parsed < 0 ? 0 : parsed;
+  }
+  return totalProducts;
+};
+
+// If Redis contains invalid data, parseInt returns NaN - the queue's rotation restarts from page 1
+const getLastAssignedPage = async (queue: VineQueue): Promise<number> => {
+  const lastAssignedPageStr = await redisConnection.get(REDIS_KEY_LAST_ASSIGNED_PAGE(queue));
+  if (!lastAssignedPageStr) {
+    return 0;
+  }
+  const parsed = parseInt(lastAssignedPageStr, 10);
+  if (!isNaN(parsed) && parsed >= 0) {
+    return parsed;
+  }
+  logger.warn({ queue, invalidValue: lastAssignedPageStr }, "Invalid last assigned page in Redis, resetting to 0");
+  await redisConnection.set(REDIS_KEY_LAST_ASSIGNED_PAGE(queue), "0");
+  return 0;
+};
+
+const hasUnassignedPages = async (totals: QueueTotal[]): Promise<boolean> => {
+  for (const { queue, totalPages } of totals) {
+    if ((await getLastAssignedPage(queue)) < totalPages) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// A crawl run covers one full sweep over every configured queue: it opens when the first range of a sweep is assigned
+// and completes once every page has been assigned and every general worker has finished its ranges. In proxy mode general workers keep
+// refreshing their tabs and never report completion, so a run stays open until the next sweep abandons it
+const startCrawlRun = async (totalPages: number, workerId: number, triggeredBy: CrawlRunTrigger): Promise<void> => {
+  try {
+    const run = await openCrawlRun({
+      marketplace: config.MARKETPLACE,
+      triggeredBy,
+      workerId,
+      totalPages,
+      totalProducts: await getDiscoveredTotalProducts()
+    });
+    logger.info({ runId: run.id, marketplace: run.marketplace, totalPages, workerId, triggeredBy }, "Crawl run started");
+  } catch (error) {
+    // Never hold up work assignment because of run bookkeeping
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMessage }, "Failed to open crawl run");
+  }
+};
+
+const completeCrawlRunIfSweepFinished = async (totals: QueueTotal[], activeWorkers: number[]): Promise<void> => {
+  try {
+    const run = await getActiveCrawlRun(config.MARKETPLACE);
+    if (!run) {
+      return;
+    }
+    
+    if (config.ENABLE_ROUND_ROBIN_ROTATION && (await hasUnassignedPages(totals))) {
+      return; // Pages of this sweep are still waiting for a worker
+    }
+    
+    let anyAssigned = false;
+    for (const workerId of activeWorkers) {
+      if ((await redisConnection.get(REDIS_KEY_GENERAL_WORKER_PROCESSING(workerId))) === "1") {
+        return;
+      }
+      if (!(await redisConnection.get(REDIS_KEY_GENERAL_WORKER_PAGES(workerId)))) {
+        continue;
+      }
+      anyAssigned = true;
+      if ((await redisConnection.get(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId))) !== "1") {
+        return;
+      }
+    }
+    if (!anyAssigned) {
+      return;
+    }
+    
+    const completed = await completeCrawlRun(run.id, {
+      totalPages: sumTotalPages(totals),
+      totalProducts: await getDiscoveredTotalProducts()
+    });
+    if (completed) {
+      logger.info({
+        runId: completed.id,
+        durationMs: completed.durationMs,
+        pagesCrawled: completed.pagesCrawled,
+        productsAdded: completed.productsAdded,
+        productsUpdated: completed.productsUpdated,
+        productsRemoved: completed.productsRemoved,
+        failures: completed.failures
+      }, "✅ Crawl run completed");
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMessage }, "Failed to check crawl run completion");
+  }
+};
+
+// Round-robin rotation: Assign work in batches, rotating through servers. Queues are swept one after another
+const distributePagesRoundRobin = async (totals: QueueTotal[], triggeredBy: CrawlRunTrigger): Promise<void> => {
   const activeWorkers = await detectActiveGeneralWorkers();
   
   if (activeWorkers.length === 0) {
@@ -38,7 +162,6 @@ const distributePagesRoundRobin = async (totalPages: number): Promise<void> => {
   
   // Get current rotation state
   const rotationIndexStr = await redisConnection.get(REDIS_KEY_ROTATION_INDEX);
-  const lastAssignedPageStr = await redisConnection.get(REDIS_KEY_LAST_ASSIGNED_PAGE);
   
   // Parse and validate rotation state values
   // If Redis contains invalid data, parseInt returns NaN, which we need to handle
@@ -66,25 +189,22 @@ const distributePagesRoundRobin = async (totalPages: number): Promise<void> => {
     await redisConnection.set(REDIS_KEY_ROTATION_INDEX, "0");
   }
   
-  let lastAssignedPage = 0;
-  if (lastAssignedPageStr) {
-    const parsed = parseInt(lastAssignedPageStr, 10);
-    if (!isNaN(parsed) && parsed >= 0) {
-      lastAssignedPage = parsed;
-    } else {
-      logger.warn({ invalidValue: lastAssignedPageStr }, "Invalid last assigned page in Redis, resetting to 0");
-      await redisConnection.set(REDIS_KEY_LAST_ASSIGNED_PAGE, "0");
-    }
+  const lastAssignedPages = new Map<VineQueue, number>();
+  for (const { queue } of totals) {
+    lastAssignedPages.set(queue, await getLastAssignedPage(queue));
   }
   
-  // If we've completed all pages, reset rotation and clear all completion flags
+  // Next batch comes from the first queue (in sweep order) that still has unassigned pages
+  const next = totals.find(({ queue, totalPages }) => (lastAssignedPages.get(queue) ?? 0) < totalPages);
+  
+  // If we've completed all pages of every queue, reset rotation and clear all completion flags
   // This prevents redundant reassignment on the same invocation
-  if (lastAssignedPage >= totalPages) {
-    logger.info({ totalPages, lastAssignedPage }, "All pages assigned, resetting rotation");
-    rotationIndex = 0;
-    lastAssignedPage = 0;
+  if (!next) {
+    logger.info({ queues: totals }, "All pages assigned, resetting rotation");
     await redisConnection.set(REDIS_KEY_ROTATION_INDEX, "0");
-    await redisConnection.set(REDIS_KEY_LAST_ASSIGNED_PAGE, "0");
+    for (const { queue } of totals) {
+      await redisConnection.set(REDIS_KEY_LAST_ASSIGNED_PAGE(queue), "0");
+    }
     
     // Clear all active workers' completion flags and page assignments to prevent stale data
     // This ensures that when rotation resets, no worker has stale flags or assignments that would
@@ -103,38 +223,38 @@ const distributePagesRoundRobin = async (totalPages: number): Promise<void> => {
   // Get next worker in rotation
   const workerId = activeWorkers[rotationIndex % activeWorkers.length];
   const batchSize = config.ROTATION_BATCH_SIZE;
-  const startPage = lastAssignedPage + 1;
-  const endPage = Math.min(startPage + batchSize - 1, totalPages);
-  
-  // Additional safety check (shouldn't be needed after the early return above, but kept for safety)
-  if (startPage > totalPages) {
-    logger.info({ startPage, totalPages }, "All pages have been assigned");
-    return;
-  }
+  const startPage = (lastAssignedPages.get(next.queue) ?? 0) + 1;
+  const endPage = Math.min(startPage + batchSize - 1, next.totalPages);
   
   // Assign batch to current worker in rotation
-  const pageRange = { start: startPage, end: endPage };
-  await redisConnection.set(REDIS_KEY_GENERAL_WORKER_PAGES(workerId), JSON.stringify(pageRange));
+  const pageRange: PageRange = { queue: next.queue, start: startPage, end: endPage };
+  await redisConnection.set(REDIS_KEY_GENERAL_WORKER_PAGES(workerId), JSON.stringify([pageRange]));
   await redisConnection.del(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId)); // Clear completion flag
   
   // Update rotation state
   const nextRotationIndex = (rotationIndex + 1) % activeWorkers.length;
   await redisConnection.set(REDIS_KEY_ROTATION_INDEX, nextRotationIndex.toString());
-  await redisConnection.set(REDIS_KEY_LAST_ASSIGNED_PAGE, endPage.toString());
+  await redisConnection.set(REDIS_KEY_LAST_ASSIGNED_PAGE(next.queue), endPage.toString());
+  
+  // The first range of a sweep starts a new crawl run
+  if ([...lastAssignedPages.values()].every((page) => page === 0)) {
+    await startCrawlRun(sumTotalPages(totals), workerId, triggeredBy);
+  }
   
   logger.info({ 
     workerId, 
+    queue: next.queue,
     startPage, 
     endPage, 
     pages: endPage - startPage + 1,
     rotationIndex: rotationIndex + 1,
     nextWorker: activeWorkers[nextRotationIndex],
-    remainingPages: totalPages - endPage
+    remainingPages: next.totalPages - endPage
   }, "✅ Assigned batch to worker (round-robin rotation)");
 };
 
-// Original distribution: Assign all pages evenly at once
-const distributePagesEvenly = async (totalPages: number): Promise<void> => {
+// Original distribution: Assign all pages evenly at once - every worker gets a share of each queue
+const distributePagesEvenly = async (totals: QueueTotal[], triggeredBy: CrawlRunTrigger): Promise<void> => {
   const activeWorkers = await detectActiveGeneralWorkers();
   
   if (activeWorkers.length === 0) {
@@ -142,47 +262,57 @@ const distributePagesEvenly = async (totalPages: number): Promise<void> => {
     return;
   }
   
-  logger.info({ activeWorkers, count: activeWorkers.length, totalPages }, "Distributing pages evenly to all general workers");
+  logger.info({ activeWorkers, count: activeWorkers.length, queues: totals }, "Distributing pages evenly to all general workers");
   
-  // Distribute pages evenly among active general workers
-  const pagesPerWorker = Math.ceil(totalPages / activeWorkers.length);
+  // Distribute the pages of each queue evenly among active general workers
+  const workerRanges: PageRange[][] = activeWorkers.map(() => []);
+  for (const { queue, totalPages } of totals) {
+    const pagesPerWorker = Math.ceil(totalPages / activeWorkers.length);
+    for (let i = 0; i < activeWorkers.length; i++) {
+      const startPage = i * pagesPerWorker + 1;
+      const endPage = Math.min((i + 1) * pagesPerWorker, totalPages);
+      if (startPage <= endPage) {
+        workerRanges[i].push({ queue, start: startPage, end: endPage });
+      }
+    }
+  }
   
   for (let i = 0; i < activeWorkers.length; i++) {
     const workerId = activeWorkers[i];
-    const startPage = i * pagesPerWorker + 1;
-    const endPage = Math.min((i + 1) * pagesPerWorker, totalPages);
     
-    // Assign page range to this general worker
-    const pageRange = { start: startPage, end: endPage };
-    await redisConnection.set(REDIS_KEY_GENERAL_WORKER_PAGES(workerId), JSON.stringify(pageRange));
+    // Assign page ranges to this general worker
+    await redisConnection.set(REDIS_KEY_GENERAL_WORKER_PAGES(workerId), JSON.stringify(workerRanges[i]));
     await redisConnection.del(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId)); // Clear completion flag
     
-    logger.info({ workerId, startPage, endPage, pages: endPage - startPage + 1 }, "Assigned page range to general worker");
+    logger.info({ workerId, ranges: workerRanges[i] }, "Assigned page ranges to general worker");
   }
   
-  logger.info({ totalPages, activeWorkers, pagesPerWorker }, "✅ Pages distributed to all general workers");
+  logger.info({ totalPages: sumTotalPages(totals), activeWorkers }, "✅ Pages distributed to all general workers");
+  
+  // Every even distribution is a full sweep
+  await startCrawlRun(sumTotalPages(totals), activeWorkers[0], triggeredBy);
 };
 
-const distributePagesToGeneralWorkers = async (totalPages: number): Promise<void> => {
+const distributePagesToGeneralWorkers = async (totals: QueueTotal[], triggeredBy: CrawlRunTrigger): Promise<void> => {
   if (config.ENABLE_ROUND_ROBIN_ROTATION) {
-    await distributePagesRoundRobin(totalPages);
+    await distributePagesRoundRobin(totals, triggeredBy);
   } else {
-    await distributePagesEvenly(totalPages);
+    await distributePagesEvenly(totals, triggeredBy);
   }
 };
 
 const checkAndAssignWork = async (): Promise<void> => {
   try {
-    // Get total pages from Redis (discovered by general workers)
-    const totalPagesStr = await redisConnection.get(REDIS_KEY_TOTAL_PAGES);
-    if (!totalPagesStr) {
-      logger.info("Total pages not yet discovered. Waiting for general workers to discover pages...");
+    // Paused via the admin API - workers finish their current ranges, nothing new is assigned
+    if (await isCrawlPaused()) {
+      logger.debug("Crawl is paused. Skipping work assignment");
       return;
     }
     
-    const totalPages = parseInt(totalPagesStr, 10);
-    if (isNaN(totalPages) || totalPages <= 0) {
-      logger.warn({ totalPagesStr }, "Invalid total pages value");
+    // Get total pages of each queue from Redis (discovered by general workers)
+    const totals = await getQueueTotals();
+    if (totals.length === 0) {
+      logger.info("Total pages not yet discovered. Waiting for general workers to discover pages...");
       return;
     }
     
@@ -193,29 +323,21 @@ const checkAndAssignWork = async (): Promise<void> => {
       return;
     }
     
+    // Close the open crawl run first - the round-robin reset below clears the completion flags it relies on
+    await completeCrawlRunIfSweepFinished(totals, activeWorkers);
+    
     // Check if we need to assign work
     let needsAssignment = false;
+    let triggeredBy: CrawlRunTrigger = "schedule";
     
     if (config.ENABLE_ROUND_ROBIN_ROTATION) {
       // Round-robin mode: Check if any worker completed and there's more work
-      const lastAssignedPageStr = await redisConnection.get(REDIS_KEY_LAST_ASSIGNED_PAGE);
-      
-      // Parse and validate lastAssignedPage (similar to totalPages validation)
-      let lastAssignedPage = 0;
-      if (lastAssignedPageStr) {
-        const parsed = parseInt(lastAssignedPageStr, 10);
-        if (!isNaN(parsed) && parsed >= 0) {
-          lastAssignedPage = parsed;
-        } else {
-          logger.warn({ invalidValue: lastAssignedPageStr }, "Invalid last assigned page value, using 0");
-          lastAssignedPage = 0;
-        }
-      }
+      const morePages = await hasUnassignedPages(totals);
       
       // Check if any worker completed and we have more pages
       for (const workerId of activeWorkers) {
         const completeStr = await redisConnection.get(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId));
-        if (completeStr === "1" && lastAssignedPage < totalPages) {
+        if (completeStr === "1" && morePages) {
           needsAssignment = true;
           break;
         }
@@ -251,21 +373,40 @@ const checkAndAssignWork = async (): Promise<void> => {
         const completeStr = await redisConnection.get(REDIS_KEY_GENERAL_WORKER_COMPLETE(workerId));
         if (completeStr === "1") {
           // Worker completed, reassign if there's more work
-          const pagesStr2 = await redisConnection.get(REDIS_KEY_GENERAL_WORKER_PAGES(workerId));
-          if (pagesStr2) {
-            const range = JSON.parse(pagesStr2) as { start: number; end: number };
-            if (range.end < totalPages) {
-              needsAssignment = true;
-              break;
-            }
+          const ranges = parseGeneralWorkerPages(await redisConnection.get(REDIS_KEY_GENERAL_WORKER_PAGES(workerId))) ?? [];
+          const endsBeforeLastPage = ranges.some((range) =>
+            totals.some(({ queue, totalPages }) => queue === range.queue && range.end < totalPages)
+          );
+          if (endsBeforeLastPage) {
+            needsAssignment = true;
+            break;
           }
         }
       }
     }
     
+    // Admin trigger: start a new assignment round, but only once no worker is in the middle of its range
+    if (!needsAssignment && (await redisConnection.get(REDIS_KEY_MANAGER_TRIGGER)) === "1") {
+      let anyProcessing = false;
+      for (const workerId of activeWorkers) {
+        if ((await redisConnection.get(REDIS_KEY_GENERAL_WORKER_PROCESSING(workerId))) === "1") {
+          anyProcessing = true;
+          break;
+        }
+      }
+      if (anyProcessing) {
+        logger.debug("Manager trigger pending - waiting for workers to finish their current ranges");
+      } else {
+        logger.info("Manager trigger received - starting a new assignment round");
+        needsAssignment = true;
+        triggeredBy = "admin";
+      }
+    }
+    
     if (needsAssignment) {
-      logger.info({ totalPages, activeWorkers, roundRobin: config.ENABLE_ROUND_ROBIN_ROTATION }, "Assigning/reassigning pages to general workers");
-      await distributePagesToGeneralWorkers(totalPages);
+      logger.info({ queues: totals, activeWorkers, roundRobin: config.ENABLE_ROUND_ROBIN_ROTATION }, "Assigning/reassigning pages to general workers");
+      await distributePagesToGeneralWorkers(totals, triggeredBy);
+      await redisConnection.del(REDIS_KEY_MANAGER_TRIGGER);
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -378,6 +519,7 @@ const main = async (): Promise<void> => {
   logger.info("Standalone manager - detects active general workers and assigns page ranges to them");
   logger.info({ 
     redisUrl: config.REDIS_URL,
+    marketplace: config.MARKETPLACE,
     roundRobinRotation: config.ENABLE_ROUND_ROBIN_ROTATION,
     rotationBatchSize: config.ENABLE_ROUND_ROBIN_ROTATION ? config.ROTATION_BATCH_SIZE : "N/A"
   }, "Manager configuration");
@@ -425,6 +567,8 @@ const main = async (): Promise<void> => {
     }
   }
   
+  startMetricsServer("manager-worker");
+  
   // Track last successful refresh time to detect if lock was stolen
   // Use the actual lock value from Redis to ensure it matches what's stored
   let lastRefreshTime = ourLockValue ? parseInt(ourLockValue, 10) : Date.now();
@@ -1,14 +1,24 @@
 import { chromium, Browser, BrowserContext, Page } from "playwright";
 import {
   config,
+  currentMarketplace,
+  isVineUrl,
+  isMarketplaceUrl,
+  getVineQueuePageUrl,
+  getVineQueueFromUrl,
+  DEFAULT_VINE_QUEUE,
+  VineQueue,
+  getImageHostSuffixes,
+  parseMarketplacePrice,
   logger,
   createWorker,
   closeQueueResources,
   ProductJobData,
   upsertProduct,
+  upsertProductsBatch,
   recordCrawlEvent,
   getProductsByPage,
-  deleteProductsByPageNumber,
+  markProductsRemovedFromPage,
   redisConnection,
   REDIS_KEY_TOTAL_PAGES,
   REDIS_KEY_TOTAL_PRODUCTS,
@@ -19,11 +29,21 @@ import {
   REDIS_KEY_CURRENT_BATCH_END,
   REDIS_KEY_BATCH_COMPLETE,
   REDIS_KEY_WORKER_PAGES,
+  parseWorkerPageAssignments,
+  PageAssignment,
   REDIS_KEY_WORKER_COMPLETE,
   REDIS_KEY_WORKER_HEARTBEAT,
   REDIS_KEY_AMAZON_COOKIES,
   REDIS_KEY_AMAZON_SESSION_VALID,
   REDIS_KEY_WORKER_LOCK,
+  publishProductEvent,
+  pageProductsExtracted,
+  startMetricsServer,
+  invalidateProductResponseCache,
+  recordWatchMatches,
+  getActiveCrawlRun,
+  recordCrawlRunProgress,
+  ProductRecord,
 } from "shared";
 import { Job } from "bullmq";
 import { setTimeout as delay } from "node:timers/promises";
@@ -350,7 +370,7 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
   if (cookiesLoaded) {
     // Try navigating with shared cookies
     logger.info({ workerId }, "Using shared cookies, checking if session is valid...");
-    await page.goto(config.AMAZON_VINE_ENCORE_URL, { waitUntil: "domcontentloaded", timeout: 60000 });
+    await page.goto(currentMarketplace.encoreUrl, { waitUntil: "domcontentloaded", timeout: 60000 });
     await new Promise((resolve) => setTimeout(resolve, 3000));
     
     const signedIn = await isSignedIn(page);
@@ -365,7 +385,7 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
   
   // Check if we're already on an Amazon page and logged in
   const currentUrl = page.url();
-  if (currentUrl.includes("amazon.com") && !currentUrl.includes("/ap/signin") && !currentUrl.includes("/signin")) {
+  if (isMarketplaceUrl(currentMarketplace, currentUrl) && !currentUrl.includes("/ap/signin") && !currentUrl.includes("/signin")) {
     const signedIn = await isSignedIn(page);
     if (signedIn) {
       logger.info({ workerId }, "Already logged in on current page");
@@ -376,7 +396,7 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
   }
 
   // Navigate to encore queue page to check login status (same page we'll be crawling)
-  await page.goto(config.AMAZON_VINE_ENCORE_URL, { waitUntil: "domcontentloaded", timeout: 60000 });
+  await page.goto(currentMarketplace.encoreUrl, { waitUntil: "domcontentloaded", timeout: 60000 });
   await new Promise((resolve) => setTimeout(resolve, 3000));
 
   // Check if we were redirected to sign-in
@@ -398,13 +418,14 @@ const ensureLoggedIn = async (page: Page): Promise<void> => {
   await saveSharedCookies(targetContext);
 };
 
-const extractProductsFromPage = async (page: Page, pageNumber: number): Promise<any[]> => {
-  logger.info({ pageNumber }, "Extracting products from encore page");
+const extractProductsFromPage = async (page: Page, queue: VineQueue, pageNumber: number): Promise<ProductRecord[]> => {
+  logger.info({ queue, pageNumber }, "Extracting products from queue page");
   
   // Wait for page to load
   await delay(3000);
   
-  const products = await page.evaluate((pageNum) => {
+  // Prices come back as displayed and are parsed for the marketplace outside the browser
+  const extractedProducts = await page.evaluate(({ pageNum, imageHostSuffixes }) => {
     const extracted: any[] = [];
     
     // Try multiple selectors for products
@@ -422,8 +443,7 @@ const extractProductsFromPage = async (page: Page, pageNumber: number): Promise<
         let asin: string | null = null;
         let url: string | null = null;
         let title: string | null = null;
-        let priceCents: number | null = null;
-        let currencyCode: string | null = null;
+        let priceText: string | null = null;
         let rating: number | null = null;
         let ratingCount: number | null = null;
         let images: string[] = [];
@@ -471,16 +491,7 @@ const extractProductsFromPage = async (page: Page, pageNumber: number): Promise<
         // Extract price
         const priceElement = element.querySelector(".a-price .a-offscreen, .a-price-whole, [data-a-color='price']");
         if (priceElement) {
-          const priceText = priceElement.textContent?.trim() || priceElement.getAttribute("aria-label") || "";
-          const priceMatch = priceText.match(/([A-Z]{2,3})?\s*\$?([\d,]+(?:\.\d{1,2})?)/);
-          if (priceMatch) {
-            const [, currency, amount] = priceMatch;
-            const numeric = Number(amount.replace(/,/g, ""));
-            if (!isNaN(numeric)) {
-              priceCents = Math.round(numeric * 100);
-              currencyCode = currency || "USD";
-            }
-          }
+          priceText = priceElement.textContent?.trim() || priceElement.getAttribute("aria-label") || null;
         }
         
         // Extract rating
@@ -507,7 +518,7 @@ const extractProductsFromPage = async (page: Page, pageNumber: number): Promise<
         const imageElements = element.querySelectorAll<HTMLImageElement>("img[src], img[data-src]");
         imageElements.forEach((img) => {
           const imgSrc = img.getAttribute("src") || img.getAttribute("data-src");
-          if (imgSrc && imgSrc.includes("amazon.com") && !imgSrc.includes("pixel")) {
+          if (imgSrc && imageHostSuffixes.some((suffix) => imgSrc.includes(suffix)) && !imgSrc.includes("pixel")) {
             try {
               const imgUrl = new URL(imgSrc, window.location.origin);
               if (!images.includes(imgUrl.toString())) {
@@ -523,8 +534,7 @@ const extractProductsFromPage = async (page: Page, pageNumber: number): Promise<
             url,
             title: title || "Unknown Product",
             pageNumber: pageNum,
-            priceCents,
-            currencyCode,
+            priceText,
             rating,
             ratingCount,
             images,
@@ -534,13 +544,21 @@ const extractProductsFromPage = async (page: Page, pageNumber: number): Promise<
     }
     
     return extracted;
-  }, pageNumber);
+  }, { pageNum: pageNumber, imageHostSuffixes: getImageHostSuffixes(currentMarketplace) });
+  
+  const products: ProductRecord[] = extractedProducts.map(({ priceText, ...product }) => ({
+    marketplace: config.MARKETPLACE,
+    queue,
+    ...product,
+    ...parseMarketplacePrice(currentMarketplace, priceText),
+  }));
   
-  logger.info({ pageNumber, productsFound: products.length }, "Extracted products from encore page");
+  logger.info({ queue, pageNumber, productsFound: products.length }, "Extracted products from queue page");
+  pageProductsExtracted.observe(products.length);
   return products;
 };
 
-const extractProduct = async (page: Page, url: string, pageNumber: number): Promise<any> => {
+const extractProduct = async (page: Page, url: string, queue: VineQueue, pageNumber: number): Promise<ProductRecord> => {
   // Get title - prefer visible span over hidden input
   const titleElement = page.locator("#productTitle").first();
   const title = await titleElement.textContent();
@@ -594,34 +612,14 @@ const extractProduct = async (page: Page, url: string, pageNumber: number): Prom
     throw new Error("Unable to extract essential product fields");
   }
 
-  const parsePrice = (rawPrice?: string | null): { priceCents: number | null; currencyCode: string | null } => {
-    if (!rawPrice) {
-      return { priceCents: null, currencyCode: null };
-    }
-
-    const match = rawPrice.match(/([A-Z]{2,3})?\s*\$?([\d,]+(?:\.\d{1,2})?)/);
-    if (!match) {
-      return { priceCents: null, currencyCode: null };
-    }
-
-    const [, currency, amount] = match;
-    const numeric = Number(amount.replace(/,/g, ""));
-    if (Number.isNaN(numeric)) {
-      return { priceCents: null, currencyCode: currency ?? null };
-    }
-
-    return {
-      priceCents: Math.round(numeric * 100),
-      currencyCode: currency ?? "USD",
-    };
-  };
-
-  const { priceCents, currencyCode } = parsePrice(priceText?.trim());
+  const { priceCents, currencyCode } = parseMarketplacePrice(currentMarketplace, priceText?.trim());
   const ratingCount = ratingsText ? Number(ratingsText.replace(/[^\d]/g, "")) : null;
   const rating = ratingValue ? Number(ratingValue.replace(/[^\d.]/g, "")) : null;
 
   return {
+    marketplace: config.MARKETPLACE,
     asin: asin.trim(),
+    queue,
     url,
     title: finalTitle.trim(),
     pageNumber,
@@ -633,14 +631,28 @@ const extractProduct = async (page: Page, url: string, pageNumber: number): Prom
   };
 };
 
+// Watchlist matching must never fail the store of a product, so errors are only logged
+const evaluateWatchlists = async (product: ProductRecord): Promise<void> => {
+  try {
+    const matches = await recordWatchMatches(product);
+    for (const match of matches) {
+      logger.info({ watchlistId: match.watchlistId, asin: match.asin, title: match.title, priceCents: match.priceCents }, "Watchlist match");
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMsg, asin: product.asin }, "Failed to evaluate watchlists for product");
+  }
+};
+
 const crawlProduct = async (job: Job<ProductJobData>): Promise<void> => {
-  const { url, pageNumber, asin } = job.data;
+  const { url, pageNumber, asin, queue = DEFAULT_VINE_QUEUE } = job.data;
   const jobId = job.id;
   const tabId = asin || `tab-${jobId}`;
 
   logger.info({ jobId, url, pageNumber, asin }, "Processing product job");
 
   let page: Page | null = null;
+  const crawlRunId = (await getActiveCrawlRun(config.MARKETPLACE))?.id ?? null;
 
   try {
     // Get or create a page for this product (VNC browser tab)
@@ -653,17 +665,21 @@ const crawlProduct = async (job: Job<ProductJobData>): Promise<void> => {
     await page.goto(url, { waitUntil: "networkidle", timeout: 60000 });
 
     // Extract product data
-    const product = await extractProduct(page, url, pageNumber);
+    const product = await extractProduct(page, url, queue, pageNumber);
 
     // Store in database
-    await upsertProduct(product);
+    await upsertProduct(product, { source: "product", workerId: config.PRODUCT_WORKER_ID ?? null });
+    await invalidateProductResponseCache();
 
     // Record success
     await recordCrawlEvent(
       {
+        marketplace: product.marketplace,
         asin: product.asin,
+        queue: product.queue,
         url: product.url,
         pageNumber: product.pageNumber,
+        crawlRunId,
       },
       "success"
     );
@@ -676,9 +692,12 @@ const crawlProduct = async (job: Job<ProductJobData>): Promise<void> => {
     // Record failure
     await recordCrawlEvent(
       {
+        marketplace: config.MARKETPLACE,
         asin: asin || null,
+        queue,
         url,
         pageNumber,
+        crawlRunId,
       },
       "failed",
       errorMsg
@@ -720,9 +739,9 @@ const calculatePageRangeForBatch = (batchStart: number, batchEnd: number): { sta
 
 // 503 error handling removed - product workers don't need to handle 503 errors
 
-const findTabByPageNumber = async (targetContext: BrowserContext, pageNum: number): Promise<Page | null> => {
+const findTabByPageNumber = async (targetContext: BrowserContext, queue: VineQueue, pageNum: number): Promise<Page | null> => {
   try {
-    const encoreUrl = `${config.AMAZON_VINE_ENCORE_URL}&page=${pageNum}`;
+    const queuePageUrl = getVineQueuePageUrl(currentMarketplace, queue, pageNum);
     const expectedUrlPattern = `page=${pageNum}`;
     
     // Get all pages in the context
@@ -734,7 +753,7 @@ const findTabByPageNumber = async (targetContext: BrowserContext, pageNum: numbe
       
       try {
         const url = page.url();
-        if (url.includes(expectedUrlPattern) || url === encoreUrl) {
+        if ((getVineQueueFromUrl(url) === queue && url.includes(expectedUrlPattern)) || url === queuePageUrl) {
           // Verify the page is still valid
           if (!page.isClosed()) {
             return page;
@@ -753,6 +772,9 @@ const findTabByPageNumber = async (targetContext: BrowserContext, pageNum: numbe
   }
 };
 
+// Order-insensitive identity of an assignment list, for spotting reassignments
+const assignmentKeys = (pages: PageAssignment[]): string[] => pages.map(({ queue, page }) => `${queue}:${page}`).sort();
+
 const crawlAllPages = async (): Promise<void> => {
   try {
     const workerId = config.PRODUCT_WORKER_ID || 1;
@@ -776,42 +798,43 @@ const crawlAllPages = async (): Promise<void> => {
       logger.info("Tabs are ready! Using existing tabs opened by general worker.");
     }
     
-    // Get total pages from Redis (dynamically discovered by general worker)
-    const totalPagesStr = await redisConnection.get(REDIS_KEY_TOTAL_PAGES);
-    if (!totalPagesStr) {
-      logger.warn("Total pages not found in Redis. Waiting for general worker to discover pages...");
-      return;
-    }
-    
-    const totalPages = parseInt(totalPagesStr, 10);
-    if (isNaN(totalPages) || totalPages <= 0) {
-      logger.error({ totalPagesStr }, "Invalid total pages value from Redis");
-      return;
-    }
-    
-    // Get pages assigned to this worker by general worker
-    const pagesStr = await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId));
+    // Get pages assigned to this worker by general worker - each page carries the Vine queue it belongs to
+    let pagesToProcess = parseWorkerPageAssignments(await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId)));
     
-    if (!pagesStr) {
+    if (!pagesToProcess) {
       logger.info({ workerId }, "No pages assigned yet. Waiting for general worker to assign pages...");
       return;
     }
     
-    let pagesToProcess = JSON.parse(pagesStr) as number[];
-    
     if (pagesToProcess.length === 0) {
       logger.info({ workerId }, "No pages assigned to this worker. Waiting for assignment...");
       return;
     }
     
-    // Also get total products for logging
-    const totalProductsStr = await redisConnection.get(REDIS_KEY_TOTAL_PRODUCTS);
-    const totalProducts = totalProductsStr ? parseInt(totalProductsStr, 10) : null;
+    // Get total pages of every assigned queue from Redis (dynamically discovered by general worker)
+    const queues = [...new Set(pagesToProcess.map(({ queue }) => queue))];
+    const queueTotals: Array<{ queue: VineQueue; totalPages: number; totalProducts: number | null }> = [];
+    for (const queue of queues) {
+      const totalPagesStr = await redisConnection.get(REDIS_KEY_TOTAL_PAGES(queue));
+      if (!totalPagesStr) {
+        logger.warn({ queue }, "Total pages not found in Redis. Waiting for general worker to discover pages...");
+        return;
+      }
+      
+      const totalPages = parseInt(totalPagesStr, 10);
+      if (isNaN(totalPages) || totalPages <= 0) {
+        logger.error({ queue, totalPagesStr }, "Invalid total pages value from Redis");
+        return;
+      }
+      
+      // Also get total products for logging
+      const totalProductsStr = await redisConnection.get(REDIS_KEY_TOTAL_PRODUCTS(queue));
+      queueTotals.push({ queue, totalPages, totalProducts: totalProductsStr ? parseInt(totalProductsStr, 10) : null });
+    }
     
     logger.info({ 
       workerId,
-      totalPages, 
-      totalProducts,
+      queues: queueTotals,
       pagesToProcess: pagesToProcess.length,
       pages: pagesToProcess.slice(0, 10),
       note: "Processing pages assigned by general worker" 
@@ -824,7 +847,7 @@ const crawlAllPages = async (): Promise<void> => {
     const browserInstance = await getBrowser();
     let targetContext: BrowserContext | null = null;
     
-    // First, try to find General Worker's context by looking for pages with encore URLs
+    // First, try to find General Worker's context by looking for pages with Vine queue URLs
     // Check all contexts to find the one with General Worker's tabs
     const allContexts = browserInstance.contexts();
     logger.info({ contextsCount: allContexts.length }, "Checking all browser contexts for General Worker's tabs...");
@@ -832,20 +855,20 @@ const crawlAllPages = async (): Promise<void> => {
     for (const ctx of allContexts) {
       try {
         const pages = ctx.pages();
-        // Check if this context has any pages with encore URLs (opened by General Worker)
-        const hasEncorePages = pages.some(page => {
+        // Check if this context has any pages with Vine queue URLs (opened by General Worker)
+        const hasQueuePages = pages.some(page => {
           try {
             if (page.isClosed()) return false;
             const url = page.url();
-            return url.includes("queue=encore") || url.includes("amazon.com/vine");
+            return isVineUrl(currentMarketplace, url);
           } catch {
             return false;
           }
         });
         
-        if (hasEncorePages) {
+        if (hasQueuePages) {
           targetContext = ctx;
-          logger.info({ contextPages: pages.length }, "✅ Found General Worker's context with encore pages!");
+          logger.info({ contextPages: pages.length }, "✅ Found General Worker's context with queue pages!");
           break;
         }
       } catch (error) {
@@ -878,12 +901,11 @@ const crawlAllPages = async (): Promise<void> => {
     // Process pages sequentially - check for new assignments periodically
     while (pagesToProcess.length > 0) {
       // Check for reassignments from general worker (dynamic load balancing)
-      const updatedPagesStr = await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId));
-      if (updatedPagesStr) {
-        const updatedPages = JSON.parse(updatedPagesStr) as number[];
+      const updatedPages = parseWorkerPageAssignments(await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId)));
+      if (updatedPages) {
         // Update our list with any new pages (general worker may have reassigned)
         if (updatedPages.length !== pagesToProcess.length || 
-            JSON.stringify(updatedPages.sort()) !== JSON.stringify(pagesToProcess.sort())) {
+            JSON.stringify(assignmentKeys(updatedPages)) !== JSON.stringify(assignmentKeys(pagesToProcess))) {
           logger.info({ workerId, oldCount: pagesToProcess.length, newCount: updatedPages.length }, "Pages reassigned - updating work list");
           pagesToProcess = updatedPages;
         }
@@ -893,30 +915,33 @@ const crawlAllPages = async (): Promise<void> => {
         break; // No more pages to process
       }
       
-      // Get next page to process
-      const pageNum = pagesToProcess[0];
+      // Get next page to process, with the queue it was assigned from
+      const { queue, page: pageNum } = pagesToProcess[0];
       let retryCount = 0;
       const maxRetries = 3;
       
       while (retryCount <= maxRetries) {
         try {
           // Find existing tab for this page number
-          const tab = await findTabByPageNumber(targetContext, pageNum);
+          const tab = await findTabByPageNumber(targetContext, queue, pageNum);
           
           if (!tab || tab.isClosed()) {
-            logger.warn({ pageNum }, "Tab not found or closed for this page, skipping...");
+            logger.warn({ queue, pageNum }, "Tab not found or closed for this page, skipping...");
             break;
           }
           
           logger.info({ pageNum, url: tab.url() }, "Found existing tab, extracting products...");
           
           // Extract all products from this page
-          const products = await extractProductsFromPage(tab, pageNum);
+          const products = await extractProductsFromPage(tab, queue, pageNum);
         
         logger.info({ pageNum, productsFound: products.length }, "Extracted products from page");
         
-        // Get existing products for this page number
-        const existingProducts = await getProductsByPage(pageNum);
+        // Counts and crawl events of this page go to the sweep the manager has open
+        const crawlRunId = (await getActiveCrawlRun(config.MARKETPLACE))?.id ?? null;
+        
+        // Get existing products for this page of the queue
+        const existingProducts = await getProductsByPage(config.MARKETPLACE, queue, pageNum);
         const existingAsins = new Set(existingProducts.map(p => p.asin));
         const newAsins = new Set(products.map(p => p.asin));
         
@@ -925,71 +950,74 @@ const crawlAllPages = async (): Promise<void> => {
           existingAsins.size !== newAsins.size ||
           !Array.from(newAsins).every(asin => existingAsins.has(asin));
         
+        let removedCount = 0;
         if (asinsChanged) {
           logger.info({ 
             pageNum, 
             existingCount: existingAsins.size, 
             newCount: newAsins.size
-          }, "Products changed for this page - deleting old products");
+          }, "Products changed for this page - marking missing products as removed");
+          
+          // Products that left this page keep their row with removedAt set (and get a product.removed webhook)
+          removedCount = await markProductsRemovedFromPage(config.MARKETPLACE, queue, pageNum, newAsins);
+          logger.info({ pageNum, removedCount }, "Marked products removed for page");
           
-          // Delete old products for this page
-          const deletedCount = await deleteProductsByPageNumber(pageNum);
-          logger.info({ pageNum, deletedCount }, "Deleted old products for page");
+          // Notify stream subscribers about products that left this page
+          for (const asin of existingAsins) {
+            if (!newAsins.has(asin)) {
+              await publishProductEvent("product.removed", { marketplace: config.MARKETPLACE, asin, pageNumber: pageNum });
+            }
+          }
         } else {
-          logger.info({ pageNum }, "Products unchanged for this page - skipping deletion");
+          logger.info({ pageNum }, "Products unchanged for this page - nothing to mark removed");
         }
         
-        // Store all new products directly from encore page
-        logger.info({ pageNum, totalProducts: products.length }, "Storing products from encore page");
-        for (let productIndex = 0; productIndex < products.length; productIndex++) {
-          const product = products[productIndex];
-          try {
-            // Store in database (product data already extracted from encore page)
-            await upsertProduct(product);
-            
-            // Record success
-            await recordCrawlEvent(
-              {
-                asin: product.asin,
-                url: product.url,
-                pageNumber: product.pageNumber,
-              },
-              "success"
-            );
-            
-            totalProductsCrawled++;
-            
-            // Log every 10 products to avoid too much logging
-            if (productIndex % 10 === 0 || productIndex === products.length - 1) {
-              logger.info({ 
-                pageNum, 
-                productIndex: productIndex + 1, 
-                totalProducts: products.length,
-                totalCrawled: totalProductsCrawled 
-              }, "Storing products...");
-            }
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            logger.error({ 
-              error: errorMsg,
-              pageNum, 
+        // Store all new products directly from the queue page in one bulk upsert. This also bumps lastSeenAt/timesSeen,
+        // records a crawl event per product, and gives new and re-listed products a product.added webhook outbox event
+        logger.info({ queue, pageNum, totalProducts: products.length }, "Storing products from queue page");
+        const stored = await upsertProductsBatch(products, {
+          source: "page",
+          workerId,
+          recordAdded: true,
+          recordCrawlEvents: true,
+          crawlRunId,
+        });
+        for (const { product, result } of stored.stored) {
+          const changeType = result === "created" ? "product.added" : result === "updated" ? "product.updated" : null;
+          if (changeType) {
+            await publishProductEvent(changeType, {
+              marketplace: product.marketplace,
               asin: product.asin,
-              url: product.url 
-            }, "Failed to store product - continuing with next product");
-            
-            // Record failure
-            await recordCrawlEvent(
-              {
-                asin: product.asin,
-                url: product.url,
-                pageNumber: product.pageNumber,
-              },
-              "failed",
-              errorMsg
-            );
+              pageNumber: product.pageNumber,
+              product
+            });
           }
+          await evaluateWatchlists(product);
+        }
+        totalProductsCrawled += stored.stored.length;
+        
+        logger.info({ 
+          pageNum, 
+          created: stored.created, 
+          updated: stored.updated, 
+          unchanged: stored.unchanged, 
+          failed: stored.failed,
+          totalCrawled: totalProductsCrawled 
+        }, "Stored products from queue page");
+        
+        if (crawlRunId !== null) {
+          await recordCrawlRunProgress(crawlRunId, {
+            pagesCrawled: 1,
+            productsAdded: stored.created,
+            productsUpdated: stored.updated,
+            productsRemoved: removedCount,
+            failures: stored.failed,
+          });
         }
         
+          // Cached API responses may now be stale
+          await invalidateProductResponseCache();
+          
           logger.info({ pageNum, productsFound: products.length, totalCrawled: totalProductsCrawled }, "Completed crawling page");
           
           // Remove this page from assigned list and update Redis
@@ -1010,6 +1038,10 @@ const crawlAllPages = async (): Promise<void> => {
             continue;
           } else {
             logger.error({ error: errorMsg, pageNum }, "Failed to process page after retries");
+            const crawlRun = await getActiveCrawlRun(config.MARKETPLACE).catch(() => null);
+            if (crawlRun) {
+              await recordCrawlRunProgress(crawlRun.id, { failures: 1 }).catch(() => {});
+            }
             break;
           }
         }
@@ -1041,10 +1073,9 @@ const checkAndCrawlIfNeeded = async (): Promise<void> => {
     const workerId = config.PRODUCT_WORKER_ID || 1;
     
     // Check for assigned pages directly (not just trigger)
-    const pagesStr = await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId));
+    const pages = parseWorkerPageAssignments(await redisConnection.get(REDIS_KEY_WORKER_PAGES(workerId)));
     
-    if (pagesStr) {
-      const pages = JSON.parse(pagesStr) as number[];
+    if (pages) {
       if (pages.length > 0) {
         logger.info({ workerId, pagesCount: pages.length }, "Found assigned pages - starting crawl process");
         await crawlAllPages();
@@ -1181,6 +1212,8 @@ const main = async (): Promise<void> => {
     process.exit(1);
   }
   
+  startMetricsServer("product-worker");
+  
   // Store the lock value we acquired for verification during refresh
   let ourLockValue = duplicateCheck.lockValue;
   
@@ -1348,7 +1381,7 @@ const main = async (): Promise<void> => {
     setTimeout(pollForWork, 1000); // Start after 1 second
     logger.info({ interval: POLL_INTERVAL, heartbeatInterval: HEARTBEAT_INTERVAL, workerId }, "Started continuous polling for assigned pages");
 
-    // NOTE: Legacy job worker disabled - we now extract directly from encore page listings
+    // NOTE: Legacy job worker disabled - we now extract directly from queue page listings
     // without navigating to individual product detail pages
     // const worker = createWorker(crawlProduct);
     // worker.on("completed", (job) => {
@@ -1358,7 +1391,7 @@ const main = async (): Promise<void> => {
     //   logger.error({ jobId: job?.id, error: err.message }, "Legacy job failed");
     // });
     
-    logger.info("Product worker ready - will extract from encore page listings only (no product detail page navigation)");
+    logger.info("Product worker ready - will extract from queue page listings only (no product detail page navigation)");
 
     const shutdown = async (): Promise<void> => {
       logger.info("Product worker shutting down");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE FULLTEXT INDEX `products_title_description_brand_idx` ON `products`(`title`, `description`, `brand`);
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `product_tombstones` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `asin` VARCHAR(10) NOT NULL,
+    `page_number` INTEGER NOT NULL,
+    `removed_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+
+    INDEX `product_tombstones_asin_idx`(`asin`),
+    INDEX `product_tombstones_removed_at_idx`(`removed_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
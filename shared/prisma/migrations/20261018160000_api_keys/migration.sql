@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `api_keys` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(100) NOT NULL,
+    `key_prefix` VARCHAR(16) NOT NULL,
+    `key_hash` VARCHAR(64) NOT NULL,
+    `scopes` JSON NOT NULL,
+    `rate_limit_per_minute` INTEGER NULL,
+    `expires_at` DATETIME(6) NULL,
+    `revoked_at` DATETIME(6) NULL,
+    `last_used_at` DATETIME(6) NULL,
+    `created_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+
+    UNIQUE INDEX `api_keys_key_hash_key`(`key_hash`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE `admin_audit_log` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `action` VARCHAR(50) NOT NULL,
+    `api_key_id` INTEGER NULL,
+    `api_key_name` VARCHAR(100) NULL,
+    `params` JSON NULL,
+    `result` JSON NULL,
+    `created_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+
+    INDEX `admin_audit_log_action_idx`(`action`),
+    INDEX `admin_audit_log_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
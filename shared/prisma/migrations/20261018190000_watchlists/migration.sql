@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE `watchlists` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(100) NOT NULL,
+    `include_keywords` JSON NOT NULL,
+    `exclude_keywords` JSON NOT NULL,
+    `pattern` VARCHAR(200) NULL,
+    `fields` JSON NOT NULL,
+    `min_price` INTEGER NULL,
+    `max_price` INTEGER NULL,
+    `min_rating` DECIMAL(3, 2) NULL,
+    `min_rating_count` INTEGER NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+    `updated_at` DATETIME(6) NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `watch_matches` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `watchlist_id` INTEGER NOT NULL,
+    `asin` VARCHAR(10) NOT NULL,
+    `title` TEXT NOT NULL,
+    `price_cents` INTEGER NULL,
+    `matched_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+
+    INDEX `watch_matches_matched_at_idx`(`matched_at`),
+    UNIQUE INDEX `watch_matches_watchlist_id_asin_key`(`watchlist_id`, `asin`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `watch_matches` ADD CONSTRAINT `watch_matches_watchlist_id_fkey` FOREIGN KEY (`watchlist_id`) REFERENCES `watchlists`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE `webhook_subscriptions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(100) NOT NULL,
+    `url` TEXT NOT NULL,
+    `secret` VARCHAR(100) NOT NULL,
+    `events` JSON NOT NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+    `updated_at` DATETIME(6) NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `webhook_outbox` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `event_type` VARCHAR(50) NOT NULL,
+    `asin` VARCHAR(10) NOT NULL,
+    `page_number` INTEGER NOT NULL,
+    `payload` JSON NOT NULL,
+    `created_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+    `dispatched_at` DATETIME(6) NULL,
+
+    INDEX `webhook_outbox_dispatched_at_idx`(`dispatched_at`),
+    INDEX `webhook_outbox_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `webhook_deliveries` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `outbox_id` INTEGER NOT NULL,
+    `subscription_id` INTEGER NOT NULL,
+    `event_type` VARCHAR(50) NOT NULL,
+    `status` VARCHAR(20) NOT NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `response_status` INTEGER NULL,
+    `last_error` TEXT NULL,
+    `delivered_at` DATETIME(6) NULL,
+    `created_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+    `updated_at` DATETIME(6) NOT NULL,
+
+    INDEX `webhook_deliveries_subscription_id_idx`(`subscription_id`),
+    INDEX `webhook_deliveries_status_idx`(`status`),
+    INDEX `webhook_deliveries_created_at_idx`(`created_at`),
+    UNIQUE INDEX `webhook_deliveries_outbox_id_subscription_id_key`(`outbox_id`, `subscription_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `webhook_deliveries` ADD CONSTRAINT `webhook_deliveries_outbox_id_fkey` FOREIGN KEY (`outbox_id`) REFERENCES `webhook_outbox`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `webhook_deliveries` ADD CONSTRAINT `webhook_deliveries_subscription_id_fkey` FOREIGN KEY (`subscription_id`) REFERENCES `webhook_subscriptions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
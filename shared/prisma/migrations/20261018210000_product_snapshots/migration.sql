@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `product_snapshots` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `asin` VARCHAR(10) NOT NULL,
+    `changed_fields` JSON NOT NULL,
+    `title` TEXT NOT NULL,
+    `price_cents` INTEGER NULL,
+    `currency_code` VARCHAR(3) NULL,
+    `rating` DECIMAL(3, 2) NULL,
+    `rating_count` INTEGER NULL,
+    `availability` VARCHAR(100) NULL,
+    `page_number` INTEGER NOT NULL,
+    `source` VARCHAR(20) NOT NULL,
+    `worker_id` INTEGER NULL,
+    `captured_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+
+    INDEX `product_snapshots_asin_id_idx`(`asin`, `id`),
+    INDEX `product_snapshots_captured_at_idx`(`captured_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE `products` ADD COLUMN `first_seen_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+    ADD COLUMN `last_seen_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+    ADD COLUMN `removed_at` DATETIME(6) NULL,
+    ADD COLUMN `times_seen` INTEGER NOT NULL DEFAULT 1;
+
+-- Backfill: existing rows were first stored at created_at and last written at updated_at
+UPDATE `products` SET `first_seen_at` = `created_at`, `last_seen_at` = `updated_at`;
+
+-- CreateIndex
+CREATE INDEX `products_removed_at_idx` ON `products`(`removed_at`);
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE `product_crawl_events` ADD COLUMN `crawl_run_id` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `crawl_runs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'running',
+    `triggered_by` VARCHAR(20) NOT NULL,
+    `worker_id` INTEGER NULL,
+    `total_pages` INTEGER NOT NULL DEFAULT 0,
+    `total_products` INTEGER NOT NULL DEFAULT 0,
+    `pages_crawled` INTEGER NOT NULL DEFAULT 0,
+    `products_added` INTEGER NOT NULL DEFAULT 0,
+    `products_updated` INTEGER NOT NULL DEFAULT 0,
+    `products_removed` INTEGER NOT NULL DEFAULT 0,
+    `failures` INTEGER NOT NULL DEFAULT 0,
+    `started_at` DATETIME(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+    `finished_at` DATETIME(6) NULL,
+
+    INDEX `crawl_runs_status_idx`(`status`),
+    INDEX `crawl_runs_started_at_idx`(`started_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `product_crawl_events_crawl_run_id_idx` ON `product_crawl_events`(`crawl_run_id`);
+
+-- AddForeignKey
+ALTER TABLE `product_crawl_events` ADD CONSTRAINT `product_crawl_events_crawl_run_id_fkey` FOREIGN KEY (`crawl_run_id`) REFERENCES `crawl_runs`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- DropForeignKey
+ALTER TABLE `product_crawl_events` DROP FOREIGN KEY `product_crawl_events_asin_fkey`;
+
+-- DropIndex
+DROP INDEX `product_crawl_events_asin_idx` ON `product_crawl_events`;
+
+-- DropIndex
+DROP INDEX `products_page_number_idx` ON `products`;
+
+-- DropIndex
+DROP INDEX `product_snapshots_asin_id_idx` ON `product_snapshots`;
+
+-- DropIndex
+DROP INDEX `crawl_runs_status_idx` ON `crawl_runs`;
+
+-- AlterTable
+ALTER TABLE `products` DROP PRIMARY KEY,
+    ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us',
+    ADD PRIMARY KEY (`marketplace`, `asin`);
+
+-- AlterTable
+ALTER TABLE `product_crawl_events` ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us';
+
+-- AlterTable
+ALTER TABLE `product_tombstones` ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us';
+
+-- AlterTable
+ALTER TABLE `product_snapshots` ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us';
+
+-- AlterTable
+ALTER TABLE `watch_matches` ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us';
+
+-- AlterTable
+ALTER TABLE `webhook_outbox` ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us';
+
+-- AlterTable
+ALTER TABLE `crawl_metadata` ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us';
+
+-- AlterTable
+ALTER TABLE `crawl_runs` ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us';
+
+-- CreateIndex
+CREATE INDEX `products_marketplace_page_number_idx` ON `products`(`marketplace`, `page_number`);
+
+-- CreateIndex
+CREATE INDEX `product_crawl_events_marketplace_asin_idx` ON `product_crawl_events`(`marketplace`, `asin`);
+
+-- CreateIndex
+CREATE INDEX `product_snapshots_marketplace_asin_id_idx` ON `product_snapshots`(`marketplace`, `asin`, `id`);
+
+-- CreateIndex
+CREATE UNIQUE INDEX `watch_matches_watchlist_id_marketplace_asin_key` ON `watch_matches`(`watchlist_id`, `marketplace`, `asin`);
+
+-- DropIndex
+DROP INDEX `watch_matches_watchlist_id_asin_key` ON `watch_matches`;
+
+-- CreateIndex
+CREATE INDEX `crawl_metadata_marketplace_idx` ON `crawl_metadata`(`marketplace`);
+
+-- CreateIndex
+CREATE INDEX `crawl_runs_marketplace_status_idx` ON `crawl_runs`(`marketplace`, `status`);
+
+-- AddForeignKey
+ALTER TABLE `product_crawl_events` ADD CONSTRAINT `product_crawl_events_marketplace_asin_fkey` FOREIGN KEY (`marketplace`, `asin`) REFERENCES `products`(`marketplace`, `asin`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX `products_marketplace_page_number_idx` ON `products`;
+
+-- DropIndex
+DROP INDEX `product_crawl_events_page_number_idx` ON `product_crawl_events`;
+
+-- AlterTable
+ALTER TABLE `products` ADD COLUMN `queue` VARCHAR(20) NOT NULL DEFAULT 'encore';
+
+-- AlterTable
+ALTER TABLE `product_crawl_events` ADD COLUMN `queue` VARCHAR(20) NOT NULL DEFAULT 'encore';
+
+-- CreateIndex
+CREATE INDEX `products_marketplace_queue_page_number_idx` ON `products`(`marketplace`, `queue`, `page_number`);
+
+-- CreateIndex
+CREATE INDEX `product_crawl_events_queue_page_number_idx` ON `product_crawl_events`(`queue`, `page_number`);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `watchlists` ADD COLUMN `marketplace` VARCHAR(5) NOT NULL DEFAULT 'us';
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import dotenv from "dotenv";
 import { existsSync } from "fs";
+import { MARKETPLACES, MARKETPLACE_IDS, DEFAULT_MARKETPLACE, VINE_QUEUE_IDS, type Marketplace } from "./marketplaces.js";
 
 // Load .env.local first, then fall back to .env
 if (existsSync(".env.local")) {
@@ -20,11 +21,18 @@ const configSchema = z.object({
   // Amazon credentials (required)
   AMAZON_EMAIL: z.string().email(),
   AMAZON_PASSWORD: z.string().min(1),
-  AMAZON_VINE_BASE_URL: z.string().url().default("https://www.amazon.com/vine"),
-  AMAZON_VINE_ENCORE_URL: z
+  MARKETPLACE: z
+    .enum(MARKETPLACE_IDS)
+    .default(DEFAULT_MARKETPLACE)
+    .describe("Marketplace this process crawls; also the default for single-product API lookups"),
+  VINE_QUEUES: z
     .string()
-    .url()
-    .default("https://www.amazon.com/vine/vine-items?queue=encore"),
+    .default(VINE_QUEUE_IDS.join(","))
+    .transform((value) => [...new Set(value.split(",").map((queue) => queue.trim()).filter((queue) => queue.length > 0))])
+    .pipe(z.array(z.enum(VINE_QUEUE_IDS)).min(1))
+    .describe("Comma-separated Vine queues to crawl (potluck, last_chance, encore), in sweep order"),
+  AMAZON_VINE_BASE_URL: z.string().url().optional().describe("Overrides the marketplace's Vine URL"),
+  AMAZON_VINE_ENCORE_URL: z.string().url().optional().describe("Overrides the marketplace's encore queue URL"),
   AMAZON_VINE_SIGNIN_URL: z.string().url(),
 
   // Playwright configuration
@@ -39,6 +47,81 @@ const configSchema = z.object({
 
   // API configuration
   API_PORT: z.coerce.number().int().positive().default(3000),
+  API_AUTH_ENABLED: z
+    .string()
+    .transform((value) => value.toLowerCase() === "true" || value === "1")
+    .or(z.boolean())
+    .default(false)
+    .describe("Require an API key (X-API-Key or Authorization: Bearer) on /api, /feeds and /graphql routes"),
+  API_RATE_LIMIT_PER_MINUTE: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(120)
+    .describe("Default requests per minute per API key (overridable per key)"),
+  API_CORS_ORIGINS: z
+    .string()
+    .default("")
+    .transform((value) => value.split(",").map((origin) => origin.trim()).filter((origin) => origin.length > 0))
+    .describe("Comma-separated list of allowed CORS origins (e.g. chrome-extension://<id>), or * for any origin"),
+  API_CACHE_TTL_SECONDS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(300)
+    .describe("How long product responses stay in the Redis response cache (0 disables it). Product writes invalidate it sooner"),
+  PRODUCT_EVENTS_MAX_LENGTH: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(10_000)
+    .describe("Approximate number of product events kept in Redis for SSE resume (Last-Event-ID)"),
+  HEALTH_CHECK_TIMEOUT_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(2_000)
+    .describe("Timeout for each dependency check in /health/ready"),
+  HEALTH_CRAWL_STALE_AFTER_MINUTES: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(180)
+    .describe("/health/ready reports a warning when the last successful crawl event is older than this"),
+
+  // Webhooks
+  WEBHOOK_QUEUE_NAME: z.string().default("vine-webhooks"),
+  WEBHOOK_DELIVERY_ENABLED: z
+    .string()
+    .transform((value) => value.toLowerCase() === "true" || value === "1")
+    .or(z.boolean())
+    .default(true)
+    .describe("Run the webhook dispatcher and delivery worker in this API instance"),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(8)
+    .describe("Delivery attempts before a webhook delivery is dead-lettered"),
+  WEBHOOK_BACKOFF_BASE_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(10_000)
+    .describe("First retry delay; doubles on every further attempt"),
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
+  WEBHOOK_DISPATCH_INTERVAL_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(2_000)
+    .describe("How often the outbox is polled for new product events"),
+  WEBHOOK_LOG_RETENTION_DAYS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(30)
+    .describe("Dispatched outbox events and their delivery logs are pruned after this many days"),
 
   // Rate limiting
   RATE_LIMIT_DELAY_BETWEEN_PAGES_MS: z.coerce
@@ -91,6 +174,14 @@ const configSchema = z.object({
   PROXY_USERNAME: z.string().optional(),
   PROXY_PASSWORD: z.string().optional(),
 
+  // Metrics
+  METRICS_PORT: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Port for the /metrics listener in worker processes (the API serves /metrics on API_PORT)"),
+
   // Logging
   LOG_LEVEL: z.string().default("info"),
   NODE_ENV: z.string().default("production"),
@@ -105,3 +196,9 @@ if (!parsed.success) {
 
 export const config = parsed.data;
 
+export const currentMarketplace: Marketplace = {
+  ...MARKETPLACES[config.MARKETPLACE],
+  ...(config.AMAZON_VINE_BASE_URL ? { vineBaseUrl: config.AMAZON_VINE_BASE_URL } : {}),
+  ...(config.AMAZON_VINE_ENCORE_URL ? { encoreUrl: config.AMAZON_VINE_ENCORE_URL } : {}),
+};
+
@@ -0,0 +1,82 @@
+import { Prisma } from "@prisma/client";
+import type { AdminAuditLog } from "@prisma/client";
+import { getDb } from "./client.js";
+
+// Append-only record of operator actions taken through the admin API
+
+export const ADMIN_AUDIT_ACTIONS = [
+  "crawl.trigger",
+  "crawl.pause",
+  "crawl.resume",
+  "rotation.reset",
+  "worker.reassign",
+] as const;
+
+export type AdminAuditAction = (typeof ADMIN_AUDIT_ACTIONS)[number];
+
+export type AdminAuditEntry = {
+  id: number;
+  action: string;
+  apiKeyId: number | null;
+  apiKeyName: string | null;
+  params: unknown;
+  result: unknown;
+  createdAt: Date;
+};
+
+export type AdminAuditInput = {
+  action: AdminAuditAction;
+  actor: { id: number; name: string } | null;
+  params?: unknown;
+  result?: unknown;
+};
+
+const toJsonInput = (value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull => {
+  // Round-trip through JSON so Dates become strings and undefined fields are dropped
+  return value === undefined || value === null ? Prisma.DbNull : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue);
+};
+
+const toAdminAuditEntry = (row: AdminAuditLog): AdminAuditEntry => ({
+  id: row.id,
+  action: row.action,
+  apiKeyId: row.apiKeyId,
+  apiKeyName: row.apiKeyName,
+  params: row.params,
+  result: row.result,
+  createdAt: row.createdAt,
+});
+
+export const recordAdminAction = async (input: AdminAuditInput): Promise<AdminAuditEntry> => {
+  const db = getDb();
+  const row = await db.adminAuditLog.create({
+    data: {
+      action: input.action,
+      apiKeyId: input.actor?.id ?? null,
+      apiKeyName: input.actor?.name ?? null,
+      params: toJsonInput(input.params),
+      result: toJsonInput(input.result),
+    },
+  });
+  return toAdminAuditEntry(row);
+};
+
+export const getAdminAuditLog = async (
+  limit = 100,
+  offset = 0,
+  action?: AdminAuditAction
+): Promise<{ entries: AdminAuditEntry[]; total: number }> => {
+  const db = getDb();
+  const where: Prisma.AdminAuditLogWhereInput = action ? { action } : {};
+
+  const [rows, total] = await Promise.all([
+    db.adminAuditLog.findMany({
+      where,
+      orderBy: { id: "desc" },
+      take: limit,
+      skip: offset,
+    }),
+    db.adminAuditLog.count({ where }),
+  ]);
+
+  return { entries: rows.map(toAdminAuditEntry), total };
+};
@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from "node:crypto";
+import { z } from "zod";
+import type { ApiKey } from "@prisma/client";
+import { getDb } from "./client.js";
+
+// API keys are shown once on creation and stored as SHA-256 hashes (keys are random, so no slow hash is needed)
+
+export const API_KEY_SCOPES = ["read:products", "read:crawl", "write:watchlists", "admin"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  rateLimitPerMinute: z.number().int().positive().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+export type ApiKeyCreateInput = z.infer<typeof apiKeyCreateSchema>;
+
+export type ApiKeyRecord = {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
+const KEY_PREFIX_LENGTH = 12;
+
+export const hashApiKey = (key: string): string => createHash("sha256").update(key).digest("hex");
+
+const toApiKeyRecord = (row: ApiKey): ApiKeyRecord => ({
+  id: row.id,
+  name: row.name,
+  keyPrefix: row.keyPrefix,
+  scopes: Array.isArray(row.scopes)
+    ? (row.scopes as string[]).filter((scope): scope is ApiKeyScope => (API_KEY_SCOPES as readonly string[]).includes(scope))
+    : [],
+  rateLimitPerMinute: row.rateLimitPerMinute,
+  expiresAt: row.expiresAt,
+  revokedAt: row.revokedAt,
+  lastUsedAt: row.lastUsedAt,
+  createdAt: row.createdAt,
+});
+
+export const hasApiKeyScope = (apiKey: Pick<ApiKeyRecord, "scopes">, scope: ApiKeyScope): boolean => {
+  return apiKey.scopes.includes("admin") || apiKey.scopes.includes(scope);
+};
+
+export const createApiKey = async (input: ApiKeyCreateInput): Promise<{ key: string; apiKey: ApiKeyRecord }> => {
+  const db = getDb();
+  const key = `vine_${randomBytes(24).toString("base64url")}`;
+
+  const row = await db.apiKey.create({
+    data: {
+      name: input.name,
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+      scopes: input.scopes,
+      rateLimitPerMinute: input.rateLimitPerMinute ?? null,
+      expiresAt: input.expiresAt ?? null,
+    },
+  });
+
+  return { key, apiKey: toApiKeyRecord(row) };
+};
+
+// Returns the key if it exists, is not revoked and has not expired
+export const findActiveApiKey = async (key: string): Promise<ApiKeyRecord | null> => {
+  const db = getDb();
+  const row = await db.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+  });
+
+  if (!row || row.revokedAt || (row.expiresAt && row.expiresAt.getTime() <= Date.now())) {
+    return null;
+  }
+
+  return toApiKeyRecord(row);
+};
+
+export const listApiKeys = async (): Promise<ApiKeyRecord[]> => {
+  const db = getDb();
+  const rows = await db.apiKey.findMany({
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map(toApiKeyRecord);
+};
+
+export const revokeApiKey = async (id: number): Promise<boolean> => {
+  const db = getDb();
+  const result = await db.apiKey.updateMany({
+    where: { id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+};
+
+export const touchApiKey = async (id: number): Promise<void> => {
+  const db = getDb();
+  await db.apiKey.update({
+    where: { id },
+    data: { lastUsedAt: new Date() },
+  });
+};
@@ -0,0 +1,202 @@
+import { Prisma } from "@prisma/client";
+import type { CrawlMetadata, ProductCrawlEvent } from "@prisma/client";
+import { getDb } from "./client.js";
+import type { CrawlStatus } from "./productRepository.js";
+import type { MarketplaceId, VineQueue } from "../marketplaces.js";
+
+// Read side of product_crawl_events (rows are written by recordCrawlEvent) and crawl_metadata
+
+export type CrawlEventFilter = {
+  marketplace?: MarketplaceId;
+  queue?: VineQueue;
+  status?: CrawlStatus;
+  asin?: string;
+  pageNumber?: number;
+  crawlRunId?: number;
+  since?: Date;
+  until?: Date;
+};
+
+export type CrawlEventRecord = {
+  id: number;
+  marketplace: MarketplaceId;
+  asin: string | null;
+  queue: VineQueue;
+  url: string;
+  pageNumber: number;
+  status: string;
+  error: string | null;
+  crawlRunId: number | null;
+  createdAt: Date;
+};
+
+export type CrawlFailureSummary = {
+  totals: { success: number; failed: number };
+  byError: { error: string | null; count: number; lastSeenAt: Date | null }[];
+  byPage: { queue: VineQueue; pageNumber: number; failures: number; lastFailureAt: Date | null }[];
+};
+
+const buildCrawlEventWhere = (filter: CrawlEventFilter): Prisma.ProductCrawlEventWhereInput => {
+  const where: Prisma.ProductCrawlEventWhereInput = {};
+
+  if (filter.marketplace) {
+    where.marketplace = filter.marketplace;
+  }
+  if (filter.queue) {
+    where.queue = filter.queue;
+  }
+  if (filter.status) {
+    where.status = filter.status;
+  }
+  if (filter.asin) {
+    where.asin = filter.asin;
+  }
+  if (filter.pageNumber !== undefined) {
+    where.pageNumber = filter.pageNumber;
+  }
+  if (filter.crawlRunId !== undefined) {
+    where.crawlRunId = filter.crawlRunId;
+  }
+  if (filter.since || filter.until) {
+    where.createdAt = { gte: filter.since, lte: filter.until };
+  }
+
+  return where;
+};
+
+const toCrawlEventRecord = (row: ProductCrawlEvent): CrawlEventRecord => ({
+  id: row.id,
+  marketplace: row.marketplace as MarketplaceId,
+  asin: row.asin,
+  queue: row.queue as VineQueue,
+  url: row.url,
+  pageNumber: row.pageNumber,
+  status: row.status,
+  error: row.error,
+  crawlRunId: row.crawlRunId,
+  createdAt: row.createdAt,
+});
+
+export const getCrawlEvents = async (
+  filter: CrawlEventFilter,
+  limit: number = 100,
+  offset: number = 0
+): Promise<{ events: CrawlEventRecord[]; total: number }> => {
+  const db = getDb();
+  const where = buildCrawlEventWhere(filter);
+
+  const [rows, total] = await Promise.all([
+    db.productCrawlEvent.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit,
+      skip: offset,
+    }),
+    db.productCrawlEvent.count({ where }),
+  ]);
+
+  return { events: rows.map(toCrawlEventRecord), total };
+};
+
+// Latest `limitPerAsin` events for each ASIN of the marketplace in one query (window function), newest first
+export const getRecentCrawlEventsByAsins = async (
+  marketplace: MarketplaceId,
+  asins: readonly string[],
+  limitPerAsin: number,
+  status?: CrawlStatus
+): Promise<CrawlEventRecord[]> => {
+  if (asins.length === 0) {
+    return [];
+  }
+  const db = getDb();
+  const statusClause = status ? Prisma.sql`AND status = ${status}` : Prisma.empty;
+
+  const ranked = await db.$queryRaw<{ id: number }[]>`
+    SELECT id FROM (
+      SELECT id, ROW_NUMBER() OVER (PARTITION BY asin ORDER BY created_at DESC, id DESC) AS rn
+      FROM product_crawl_events
+      WHERE marketplace = ${marketplace} AND asin IN (${Prisma.join([...asins])}) ${statusClause}
+    ) ranked
+    WHERE rn <= ${limitPerAsin}`;
+  if (ranked.length === 0) {
+    return [];
+  }
+
+  const rows = await db.productCrawlEvent.findMany({
+    where: { id: { in: ranked.map((row) => Number(row.id)) } },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+  });
+  return rows.map(toCrawlEventRecord);
+};
+
+// Failure counts in a time window, grouped by error message and by page (most frequent first)
+export const getCrawlFailureSummary = async (
+  filter: Omit<CrawlEventFilter, "status">,
+  limit: number = 50
+): Promise<CrawlFailureSummary> => {
+  const db = getDb();
+  const where = buildCrawlEventWhere(filter);
+  const failedWhere = buildCrawlEventWhere({ ...filter, status: "failed" });
+
+  const [statusCounts, byError, byPage] = await Promise.all([
+    db.productCrawlEvent.groupBy({
+      by: ["status"],
+      where,
+      _count: { _all: true },
+    }),
+    db.productCrawlEvent.groupBy({
+      by: ["error"],
+      where: failedWhere,
+      _count: { _all: true },
+      _max: { createdAt: true },
+      orderBy: { _count: { id: "desc" } },
+      take: limit,
+    }),
+    db.productCrawlEvent.groupBy({
+      by: ["queue", "pageNumber"],
+      where: failedWhere,
+      _count: { _all: true },
+      _max: { createdAt: true },
+      orderBy: { _count: { id: "desc" } },
+      take: limit,
+    }),
+  ]);
+
+  const countFor = (status: CrawlStatus): number =>
+    statusCounts.find((row) => row.status === status)?._count._all ?? 0;
+
+  return {
+    totals: { success: countFor("success"), failed: countFor("failed") },
+    byError: byError.map((row) => ({ error: row.error, count: row._count._all, lastSeenAt: row._max.createdAt })),
+    byPage: byPage.map((row) => ({
+      queue: row.queue as VineQueue,
+      pageNumber: row.pageNumber,
+      failures: row._count._all,
+      lastFailureAt: row._max.createdAt,
+    })),
+  };
+};
+
+// Latest successful crawl event of each marketplace that has one
+export const getLastSuccessfulCrawlAtByMarketplace = async (): Promise<Map<MarketplaceId, Date>> => {
+  const db = getDb();
+  const rows = await db.productCrawlEvent.groupBy({
+    by: ["marketplace"],
+    where: { status: "success" },
+    _max: { createdAt: true },
+  });
+  return new Map(
+    rows.flatMap((row) => (row._max.createdAt ? [[row.marketplace as MarketplaceId, row._max.createdAt] as const] : []))
+  );
+};
+
+export type CrawlMetadataRecord = Pick<CrawlMetadata, "totalPages" | "totalProducts" | "lastUpdated">;
+
+export const getLatestCrawlMetadata = async (marketplace?: MarketplaceId): Promise<CrawlMetadataRecord | null> => {
+  const db = getDb();
+  return await db.crawlMetadata.findFirst({
+    where: { marketplace },
+    orderBy: { lastUpdated: "desc" },
+    select: { totalPages: true, totalProducts: true, lastUpdated: true },
+  });
+};
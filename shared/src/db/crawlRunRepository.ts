@@ -0,0 +1,149 @@
+import type { CrawlRun, Prisma } from "@prisma/client";
+import { getDb } from "./client.js";
+import type { MarketplaceId } from "../marketplaces.js";
+
+// Crawl runs: one row per full sweep over the listing pages of a marketplace. The manager opens and closes runs;
+// product workers add their per-page counts to whichever run of their marketplace is open and link their crawl events to it
+
+export const CRAWL_RUN_STATUSES = ["running", "completed", "abandoned"] as const;
+
+export type CrawlRunStatus = (typeof CRAWL_RUN_STATUSES)[number];
+
+export const CRAWL_RUN_TRIGGERS = ["schedule", "admin"] as const;
+
+export type CrawlRunTrigger = (typeof CRAWL_RUN_TRIGGERS)[number];
+
+export type CrawlRunRecord = {
+  id: number;
+  marketplace: MarketplaceId;
+  status: CrawlRunStatus;
+  triggeredBy: CrawlRunTrigger;
+  workerId: number | null;
+  totalPages: number;
+  totalProducts: number;
+  pagesCrawled: number;
+  productsAdded: number;
+  productsUpdated: number;
+  productsRemoved: number;
+  failures: number;
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+};
+
+export type CrawlRunProgress = {
+  pagesCrawled?: number;
+  productsAdded?: number;
+  productsUpdated?: number;
+  productsRemoved?: number;
+  failures?: number;
+};
+
+const toCrawlRunRecord = (row: CrawlRun): CrawlRunRecord => ({
+  id: row.id,
+  marketplace: row.marketplace as MarketplaceId,
+  status: row.status as CrawlRunStatus,
+  triggeredBy: row.triggeredBy as CrawlRunTrigger,
+  workerId: row.workerId,
+  totalPages: row.totalPages,
+  totalProducts: row.totalProducts,
+  pagesCrawled: row.pagesCrawled,
+  productsAdded: row.productsAdded,
+  productsUpdated: row.productsUpdated,
+  productsRemoved: row.productsRemoved,
+  failures: row.failures,
+  startedAt: row.startedAt,
+  finishedAt: row.finishedAt,
+  durationMs: row.finishedAt ? row.finishedAt.getTime() - row.startedAt.getTime() : null,
+});
+
+// A run still open when the next sweep starts never saw every worker report completion, so it is marked abandoned
+export const openCrawlRun = async (input: {
+  marketplace: MarketplaceId;
+  triggeredBy: CrawlRunTrigger;
+  workerId: number | null;
+  totalPages: number;
+  totalProducts: number;
+}): Promise<CrawlRunRecord> => {
+  const db = getDb();
+  const row = await db.$transaction(async (tx) => {
+    await tx.crawlRun.updateMany({
+      where: { marketplace: input.marketplace, status: "running" },
+      data: { status: "abandoned", finishedAt: new Date() },
+    });
+    return await tx.crawlRun.create({ data: input });
+  });
+  return toCrawlRunRecord(row);
+};
+
+// Also records the final totals in crawl_metadata. Returns null when the run is no longer open
+export const completeCrawlRun = async (
+  id: number,
+  totals: { totalPages: number; totalProducts: number }
+): Promise<CrawlRunRecord | null> => {
+  const db = getDb();
+  return await db.$transaction(async (tx) => {
+    const result = await tx.crawlRun.updateMany({
+      where: { id, status: "running" },
+      data: { status: "completed", finishedAt: new Date(), ...totals },
+    });
+    if (result.count === 0) {
+      return null;
+    }
+    const row = await tx.crawlRun.findUnique({ where: { id } });
+    if (!row) {
+      return null;
+    }
+    await tx.crawlMetadata.create({ data: { marketplace: row.marketplace, ...totals } });
+    return toCrawlRunRecord(row);
+  });
+};
+
+export const getActiveCrawlRun = async (marketplace: MarketplaceId): Promise<CrawlRunRecord | null> => {
+  const db = getDb();
+  const row = await db.crawlRun.findFirst({
+    where: { marketplace, status: "running" },
+    orderBy: { id: "desc" },
+  });
+  return row ? toCrawlRunRecord(row) : null;
+};
+
+// Atomic increments, so product workers can report pages of the same run concurrently
+export const recordCrawlRunProgress = async (id: number, progress: CrawlRunProgress): Promise<void> => {
+  const db = getDb();
+  await db.crawlRun.updateMany({
+    where: { id },
+    data: {
+      pagesCrawled: { increment: progress.pagesCrawled ?? 0 },
+      productsAdded: { increment: progress.productsAdded ?? 0 },
+      productsUpdated: { increment: progress.productsUpdated ?? 0 },
+      productsRemoved: { increment: progress.productsRemoved ?? 0 },
+      failures: { increment: progress.failures ?? 0 },
+    },
+  });
+};
+
+export const getCrawlRun = async (id: number): Promise<CrawlRunRecord | null> => {
+  const db = getDb();
+  const row = await db.crawlRun.findUnique({ where: { id } });
+  return row ? toCrawlRunRecord(row) : null;
+};
+
+export const getCrawlRuns = async (
+  filter: { marketplace?: MarketplaceId; status?: CrawlRunStatus },
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ runs: CrawlRunRecord[]; total: number }> => {
+  const db = getDb();
+  const where: Prisma.CrawlRunWhereInput = { marketplace: filter.marketplace, status: filter.status };
+  const [rows, total] = await Promise.all([
+    db.crawlRun.findMany({
+      where,
+      orderBy: { id: "desc" },
+      take: limit,
+      skip: offset,
+    }),
+    db.crawlRun.count({ where }),
+  ]);
+  return { runs: rows.map(toCrawlRunRecord), total };
+};
@@ -0,0 +1,48 @@
+import { readdir } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { getDb } from "./client.js";
+
+// Compares the migrations Prisma recorded in _prisma_migrations with the ones shipped in shared/prisma/migrations
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("../../prisma/migrations", import.meta.url));
+
+export type MigrationStatus = {
+  applied: number;
+  pending: string[] | null; // null when the migrations directory is not deployed alongside the code
+  failed: string[];
+};
+
+type MigrationRow = {
+  migration_name: string;
+  finished_at: Date | null;
+  rolled_back_at: Date | null;
+};
+
+const listLocalMigrations = async (): Promise<string[] | null> => {
+  try {
+    const entries = await readdir(MIGRATIONS_DIR, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const getMigrationStatus = async (): Promise<MigrationStatus> => {
+  const db = getDb();
+  const [rows, local] = await Promise.all([
+    db.$queryRaw<MigrationRow[]>`SELECT migration_name, finished_at, rolled_back_at FROM _prisma_migrations`,
+    listLocalMigrations(),
+  ]);
+
+  const applied = new Set(rows.filter((row) => row.finished_at && !row.rolled_back_at).map((row) => row.migration_name));
+  const failed = rows.filter((row) => !row.finished_at && !row.rolled_back_at).map((row) => row.migration_name);
+
+  return {
+    applied: applied.size,
+    pending: local ? local.filter((name) => !applied.has(name)).sort() : null,
+    failed,
+  };
+};
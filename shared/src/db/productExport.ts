@@ -0,0 +1,139 @@
+import type { Product } from "@prisma/client";
+import { getDb } from "./client.js";
+import { buildProductWhere, toProductRecord, type ProductFilter } from "./productRepository.js";
+
+// Flat product rows for bulk export - prices converted from cents to decimals, images kept as a list
+// so each output format can flatten them its own way
+
+export const PRODUCT_EXPORT_COLUMNS = [
+  "marketplace",
+  "asin",
+  "queue",
+  "url",
+  "title",
+  "pageNumber",
+  "price",
+  "originalPrice",
+  "currencyCode",
+  "discount",
+  "rating",
+  "ratingCount",
+  "brand",
+  "category",
+  "availability",
+  "primeEligible",
+  "vineNote",
+  "description",
+  "imageCount",
+  "images",
+  "createdAt",
+  "updatedAt",
+  "firstSeenAt",
+  "lastSeenAt",
+  "removedAt",
+  "timesSeen",
+] as const;
+
+export type ProductExportColumn = (typeof PRODUCT_EXPORT_COLUMNS)[number];
+
+export type ProductExportRow = {
+  marketplace: string;
+  asin: string;
+  queue: string;
+  url: string;
+  title: string;
+  pageNumber: number;
+  price: number | null;
+  originalPrice: number | null;
+  currencyCode: string | null;
+  discount: string | null;
+  rating: number | null;
+  ratingCount: number | null;
+  brand: string | null;
+  category: string | null;
+  availability: string | null;
+  primeEligible: boolean | null;
+  vineNote: string | null;
+  description: string | null;
+  imageCount: number;
+  images: string[];
+  createdAt: string;
+  updatedAt: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  removedAt: string | null;
+  timesSeen: number;
+};
+
+const EXPORT_BATCH_SIZE = 1_000;
+
+const centsToDecimal = (cents: number | null | undefined): number | null => {
+  return cents === null || cents === undefined ? null : Math.round(cents) / 100;
+};
+
+export const toProductExportRow = (row: Product): ProductExportRow => {
+  const product = toProductRecord(row);
+  return {
+    marketplace: product.marketplace,
+    asin: product.asin,
+    queue: product.queue,
+    url: product.url,
+    title: product.title,
+    pageNumber: product.pageNumber,
+    price: centsToDecimal(product.priceCents),
+    originalPrice: centsToDecimal(product.originalPrice),
+    currencyCode: product.currencyCode,
+    discount: product.discount ?? null,
+    rating: product.rating,
+    ratingCount: product.ratingCount,
+    brand: product.brand ?? null,
+    category: product.category ?? null,
+    availability: product.availability ?? null,
+    primeEligible: product.primeEligible ?? null,
+    vineNote: product.vineNote ?? null,
+    description: product.description ?? null,
+    imageCount: product.images.length,
+    images: product.images,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    firstSeenAt: row.firstSeenAt.toISOString(),
+    lastSeenAt: row.lastSeenAt.toISOString(),
+    removedAt: row.removedAt?.toISOString() ?? null,
+    timesSeen: row.timesSeen,
+  };
+};
+
+// Walks the product table in primary key order (marketplace, ASIN), one batch at a time, so callers can stream without buffering it all.
+// The next batch is only fetched once the consumer asks for it, which gives natural backpressure.
+export async function* iterateProductsForExport(
+  filter: Partial<ProductFilter> = {},
+  batchSize: number = EXPORT_BATCH_SIZE
+): AsyncGenerator<ProductExportRow> {
+  const db = getDb();
+  const where = buildProductWhere(filter);
+  let last: Pick<Product, "marketplace" | "asin"> | null = null;
+
+  for (;;) {
+    const rows: Product[] = await db.product.findMany({
+      where: last
+        ? {
+            AND: [
+              where,
+              { OR: [{ marketplace: { gt: last.marketplace } }, { marketplace: last.marketplace, asin: { gt: last.asin } }] },
+            ],
+          }
+        : where,
+      orderBy: [{ marketplace: "asc" }, { asin: "asc" }],
+      take: batchSize,
+    });
+
+    for (const row of rows) {
+      yield toProductExportRow(row);
+    }
+
+    if (rows.length < batchSize) {
+      return;
+    }
+    last = rows[rows.length - 1];
+  }
+}
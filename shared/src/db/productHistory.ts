@@ -0,0 +1,187 @@
+import type { Prisma, ProductSnapshot } from "@prisma/client";
+import { getDb } from "./client.js";
+import type { ProductRecord } from "./productRepository.js";
+import type { MarketplaceId } from "../marketplaces.js";
+
+// Change history for the fields upsertProduct overwrites in place. A snapshot is written only when a tracked field
+// differs from the latest snapshot of the product (marketplace and ASIN), so re-crawls of an unchanged item (including one that is listed
+// again after being removed) add nothing
+
+export const PRODUCT_SNAPSHOT_FIELDS = ["title", "priceCents", "rating", "ratingCount", "availability"] as const;
+
+export type ProductSnapshotField = (typeof PRODUCT_SNAPSHOT_FIELDS)[number];
+
+export const PRODUCT_SNAPSHOT_SOURCES = ["page", "product", "batch"] as const;
+
+export type ProductSnapshotSource = (typeof PRODUCT_SNAPSHOT_SOURCES)[number];
+
+// Which crawl is writing the product: page = queue listing page, product = single product job, batch = bulk upsert
+export type ProductWriteContext = {
+  source: ProductSnapshotSource;
+  workerId?: number | null;
+};
+
+type SnapshotValues = {
+  title: string;
+  priceCents: number | null;
+  currencyCode: string | null; // Stored alongside the price, not tracked on its own
+  rating: number | null;
+  ratingCount: number | null;
+  availability: string | null;
+};
+
+export type ProductHistoryEntry = {
+  capturedAt: Date;
+  source: ProductSnapshotSource;
+  workerId: number | null;
+  pageNumber: number;
+  changes: Partial<Record<ProductSnapshotField, { from: string | number | null; to: string | number | null }>>;
+  values: SnapshotValues;
+};
+
+const toSnapshotValues = (row: ProductSnapshot): SnapshotValues => ({
+  title: row.title,
+  priceCents: row.priceCents,
+  currencyCode: row.currencyCode,
+  rating: row.rating !== null ? Number(row.rating) : null,
+  ratingCount: row.ratingCount,
+  availability: row.availability,
+});
+
+const toProductValues = (product: ProductRecord): SnapshotValues => ({
+  title: product.title,
+  priceCents: product.priceCents ?? null,
+  currencyCode: product.currencyCode ?? null,
+  rating: product.rating != null ? Math.round(product.rating * 100) / 100 : null, // Stored as DECIMAL(3,2)
+  ratingCount: product.ratingCount ?? null,
+  availability: product.availability ?? null,
+});
+
+const diffSnapshotValues = (previous: SnapshotValues | null, next: SnapshotValues): ProductSnapshotField[] => {
+  if (!previous) {
+    return [...PRODUCT_SNAPSHOT_FIELDS];
+  }
+  return PRODUCT_SNAPSHOT_FIELDS.filter((field) => previous[field] !== next[field]);
+};
+
+const toSnapshotData = (
+  product: ProductRecord,
+  values: SnapshotValues,
+  changedFields: ProductSnapshotField[],
+  context: ProductWriteContext
+): Prisma.ProductSnapshotCreateManyInput => ({
+  marketplace: product.marketplace,
+  asin: product.asin,
+  changedFields,
+  title: product.title,
+  priceCents: values.priceCents,
+  currencyCode: values.currencyCode,
+  rating: values.rating,
+  ratingCount: values.ratingCount,
+  availability: values.availability,
+  pageNumber: product.pageNumber,
+  source: context.source,
+  workerId: context.workerId ?? null,
+});
+
+// Runs inside the upsert transaction so the history never disagrees with the product row
+export const recordProductSnapshot = async (
+  tx: Prisma.TransactionClient,
+  product: ProductRecord,
+  context: ProductWriteContext
+): Promise<boolean> => {
+  const latest = await tx.productSnapshot.findFirst({
+    where: { marketplace: product.marketplace, asin: product.asin },
+    orderBy: { id: "desc" },
+  });
+  const values = toProductValues(product);
+  const changedFields = diffSnapshotValues(latest ? toSnapshotValues(latest) : null, values);
+  if (changedFields.length === 0) {
+    return false;
+  }
+
+  await tx.productSnapshot.create({ data: toSnapshotData(product, values, changedFields, context) });
+  return true;
+};
+
+// Batch form of recordProductSnapshot for bulk upserts: two reads and one insert however many products there are.
+// Products must be unique within the batch. Returns the number of snapshots written
+export const recordProductSnapshots = async (
+  tx: Prisma.TransactionClient,
+  products: ProductRecord[],
+  context: ProductWriteContext
+): Promise<number> => {
+  if (products.length === 0) {
+    return 0;
+  }
+
+  const latestIds = await tx.productSnapshot.groupBy({
+    by: ["marketplace", "asin"],
+    where: { OR: products.map((product) => ({ marketplace: product.marketplace, asin: product.asin })) },
+    _max: { id: true },
+  });
+  const ids = latestIds.map((row) => row._max.id).filter((id): id is number => id !== null);
+  const latestByProduct = new Map(
+    ids.length > 0
+      ? (await tx.productSnapshot.findMany({ where: { id: { in: ids } } })).map((row) => [
+          `${row.marketplace}:${row.asin}`,
+          toSnapshotValues(row),
+        ])
+      : []
+  );
+
+  const data: Prisma.ProductSnapshotCreateManyInput[] = [];
+  for (const product of products) {
+    const values = toProductValues(product);
+    const changedFields = diffSnapshotValues(latestByProduct.get(`${product.marketplace}:${product.asin}`) ?? null, values);
+    if (changedFields.length > 0) {
+      data.push(toSnapshotData(product, values, changedFields, context));
+    }
+  }
+  if (data.length > 0) {
+    await tx.productSnapshot.createMany({ data });
+  }
+  return data.length;
+};
+
+// Most recent `limit` changes in chronological order. The first snapshot of an ASIN reports every field as changed from null
+export const getProductHistory = async (
+  marketplace: MarketplaceId,
+  asin: string,
+  limit = 100
+): Promise<{ entries: ProductHistoryEntry[]; hasMore: boolean }> => {
+  const db = getDb();
+  // One extra row supplies the "from" values of the oldest entry returned
+  const rows = (
+    await db.productSnapshot.findMany({
+      where: { marketplace, asin },
+      orderBy: { id: "desc" },
+      take: limit + 1,
+    })
+  ).reverse();
+
+  const hasMore = rows.length > limit;
+  const entries: ProductHistoryEntry[] = [];
+  rows.forEach((row, index) => {
+    if (hasMore && index === 0) {
+      return;
+    }
+    const previous = index > 0 ? toSnapshotValues(rows[index - 1]) : null;
+    const values = toSnapshotValues(row);
+    const changedFields = (Array.isArray(row.changedFields) ? row.changedFields : []) as ProductSnapshotField[];
+    entries.push({
+      capturedAt: row.capturedAt,
+      source: row.source as ProductSnapshotSource,
+      workerId: row.workerId,
+      pageNumber: row.pageNumber,
+      changes: Object.fromEntries(
+        changedFields
+          .filter((field) => (PRODUCT_SNAPSHOT_FIELDS as readonly string[]).includes(field))
+          .map((field) => [field, { from: previous ? previous[field] : null, to: values[field] }])
+      ),
+      values,
+    });
+  });
+
+  return { entries, hasMore };
+};
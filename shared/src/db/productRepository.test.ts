@@ -0,0 +1,160 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Prisma, type Product } from "@prisma/client";
+import {
+  addUpsertResults,
+  classifyProductUpsert,
+  decodeProductCursor,
+  encodeProductCursor,
+  hasProductChanged,
+  toProductKey,
+  type BatchUpsertResult,
+  type ProductRecord,
+  type UpsertProductResult,
+} from "./productRepository.js";
+
+const encodeRaw = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("product cursor", () => {
+  it("round-trips updatedAt, ASIN and marketplace", () => {
+    const cursor = { updatedAt: new Date("2026-10-01T12:34:56.789Z"), asin: "B0ABCDEF12", marketplace: "uk" };
+    assert.deepEqual(decodeProductCursor(encodeProductCursor(cursor)), cursor);
+  });
+
+  it("resumes a cursor issued before marketplaces existed at the first marketplace", () => {
+    assert.deepEqual(decodeProductCursor(encodeRaw({ u: 0, a: "B0ABCDEF12" })), {
+      updatedAt: new Date(0),
+      asin: "B0ABCDEF12",
+      marketplace: "",
+    });
+  });
+
+  it("rejects values that are not base64url JSON", () => {
+    assert.equal(decodeProductCursor("not a cursor"), null);
+    assert.equal(decodeProductCursor(""), null);
+    assert.equal(decodeProductCursor(Buffer.from("{broken").toString("base64url")), null);
+  });
+
+  it("rejects JSON with missing or invalid fields", () => {
+    assert.equal(decodeProductCursor(encodeRaw({ a: "B0ABCDEF12" })), null);
+    assert.equal(decodeProductCursor(encodeRaw({ u: -1, a: "B0ABCDEF12" })), null);
+    assert.equal(decodeProductCursor(encodeRaw({ u: 1.5, a: "B0ABCDEF12" })), null);
+    assert.equal(decodeProductCursor(encodeRaw({ u: 0, a: "" })), null);
+    assert.equal(decodeProductCursor(encodeRaw([0, "B0ABCDEF12"])), null);
+  });
+});
+
+const product = (overrides: Partial<ProductRecord> = {}): ProductRecord => ({
+  marketplace: "us",
+  asin: "B0ABCDEF12",
+  queue: "encore",
+  url: "https://www.amazon.com/dp/B0ABCDEF12",
+  title: "LEGO Star Wars Millennium Falcon",
+  pageNumber: 1,
+  images: ["https://m.media-amazon.com/images/I/1.jpg"],
+  priceCents: 5999,
+  currencyCode: "USD",
+  rating: 4.5,
+  ratingCount: 120,
+  brand: "LEGO",
+  ...overrides,
+});
+
+// The row as stored for `record`, as read back before a write
+const row = (record: ProductRecord, overrides: Partial<Product> = {}): Product => ({
+  marketplace: record.marketplace,
+  asin: record.asin,
+  queue: record.queue,
+  url: record.url,
+  title: record.title,
+  pageNumber: record.pageNumber,
+  images: record.images,
+  priceCents: record.priceCents,
+  currencyCode: record.currencyCode,
+  rating: record.rating !== null ? new Prisma.Decimal(record.rating) : null,
+  ratingCount: record.ratingCount,
+  brand: record.brand ?? null,
+  description: record.description ?? null,
+  category: record.category ?? null,
+  availability: record.availability ?? null,
+  primeEligible: record.primeEligible ?? null,
+  discount: record.discount ?? null,
+  originalPrice: record.originalPrice ?? null,
+  vineNote: record.vineNote ?? null,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  firstSeenAt: new Date(0),
+  lastSeenAt: new Date(0),
+  removedAt: null,
+  timesSeen: 1,
+  ...overrides,
+});
+
+describe("hasProductChanged", () => {
+  it("is false for the same crawled fields", () => {
+    assert.equal(hasProductChanged(product(), product()), false);
+  });
+
+  it("treats null and undefined as the same value", () => {
+    assert.equal(hasProductChanged(product({ brand: null }), product({ brand: undefined })), false);
+  });
+
+  it("ignores lifecycle fields", () => {
+    assert.equal(hasProductChanged(product({ timesSeen: 1, lastSeenAt: new Date(0) }), product({ timesSeen: 2 })), false);
+  });
+
+  it("detects a changed crawled field or image list", () => {
+    assert.equal(hasProductChanged(product(), product({ priceCents: 4999 })), true);
+    assert.equal(hasProductChanged(product(), product({ queue: "potluck" })), true);
+    assert.equal(hasProductChanged(product(), product({ vineNote: "Limited" })), true);
+    assert.equal(hasProductChanged(product(), product({ images: [] })), true);
+  });
+});
+
+describe("batch upsert results", () => {
+  it("classifies a write by the row read before it", () => {
+    const item = product();
+    assert.equal(classifyProductUpsert(undefined, item), "created");
+    assert.equal(classifyProductUpsert(row(item, { removedAt: new Date(0) }), item), "created");
+    assert.equal(classifyProductUpsert(row(item), item), "unchanged");
+    assert.equal(classifyProductUpsert(row(item), product({ title: "LEGO Falcon" })), "updated");
+  });
+
+  it("counts created, updated and unchanged products and skips failed ones", () => {
+    const created = product({ asin: "B0CREATED1" });
+    const relisted = product({ asin: "B0RELISTED" });
+    const updated = product({ asin: "B0UPDATED1", priceCents: 4999 });
+    const unchanged = product({ asin: "B0UNCHANGE" });
+    const failed = product({ asin: "B0FAILED01" });
+    const existing = new Map<string, Product>([
+      [toProductKey(relisted), row(relisted, { removedAt: new Date(0) })],
+      [toProductKey(updated), row(product({ asin: "B0UPDATED1" }))],
+      [toProductKey(unchanged), row(unchanged)],
+    ]);
+
+    const chunk = [created, relisted, updated, unchanged, failed];
+    const results = new Map<string, UpsertProductResult>();
+    for (const item of chunk.filter((item) => item !== failed)) {
+      results.set(toProductKey(item), classifyProductUpsert(existing.get(toProductKey(item)), item));
+    }
+    const result: BatchUpsertResult = { created: 0, updated: 0, unchanged: 0, failed: 0, stored: [] };
+    addUpsertResults(result, chunk, results);
+
+    assert.equal(result.created, 2);
+    assert.equal(result.updated, 1);
+    assert.equal(result.unchanged, 1);
+    assert.deepEqual(
+      result.stored.map(({ product: item, result: upsertResult }) => [item.asin, upsertResult]),
+      [
+        ["B0CREATED1", "created"],
+        ["B0RELISTED", "created"],
+        ["B0UPDATED1", "updated"],
+        ["B0UNCHANGE", "unchanged"],
+      ]
+    );
+  });
+
+  it("keys products by marketplace and ASIN together", () => {
+    assert.notEqual(toProductKey(product()), toProductKey(product({ marketplace: "uk" })));
+  });
+});
@@ -1,9 +1,17 @@
 import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import type { Product } from "@prisma/client";
 import { getDb } from "./client.js";
 import { logger } from "../logger.js";
+import { productUpsertDuration, productBatchUpsertDuration } from "../metrics.js";
+import { writeWebhookOutboxEvents } from "./webhookRepository.js";
+import { recordProductSnapshot, recordProductSnapshots, type ProductWriteContext } from "./productHistory.js";
+import { marketplaceSchema, vineQueueSchema, type MarketplaceId, type VineQueue } from "../marketplaces.js";
 
 export const productSchema = z.object({
+  marketplace: marketplaceSchema,
   asin: z.string(),
+  queue: vineQueueSchema,
   url: z.string(),
   title: z.string(),
   pageNumber: z.number().int().positive(),
@@ -22,15 +30,196 @@ export const productSchema = z.object({
   vineNote: z.string().nullable().optional(),
 });
 
-export type ProductRecord = z.infer<typeof productSchema>;
+// Maintained by the store loop - absent on products that were just extracted and not yet stored
+export type ProductLifecycle = {
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  removedAt: Date | null; // Set while the item is no longer listed
+  timesSeen: number;
+};
 
-export const upsertProduct = async (product: ProductRecord): Promise<void> => {
-  const db = getDb();
+export type ProductRecord = z.infer<typeof productSchema> & Partial<ProductLifecycle>;
+
+// "true"/"false"/"1"/"0" query parameter
+export const booleanQueryParamSchema = z
+  .enum(["true", "false", "1", "0"])
+  .transform((value) => value === "true" || value === "1");
+
+// Filter and sort options for product listings (query params are strings, so values are coerced)
+export const productFilterFieldsSchema = z.object({
+  marketplace: marketplaceSchema.optional().describe("Only items of this marketplace (all marketplaces when omitted)"),
+  queue: vineQueueSchema.optional().describe("Only items last listed in this Vine queue (all queues when omitted)"),
+  q: z.string().trim().min(1).optional().describe("Keyword matched against the title"),
+  brand: z.string().trim().min(1).optional(),
+  category: z.string().trim().min(1).optional(),
+  minPrice: z.coerce.number().int().nonnegative().optional().describe("Minimum price in cents"),
+  maxPrice: z.coerce.number().int().nonnegative().optional().describe("Maximum price in cents"),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  minRatingCount: z.coerce.number().int().nonnegative().optional(),
+  primeEligible: booleanQueryParamSchema.optional(),
+  minPage: z.coerce.number().int().positive().optional(),
+  maxPage: z.coerce.number().int().positive().optional(),
+  sort: z.enum(["updated", "newest", "price_asc", "price_desc", "rating"]).default("updated"),
+  includeRemoved: booleanQueryParamSchema.optional().describe("Include items that are no longer listed (removedAt is set)"),
+});
+
+// Cross-field checks, shared by every schema that extends productFilterFieldsSchema
+export const checkProductFilterRanges = (
+  filter: Pick<z.infer<typeof productFilterFieldsSchema>, "minPrice" | "maxPrice" | "minPage" | "maxPage">,
+  ctx: z.RefinementCtx
+): void => {
+  if (filter.minPrice !== undefined && filter.maxPrice !== undefined && filter.minPrice > filter.maxPrice) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "minPrice must be less than or equal to maxPrice", path: ["minPrice"] });
+  }
+  if (filter.minPage !== undefined && filter.maxPage !== undefined && filter.minPage > filter.maxPage) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "minPage must be less than or equal to maxPage", path: ["minPage"] });
+  }
+};
+
+export const productFilterSchema = productFilterFieldsSchema.superRefine(checkProductFilterRanges);
+
+export type ProductFilter = z.infer<typeof productFilterSchema>;
+export type ProductSort = ProductFilter["sort"];
+
+export const buildProductWhere = (filter: Partial<ProductFilter> = {}): Prisma.ProductWhereInput => {
+  const where: Prisma.ProductWhereInput = {};
+
+  if (filter.marketplace) {
+    where.marketplace = filter.marketplace;
+  }
+  if (filter.queue) {
+    where.queue = filter.queue;
+  }
+  if (filter.q) {
+    where.title = { contains: filter.q };
+  }
+  if (filter.brand) {
+    where.brand = filter.brand;
+  }
+  if (filter.category) {
+    where.category = { contains: filter.category };
+  }
+  if (filter.minPrice !== undefined || filter.maxPrice !== undefined) {
+    where.priceCents = { gte: filter.minPrice, lte: filter.maxPrice };
+  }
+  if (filter.minRating !== undefined) {
+    where.rating = { gte: filter.minRating };
+  }
+  if (filter.minRatingCount !== undefined) {
+    where.ratingCount = { gte: filter.minRatingCount };
+  }
+  if (filter.primeEligible !== undefined) {
+    where.primeEligible = filter.primeEligible;
+  }
+  if (filter.minPage !== undefined || filter.maxPage !== undefined) {
+    where.pageNumber = { gte: filter.minPage, lte: filter.maxPage };
+  }
+  if (!filter.includeRemoved) {
+    where.removedAt = null;
+  }
+
+  return where;
+};
+
+const buildProductOrderBy = (sort: ProductSort = "updated"): Prisma.ProductOrderByWithRelationInput[] => {
+  switch (sort) {
+    case "newest":
+      return [{ createdAt: "desc" }, { asin: "asc" }, { marketplace: "asc" }];
+    case "price_asc":
+      return [{ priceCents: { sort: "asc", nulls: "last" } }, { asin: "asc" }, { marketplace: "asc" }];
+    case "price_desc":
+      return [{ priceCents: { sort: "desc", nulls: "last" } }, { asin: "asc" }, { marketplace: "asc" }];
+    case "rating":
+      return [
+        { rating: { sort: "desc", nulls: "last" } },
+        { ratingCount: { sort: "desc", nulls: "last" } },
+        { asin: "asc" },
+        { marketplace: "asc" },
+      ];
+    default:
+      return [{ updatedAt: "desc" }, { asin: "asc" }, { marketplace: "asc" }];
+  }
+};
+
+export const toProductRecord = (p: Product): ProductRecord => ({
+  marketplace: p.marketplace as MarketplaceId,
+  asin: p.asin,
+  queue: p.queue as VineQueue,
+  url: p.url,
+  title: p.title,
+  pageNumber: p.pageNumber,
+  images: Array.isArray(p.images) ? (p.images as string[]) : typeof p.images === "string" ? JSON.parse(p.images) : [],
+  priceCents: p.priceCents,
+  currencyCode: p.currencyCode,
+  rating: p.rating ? Number(p.rating) : null,
+  ratingCount: p.ratingCount,
+  brand: p.brand ?? undefined,
+  description: p.description ?? undefined,
+  category: p.category ?? undefined,
+  availability: p.availability ?? undefined,
+  primeEligible: p.primeEligible ?? undefined,
+  discount: p.discount ?? undefined,
+  originalPrice: p.originalPrice ?? undefined,
+  vineNote: p.vineNote ?? undefined,
+  firstSeenAt: p.firstSeenAt,
+  lastSeenAt: p.lastSeenAt,
+  removedAt: p.removedAt,
+  timesSeen: p.timesSeen,
+});
+
+export type UpsertProductResult = "created" | "updated" | "unchanged";
+
+// Compares the crawled fields of two product records (null and undefined are treated the same)
+export const hasProductChanged = (previous: ProductRecord, next: ProductRecord): boolean => {
+  const fields = [
+    "queue",
+    "url",
+    "title",
+    "pageNumber",
+    "priceCents",
+    "currencyCode",
+    "rating",
+    "ratingCount",
+    "brand",
+    "description",
+    "category",
+    "availability",
+    "primeEligible",
+    "discount",
+    "originalPrice",
+    "vineNote",
+  ] as const;
+
+  for (const field of fields) {
+    if ((previous[field] ?? null) !== (next[field] ?? null)) {
+      return true;
+    }
+  }
+
+  return JSON.stringify(previous.images ?? []) !== JSON.stringify(next.images ?? []);
+};
+
+// Result of writing `product` over the row read before the write. A removed item that is listed again is new to the
+// live catalogue
+export const classifyProductUpsert = (existing: Product | null | undefined, product: ProductRecord): UpsertProductResult => {
+  if (!existing || existing.removedAt) {
+    return "created";
+  }
+  return hasProductChanged(toProductRecord(existing), product) ? "updated" : "unchanged";
+};
+
+const upsertProductRow = async (product: ProductRecord, db: Prisma.TransactionClient = getDb()): Promise<UpsertProductResult> => {
+  const key = { marketplace: product.marketplace, asin: product.asin };
+  const existing = await db.product.findUnique({
+    where: { marketplace_asin: key },
+  });
 
   await db.product.upsert({
-    where: { asin: product.asin },
+    where: { marketplace_asin: key },
     create: {
+      marketplace: product.marketplace,
       asin: product.asin,
+      queue: product.queue,
       url: product.url,
       title: product.title,
       pageNumber: product.pageNumber,
@@ -49,6 +238,7 @@ export const upsertProduct = async (product: ProductRecord): Promise<void> => {
       vineNote: product.vineNote ?? null,
     },
     update: {
+      queue: product.queue,
       url: product.url,
       title: product.title,
       pageNumber: product.pageNumber,
@@ -66,203 +256,429 @@ export const upsertProduct = async (product: ProductRecord): Promise<void> => {
       originalPrice: product.originalPrice ?? null,
       vineNote: product.vineNote ?? null,
       updatedAt: new Date(),
+      lastSeenAt: new Date(),
+      removedAt: null,
+      timesSeen: { increment: 1 },
     },
   });
+
+  return classifyProductUpsert(existing, product);
 };
 
-export const upsertProductsBatch = async (
-  products: ProductRecord[]
-): Promise<{ created: number; updated: number }> => {
-  if (products.length === 0) {
-    return { created: 0, updated: 0 };
+// Product row, change snapshot and (with recordAdded) the product.added webhook outbox event are written in one transaction
+export const upsertProduct = async (
+  product: ProductRecord,
+  context: ProductWriteContext & { recordAdded?: boolean }
+): Promise<UpsertProductResult> => {
+  const endTimer = productUpsertDuration.startTimer();
+  try {
+    const result = await getDb().$transaction(async (tx) => {
+      const upsertResult = await upsertProductRow(product, tx);
+      await recordProductSnapshot(tx, product, context);
+      if (context.recordAdded && upsertResult === "created") {
+        await writeWebhookOutboxEvents(tx, "product.added", [
+          { marketplace: product.marketplace, asin: product.asin, pageNumber: product.pageNumber, product },
+        ]);
+      }
+      return upsertResult;
+    });
+    endTimer({ result });
+    return result;
+  } catch (error) {
+    endTimer({ result: "error" });
+    throw error;
   }
+};
 
-  const db = getDb();
-  let updated = 0;
+export type BatchUpsertResult = {
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  stored: { product: ProductRecord; result: UpsertProductResult }[]; // One entry per distinct product that was written
+};
+
+export type BatchUpsertContext = ProductWriteContext & {
+  recordAdded?: boolean; // Write product.added webhook outbox events for created products
+  recordCrawlEvents?: boolean; // Write a success (or failed) crawl event per product
+  crawlRunId?: number | null; // Run the crawl events belong to
+};
+
+const BATCH_UPSERT_SIZE = 200;
+
+// Batch maps are keyed by marketplace and ASIN together, since a batch may mix marketplaces
+export const toProductKey = (product: { marketplace: string; asin: string }): string => `${product.marketplace}:${product.asin}`;
+
+// Column order of the multi-row INSERT below
+const toProductRowSql = (product: ProductRecord, now: Date): Prisma.Sql => Prisma.sql`(
+  ${product.marketplace}, ${product.asin}, ${product.queue}, ${product.url}, ${product.title}, ${product.pageNumber}, ${JSON.stringify(product.images ?? [])},
+  ${product.priceCents}, ${product.currencyCode}, ${product.rating ? product.rating : null}, ${product.ratingCount},
+  ${product.brand ?? null}, ${product.description ?? null}, ${product.category ?? null}, ${product.availability ?? null},
+  ${product.primeEligible ?? null}, ${product.discount ?? null}, ${product.originalPrice ?? null}, ${product.vineNote ?? null},
+  ${now}, ${now}, ${now}, ${now}
+)`;
+
+// Writes one chunk in a single transaction: one INSERT ... ON DUPLICATE KEY UPDATE for the rows, then the
+// snapshots, outbox events and crawl events in bulk. Results come from the rows read before the write, since
+// MySQL's affected-row count cannot tell an update from an unchanged row when updated_at always moves
+const upsertProductChunk = async (
+  products: ProductRecord[],
+  context: BatchUpsertContext
+): Promise<Map<string, UpsertProductResult>> => {
+  return await getDb().$transaction(
+    async (tx) => {
+      const existingRows = await tx.product.findMany({
+        where: { OR: products.map((product) => ({ marketplace: product.marketplace, asin: product.asin })) },
+      });
+      const existing = new Map(existingRows.map((row) => [toProductKey(row), row]));
+      const results = new Map<string, UpsertProductResult>();
+      for (const product of products) {
+        results.set(toProductKey(product), classifyProductUpsert(existing.get(toProductKey(product)), product));
+      }
+
+      const now = new Date();
+      await tx.$executeRaw`
+        INSERT INTO products (
+          marketplace, asin, queue, url, title, page_number, images,
+          price_cents, currency_code, rating, rating_count,
+          brand, description, category, availability,
+          prime_eligible, discount, original_price, vine_note,
+          created_at, updated_at, first_seen_at, last_seen_at
+        )
+        VALUES ${Prisma.join(products.map((product) => toProductRowSql(product, now)))}
+        ON DUPLICATE KEY UPDATE
+          queue = VALUES(queue), url = VALUES(url), title = VALUES(title), page_number = VALUES(page_number), images = VALUES(images),
+          price_cents = VALUES(price_cents), currency_code = VALUES(currency_code), rating = VALUES(rating),
+          rating_count = VALUES(rating_count), brand = VALUES(brand), description = VALUES(description),
+          category = VALUES(category), availability = VALUES(availability), prime_eligible = VALUES(prime_eligible),
+          discount = VALUES(discount), original_price = VALUES(original_price), vine_note = VALUES(vine_note),
+          updated_at = VALUES(updated_at), last_seen_at = VALUES(last_seen_at),
+          removed_at = NULL, times_seen = times_seen + 1`;
+
+      await recordProductSnapshots(tx, products, context);
+      if (context.recordAdded) {
+        await writeWebhookOutboxEvents(
+          tx,
+          "product.added",
+          products
+            .filter((product) => results.get(toProductKey(product)) === "created")
+            .map((product) => ({ marketplace: product.marketplace, asin: product.asin, pageNumber: product.pageNumber, product }))
+        );
+      }
+      if (context.recordCrawlEvents) {
+        await tx.productCrawlEvent.createMany({
+          data: products.map((product) => ({
+            marketplace: product.marketplace,
+            asin: product.asin,
+            queue: product.queue,
+            url: product.url,
+            pageNumber: product.pageNumber,
+            status: "success",
+            crawlRunId: context.crawlRunId ?? null,
+          })),
+        });
+      }
+      return results;
+    },
+    {
+      timeout: 30000,
+    }
+  );
+};
 
-  const BATCH_SIZE = 100;
-  for (let i = 0; i < products.length; i += BATCH_SIZE) {
-    const batch = products.slice(i, i + BATCH_SIZE);
+// Counts the chunk's results into the batch result. Products without a result (failed) are not counted as stored
+export const addUpsertResults = (
+  result: BatchUpsertResult,
+  chunk: ProductRecord[],
+  results: ReadonlyMap<string, UpsertProductResult>
+): void => {
+  for (const product of chunk) {
+    const upsertResult = results.get(toProductKey(product));
+    if (upsertResult) {
+      result[upsertResult]++;
+      result.stored.push({ product, result: upsertResult });
+    }
+  }
+};
+
+// Bulk upsert for a whole listing page (or more): a few statements per chunk instead of several per product.
+// A chunk whose transaction fails is retried product by product through upsertProduct, so one bad row only
+// fails itself. Later duplicates of a product win
+export const upsertProductsBatch = async (
+  products: ProductRecord[],
+  context: BatchUpsertContext = { source: "batch" }
+): Promise<BatchUpsertResult> => {
+  const result: BatchUpsertResult = { created: 0, updated: 0, unchanged: 0, failed: 0, stored: [] };
+  const unique = [...new Map(products.map((product) => [toProductKey(product), product])).values()];
 
+  for (let i = 0; i < unique.length; i += BATCH_UPSERT_SIZE) {
+    const chunk = unique.slice(i, i + BATCH_UPSERT_SIZE);
+    const endTimer = productBatchUpsertDuration.startTimer();
+
+    let results: Map<string, UpsertProductResult>;
     try {
-      await db.$transaction(
-        async (tx) => {
-          for (const product of batch) {
-            try {
-              await tx.product.upsert({
-                where: { asin: product.asin },
-                create: {
-                  asin: product.asin,
-                  url: product.url,
-                  title: product.title,
-                  pageNumber: product.pageNumber,
-                  images: product.images as any,
-                  priceCents: product.priceCents,
-                  currencyCode: product.currencyCode,
-                  rating: product.rating ? product.rating : null,
-                  ratingCount: product.ratingCount,
-                  brand: product.brand ?? null,
-                  description: product.description ?? null,
-                  category: product.category ?? null,
-                  availability: product.availability ?? null,
-                  primeEligible: product.primeEligible ?? null,
-                  discount: product.discount ?? null,
-                  originalPrice: product.originalPrice ?? null,
-                  vineNote: product.vineNote ?? null,
-                },
-                update: {
-                  url: product.url,
-                  title: product.title,
-                  pageNumber: product.pageNumber,
-                  images: product.images as any,
-                  priceCents: product.priceCents,
-                  currencyCode: product.currencyCode,
-                  rating: product.rating ? product.rating : null,
-                  ratingCount: product.ratingCount,
-                  brand: product.brand ?? null,
-                  description: product.description ?? null,
-                  category: product.category ?? null,
-                  availability: product.availability ?? null,
-                  primeEligible: product.primeEligible ?? null,
-                  discount: product.discount ?? null,
-                  originalPrice: product.originalPrice ?? null,
-                  vineNote: product.vineNote ?? null,
-                  updatedAt: new Date(),
-                },
-              });
-              updated++;
-            } catch (error) {
-              logger.warn({ error, asin: product.asin }, "Failed to upsert product in batch");
-            }
-          }
-        },
-        {
-          timeout: 30000,
-        }
-      );
+      results = await upsertProductChunk(chunk, context);
+      endTimer({ result: "success" });
     } catch (error) {
-      logger.warn({ error, batchSize: batch.length }, "Batch transaction failed, falling back to individual upserts");
-      for (const product of batch) {
+      endTimer({ result: "error" });
+      logger.warn(
+        { error: error instanceof Error ? error.message : String(error), batchSize: chunk.length },
+        "Batch upsert failed, falling back to individual upserts"
+      );
+
+      results = new Map();
+      for (const product of chunk) {
+        const crawlEvent = {
+          marketplace: product.marketplace,
+          asin: product.asin,
+          queue: product.queue,
+          url: product.url,
+          pageNumber: product.pageNumber,
+          crawlRunId: context.crawlRunId,
+        };
         try {
-          await upsertProduct(product);
-          updated++;
-        } catch {
-          // Ignore individual failures
+          results.set(toProductKey(product), await upsertProduct(product, context));
+          if (context.recordCrawlEvents) {
+            await recordCrawlEvent(crawlEvent, "success");
+          }
+        } catch (productError) {
+          const errorMsg = productError instanceof Error ? productError.message : String(productError);
+          logger.warn({ error: errorMsg, marketplace: product.marketplace, asin: product.asin }, "Failed to upsert product in batch");
+          result.failed++;
+          if (context.recordCrawlEvents) {
+            await recordCrawlEvent(crawlEvent, "failed", errorMsg);
+          }
         }
       }
     }
+
+    addUpsertResults(result, chunk, results);
   }
 
-  return { created: 0, updated };
+  return result;
 };
 
-export const getProductByAsin = async (asin: string): Promise<ProductRecord | null> => {
+export const getProductByAsin = async (marketplace: MarketplaceId, asin: string): Promise<ProductRecord | null> => {
   const db = getDb();
   const product = await db.product.findUnique({
-    where: { asin },
+    where: { marketplace_asin: { marketplace, asin } },
   });
 
-  if (!product) {
-    return null;
-  }
+  return product ? toProductRecord(product) : null;
+};
 
-  return {
-    asin: product.asin,
-    url: product.url,
-    title: product.title,
-    pageNumber: product.pageNumber,
-    images: Array.isArray(product.images) ? product.images : typeof product.images === "string" ? JSON.parse(product.images) : [],
-    priceCents: product.priceCents,
-    currencyCode: product.currencyCode,
-    rating: product.rating ? Number(product.rating) : null,
-    ratingCount: product.ratingCount,
-    brand: product.brand ?? undefined,
-    description: product.description ?? undefined,
-    category: product.category ?? undefined,
-    availability: product.availability ?? undefined,
-    primeEligible: product.primeEligible ?? undefined,
-    discount: product.discount ?? undefined,
-    originalPrice: product.originalPrice ?? undefined,
-    vineNote: product.vineNote ?? undefined,
-  };
+// Batch lookup (e.g. for DataLoader). Order of the result is not guaranteed; missing ASINs are skipped
+export const getProductsByAsins = async (marketplace: MarketplaceId, asins: readonly string[]): Promise<ProductRecord[]> => {
+  if (asins.length === 0) {
+    return [];
+  }
+  const db = getDb();
+  const rows = await db.product.findMany({
+    where: { marketplace, asin: { in: [...asins] } },
+  });
+  return rows.map(toProductRecord);
 };
 
-export const getProductsByPage = async (pageNumber: number): Promise<ProductRecord[]> => {
+// Items currently listed on the page of the queue
+export const getProductsByPage = async (
+  marketplace: MarketplaceId,
+  queue: VineQueue,
+  pageNumber: number
+): Promise<ProductRecord[]> => {
   const db = getDb();
   const products = await db.product.findMany({
-    where: { pageNumber },
+    where: { marketplace, queue, pageNumber, removedAt: null },
   });
 
-  return products.map((p) => ({
-    asin: p.asin,
-    url: p.url,
-    title: p.title,
-    pageNumber: p.pageNumber,
-    images: Array.isArray(p.images) ? p.images : typeof p.images === "string" ? JSON.parse(p.images) : [],
-    priceCents: p.priceCents,
-    currencyCode: p.currencyCode,
-    rating: p.rating ? Number(p.rating) : null,
-    ratingCount: p.ratingCount,
-    brand: p.brand ?? undefined,
-    description: p.description ?? undefined,
-    category: p.category ?? undefined,
-    availability: p.availability ?? undefined,
-    primeEligible: p.primeEligible ?? undefined,
-    discount: p.discount ?? undefined,
-    originalPrice: p.originalPrice ?? undefined,
-    vineNote: p.vineNote ?? undefined,
-  }));
+  return products.map(toProductRecord);
 };
 
-export const getAllProducts = async (limit: number = 100, offset: number = 0): Promise<ProductRecord[]> => {
+export const getAllProducts = async (
+  limit: number = 100,
+  offset: number = 0,
+  filter: Partial<ProductFilter> = {}
+): Promise<ProductRecord[]> => {
   const db = getDb();
   const products = await db.product.findMany({
+    where: buildProductWhere(filter),
     take: limit,
     skip: offset,
-    orderBy: { updatedAt: "desc" },
+    orderBy: buildProductOrderBy(filter.sort),
+  });
+
+  return products.map(toProductRecord);
+};
+
+export type ProductFeedItem = ProductRecord & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// Newest discoveries first - feeds need the timestamps that ProductRecord leaves out
+export const getNewestProducts = async (
+  limit: number,
+  filter: Partial<Omit<ProductFilter, "sort">> = {}
+): Promise<ProductFeedItem[]> => {
+  const db = getDb();
+  const products = await db.product.findMany({
+    where: buildProductWhere(filter),
+    take: limit,
+    orderBy: buildProductOrderBy("newest"),
   });
 
-  return products.map((p) => ({
-    asin: p.asin,
-    url: p.url,
-    title: p.title,
-    pageNumber: p.pageNumber,
-    images: Array.isArray(p.images) ? p.images : typeof p.images === "string" ? JSON.parse(p.images) : [],
-    priceCents: p.priceCents,
-    currencyCode: p.currencyCode,
-    rating: p.rating ? Number(p.rating) : null,
-    ratingCount: p.ratingCount,
-    brand: p.brand ?? undefined,
-    description: p.description ?? undefined,
-    category: p.category ?? undefined,
-    availability: p.availability ?? undefined,
-    primeEligible: p.primeEligible ?? undefined,
-    discount: p.discount ?? undefined,
-    originalPrice: p.originalPrice ?? undefined,
-    vineNote: p.vineNote ?? undefined,
+  return products.map((product) => ({
+    ...toProductRecord(product),
+    createdAt: product.createdAt,
+    updatedAt: product.updatedAt,
   }));
 };
 
-export const getTotalProductCount = async (): Promise<number> => {
+// Opaque keyset cursor over (updatedAt DESC, asin ASC, marketplace ASC) - stable while workers upsert mid-scroll.
+// Cursors issued before marketplaces existed have no "m" and resume as if at the first marketplace
+const productCursorSchema = z.object({
+  u: z.number().int().nonnegative(),
+  a: z.string().min(1),
+  m: z.string().default(""),
+});
+
+export type ProductCursor = {
+  updatedAt: Date;
+  asin: string;
+  marketplace: string;
+};
+
+export const encodeProductCursor = (cursor: ProductCursor): string => {
+  return Buffer.from(JSON.stringify({ u: cursor.updatedAt.getTime(), a: cursor.asin, m: cursor.marketplace })).toString(
+    "base64url"
+  );
+};
+
+export const decodeProductCursor = (value: string): ProductCursor | null => {
+  try {
+    const parsed = productCursorSchema.safeParse(JSON.parse(Buffer.from(value, "base64url").toString("utf8")));
+    if (!parsed.success) {
+      return null;
+    }
+    return { updatedAt: new Date(parsed.data.u), asin: parsed.data.a, marketplace: parsed.data.m };
+  } catch {
+    return null;
+  }
+};
+
+export const getProductsByCursor = async (
+  limit: number,
+  cursor: ProductCursor | null,
+  filter: Partial<ProductFilter> = {}
+): Promise<{ products: ProductRecord[]; nextCursor: string | null }> => {
+  const db = getDb();
+  const where: Prisma.ProductWhereInput = cursor
+    ? {
+        AND: [
+          buildProductWhere(filter),
+          {
+            OR: [
+              { updatedAt: { lt: cursor.updatedAt } },
+              { updatedAt: cursor.updatedAt, asin: { gt: cursor.asin } },
+              { updatedAt: cursor.updatedAt, asin: cursor.asin, marketplace: { gt: cursor.marketplace } },
+            ],
+          },
+        ],
+      }
+    : buildProductWhere(filter);
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db.product.findMany({
+    where,
+    take: limit + 1,
+    orderBy: buildProductOrderBy("updated"),
+  });
+
+  const pageRows = rows.slice(0, limit);
+  const lastRow = pageRows[pageRows.length - 1];
+  const nextCursor =
+    rows.length > limit && lastRow
+      ? encodeProductCursor({ updatedAt: lastRow.updatedAt, asin: lastRow.asin, marketplace: lastRow.marketplace })
+      : null;
+
+  return { products: pageRows.map(toProductRecord), nextCursor };
+};
+
+export const getTotalProductCount = async (filter: Partial<ProductFilter> = {}): Promise<number> => {
+  const db = getDb();
+  return await db.product.count({ where: buildProductWhere(filter) });
+};
+
+// Cheap change detection for conditional GETs: any insert, update or delete moves one of the two values
+export type ProductFreshness = {
+  lastModified: Date | null;
+  count: number;
+};
+
+export const getProductFreshness = async (filter: Partial<ProductFilter> = {}): Promise<ProductFreshness> => {
+  const db = getDb();
+  const result = await db.product.aggregate({
+    where: buildProductWhere(filter),
+    _max: { updatedAt: true },
+    _count: { _all: true },
+  });
+  return { lastModified: result._max.updatedAt, count: result._count._all };
+};
+
+export const getProductFreshnessByAsin = async (marketplace: MarketplaceId, asin: string): Promise<ProductFreshness> => {
   const db = getDb();
-  return await db.product.count();
+  const row = await db.product.findUnique({
+    where: { marketplace_asin: { marketplace, asin } },
+    select: { updatedAt: true },
+  });
+  return { lastModified: row?.updatedAt ?? null, count: row ? 1 : 0 };
 };
 
-export const deleteProductsByPageNumber = async (pageNumber: number): Promise<number> => {
+// Marks the live items of the queue's page that are not in stillListed as removed. Rows are kept for their history and
+// lifecycle; a tombstone per ASIN tells sync clients to drop the item, and a product.removed webhook event is written alongside.
+// An item that moved to another queue already carries that queue, so it is not removed here
+export const markProductsRemovedFromPage = async (
+  marketplace: MarketplaceId,
+  queue: VineQueue,
+  pageNumber: number,
+  stillListed: ReadonlySet<string> = new Set()
+): Promise<number> => {
   const db = getDb();
-  const result = await db.product.deleteMany({
-    where: { pageNumber },
+  return await db.$transaction(async (tx) => {
+    const products = await tx.product.findMany({
+      where: { marketplace, queue, pageNumber, removedAt: null, asin: { notIn: [...stillListed] } },
+      select: { asin: true },
+    });
+    if (products.length === 0) {
+      return 0;
+    }
+
+    const asins = products.map((p) => p.asin);
+    const result = await tx.product.updateMany({
+      where: { marketplace, asin: { in: asins }, removedAt: null },
+      data: { removedAt: new Date() },
+    });
+    await tx.productTombstone.createMany({
+      data: asins.map((asin) => ({ marketplace, asin, pageNumber })),
+    });
+    await writeWebhookOutboxEvents(
+      tx,
+      "product.removed",
+      asins.map((asin) => ({ marketplace, asin, pageNumber, product: null }))
+    );
+    return result.count;
   });
-  return result.count;
 };
 
-type CrawlStatus = "success" | "failed";
+export type CrawlStatus = "success" | "failed";
 
 export const recordCrawlEvent = async (
   payload: {
+    marketplace: MarketplaceId;
     asin: string | null;
+    queue: VineQueue;
     url: string;
     pageNumber: number;
+    crawlRunId?: number | null;
   },
   status: CrawlStatus,
   error?: string
@@ -272,16 +688,19 @@ export const recordCrawlEvent = async (
   // If asin is provided, ensure the product exists (for foreign key constraint)
   if (payload.asin) {
     // Check if product exists, if not create a minimal placeholder
+    const key = { marketplace: payload.marketplace, asin: payload.asin };
     const existingProduct = await db.product.findUnique({
-      where: { asin: payload.asin },
+      where: { marketplace_asin: key },
     });
 
     if (!existingProduct) {
       // Create a minimal product record to satisfy foreign key constraint
       await db.product.upsert({
-        where: { asin: payload.asin },
+        where: { marketplace_asin: key },
         create: {
+          marketplace: payload.marketplace,
           asin: payload.asin,
+          queue: payload.queue,
           url: payload.url,
           title: "Pending crawl", // Will be updated when product is crawled
           pageNumber: payload.pageNumber,
@@ -294,11 +713,14 @@ export const recordCrawlEvent = async (
 
   await db.productCrawlEvent.create({
     data: {
+      marketplace: payload.marketplace,
       asin: payload.asin,
+      queue: payload.queue,
       url: payload.url,
       pageNumber: payload.pageNumber,
       status: status,
       error: error ?? null,
+      crawlRunId: payload.crawlRunId ?? null,
     },
   });
 };
@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { sanitizeBooleanQuery } from "./productSearch.js";
+
+describe("sanitizeBooleanQuery", () => {
+  it("keeps well-formed operators", () => {
+    assert.equal(sanitizeBooleanQuery("+lego -duplo"), "+lego -duplo");
+    assert.equal(sanitizeBooleanQuery("~(<a >b)"), "~(<a >b)");
+  });
+
+  it("keeps only the last of stacked prefix operators", () => {
+    assert.equal(sanitizeBooleanQuery("++-lego"), "-lego");
+  });
+
+  it("drops operators without a term", () => {
+    assert.equal(sanitizeBooleanQuery("+"), "");
+    assert.equal(sanitizeBooleanQuery("lego +"), "lego");
+  });
+
+  it("closes an unbalanced phrase and strips operators inside phrases", () => {
+    assert.equal(sanitizeBooleanQuery('"star wars'), '"star wars"');
+    assert.equal(sanitizeBooleanQuery('"star -wars*"'), '"star wars"');
+    assert.equal(sanitizeBooleanQuery('""'), "");
+  });
+
+  it("balances parentheses and drops empty groups", () => {
+    assert.equal(sanitizeBooleanQuery("(lego (duplo"), "(lego (duplo))");
+    assert.equal(sanitizeBooleanQuery("lego))"), "lego");
+    assert.equal(sanitizeBooleanQuery("()"), "");
+    assert.equal(sanitizeBooleanQuery("+(lego)"), "+(lego)");
+  });
+
+  it("keeps one truncation * after a word and drops a stray one", () => {
+    assert.equal(sanitizeBooleanQuery("* lego**"), "lego*");
+  });
+
+  it("splits words at operators and characters MySQL does not accept", () => {
+    assert.equal(sanitizeBooleanQuery("t-shirt"), "t shirt");
+    assert.equal(sanitizeBooleanQuery("lego@home"), "lego home");
+  });
+});
@@ -0,0 +1,236 @@
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { getDb } from "./client.js";
+import { booleanQueryParamSchema, toProductRecord, type ProductRecord } from "./productRepository.js";
+import { marketplaceSchema, vineQueueSchema } from "../marketplaces.js";
+
+// Full-text search over title, description and brand (FULLTEXT index products_title_description_brand_idx).
+// Note: InnoDB ignores words shorter than innodb_ft_min_token_size (default 3) and stopwords.
+
+export const productSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  mode: z.enum(["boolean", "natural"]).default("boolean"),
+  limit: z.coerce.number().int().positive().max(200).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+  marketplace: marketplaceSchema.optional().describe("Only items of this marketplace (all marketplaces when omitted)"),
+  queue: vineQueueSchema.optional().describe("Only items last listed in this Vine queue (all queues when omitted)"),
+  includeRemoved: booleanQueryParamSchema.optional().describe("Include items that are no longer listed (removedAt is set)"),
+});
+
+export type ProductSearchQuery = z.infer<typeof productSearchQuerySchema>;
+
+export type ProductSearchHit = {
+  product: ProductRecord;
+  relevance: number;
+  highlights: {
+    title: string;
+    snippet: string | null;
+  };
+};
+
+const SNIPPET_RADIUS = 80;
+
+const BOOLEAN_OPERATORS = "+-~<>";
+
+const BOOLEAN_WORD = /^[^\s"()*+\-~<>]+/u;
+
+// Rebuilds the query for MySQL boolean mode, which rejects malformed input with a syntax error: characters without
+// meaning there (e.g. "@") are dropped, a term keeps only the last of stacked prefix operators, operators and "*"
+// without a term are dropped, and quotes and parentheses are balanced. An operator inside a word separates words
+export const sanitizeBooleanQuery = (query: string): string => {
+  const text = query.replace(/[^\p{L}\p{N}\s+\-"*()~<>_']/gu, " ");
+  const tokens: string[] = [];
+  let operator = "";
+  let depth = 0;
+
+  const closeGroup = (): void => {
+    if (tokens[tokens.length - 1]?.endsWith("(")) {
+      tokens.pop(); // Empty group
+    } else {
+      tokens.push(")");
+    }
+    depth--;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (BOOLEAN_OPERATORS.includes(char)) {
+      operator = char;
+      i++;
+    } else if (char === '"') {
+      const end = text.indexOf('"', i + 1);
+      const phrase = text
+        .slice(i + 1, end === -1 ? text.length : end)
+        .replace(/[*()+\-~<>]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+      if (phrase.length > 0) {
+        tokens.push(`${operator}"${phrase}"`);
+      }
+      operator = "";
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === "(") {
+      tokens.push(`${operator}(`);
+      depth++;
+      operator = "";
+      i++;
+    } else if (char === ")") {
+      if (depth > 0) {
+        closeGroup();
+      }
+      operator = "";
+      i++;
+    } else {
+      const word = text.slice(i).match(BOOLEAN_WORD)?.[0];
+      if (!word) {
+        operator = ""; // Whitespace or a stray "*"
+        i++;
+        continue;
+      }
+      i += word.length;
+      const truncated = text[i] === "*";
+      while (text[i] === "*" || (i < text.length && BOOLEAN_OPERATORS.includes(text[i]))) {
+        i++;
+      }
+      tokens.push(`${operator}${word}${truncated ? "*" : ""}`);
+      operator = "";
+    }
+  }
+  while (depth > 0) {
+    closeGroup();
+  }
+
+  return tokens.join(" ").replace(/\( /g, "(").replace(/ \)/g, ")");
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const extractHighlightTerms = (query: string): RegExp | null => {
+  const patterns: string[] = [];
+  const tokenRegex = /([+\-~<>]*)(?:"([^"]+)"|([^\s"()]+))/g;
+
+  for (const match of query.matchAll(tokenRegex)) {
+    const [, operators, phrase, word] = match;
+    if (operators.includes("-")) {
+      continue; // Excluded terms never appear in results
+    }
+
+    if (phrase) {
+      patterns.push(phrase.trim().split(/\s+/).map(escapeRegex).join("\\s+"));
+    } else if (word) {
+      const isPrefix = word.endsWith("*");
+      const term = word.replace(/[*<>~+\-]+$/, "");
+      if (term.length > 0) {
+        patterns.push(isPrefix ? `${escapeRegex(term)}[\\p{L}\\p{N}]*` : escapeRegex(term));
+      }
+    }
+  }
+
+  if (patterns.length === 0) {
+    return null;
+  }
+
+  // Longest patterns first so phrases win over their individual words
+  patterns.sort((a, b) => b.length - a.length);
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${patterns.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+};
+
+const highlight = (text: string, terms: RegExp | null): string => {
+  if (!terms) {
+    return escapeHtml(text);
+  }
+
+  let result = "";
+  let lastIndex = 0;
+  for (const match of text.matchAll(terms)) {
+    const index = match.index ?? 0;
+    result += escapeHtml(text.slice(lastIndex, index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    lastIndex = index + match[0].length;
+  }
+  return result + escapeHtml(text.slice(lastIndex));
+};
+
+const buildSnippet = (text: string | null | undefined, terms: RegExp | null): string | null => {
+  if (!text) {
+    return null;
+  }
+
+  let start = 0;
+  if (terms) {
+    terms.lastIndex = 0;
+    const firstMatch = terms.exec(text);
+    terms.lastIndex = 0;
+    if (firstMatch) {
+      start = Math.max(0, firstMatch.index - SNIPPET_RADIUS);
+    }
+  }
+  const end = Math.min(text.length, start + SNIPPET_RADIUS * 2);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  return prefix + highlight(text.slice(start, end), terms) + suffix;
+};
+
+export const searchProducts = async (
+  query: ProductSearchQuery
+): Promise<{ hits: ProductSearchHit[]; total: number }> => {
+  const db = getDb();
+  const searchText = query.mode === "boolean" ? sanitizeBooleanQuery(query.q) : query.q;
+  if (searchText.length === 0) {
+    return { hits: [], total: 0 };
+  }
+
+  const match =
+    query.mode === "boolean"
+      ? Prisma.sql`MATCH(title, description, brand) AGAINST (${searchText} IN BOOLEAN MODE)`
+      : Prisma.sql`MATCH(title, description, brand) AGAINST (${searchText} IN NATURAL LANGUAGE MODE)`;
+  const listed = query.includeRemoved ? Prisma.empty : Prisma.sql`AND removed_at IS NULL`;
+  const inMarketplace = query.marketplace ? Prisma.sql`AND marketplace = ${query.marketplace}` : Prisma.empty;
+  const inQueue = query.queue ? Prisma.sql`AND queue = ${query.queue}` : Prisma.empty;
+
+  const [ranked, countRows] = await Promise.all([
+    db.$queryRaw<{ marketplace: string; asin: string; relevance: number }[]>`
+      SELECT marketplace, asin, ${match} AS relevance
+      FROM products
+      WHERE ${match} ${listed} ${inMarketplace} ${inQueue}
+      ORDER BY relevance DESC, asin ASC, marketplace ASC
+      LIMIT ${query.limit} OFFSET ${query.offset}`,
+    db.$queryRaw<{ total: bigint }[]>`
+      SELECT COUNT(*) AS total
+      FROM products
+      WHERE ${match} ${listed} ${inMarketplace} ${inQueue}`,
+  ]);
+
+  const total = Number(countRows[0]?.total ?? 0);
+  if (ranked.length === 0) {
+    return { hits: [], total };
+  }
+
+  const rows = await db.product.findMany({
+    where: { OR: ranked.map((r) => ({ marketplace: r.marketplace, asin: r.asin })) },
+  });
+  const rowsByKey = new Map(rows.map((row) => [`${row.marketplace}:${row.asin}`, row]));
+  const terms = extractHighlightTerms(searchText);
+
+  const hits: ProductSearchHit[] = [];
+  for (const { marketplace, asin, relevance } of ranked) {
+    const row = rowsByKey.get(`${marketplace}:${asin}`);
+    if (!row) {
+      continue; // Deleted between the ranking query and the fetch
+    }
+    hits.push({
+      product: toProductRecord(row),
+      relevance: Number(relevance),
+      highlights: {
+        title: highlight(row.title, terms),
+        snippet: buildSnippet(row.description, terms),
+      },
+    });
+  }
+
+  return { hits, total };
+};
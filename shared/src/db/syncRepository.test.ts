@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  SYNC_SAFETY_LAG_MS,
+  buildSyncProductWhere,
+  decodeSyncToken,
+  encodeSyncToken,
+  getSyncHorizon,
+} from "./syncRepository.js";
+
+const encodeRaw = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("sync token", () => {
+  it("round-trips every position", () => {
+    const token = { p: 1_760_000_000_000, a: "B0ABCDEF12", m: "de", t: 42 };
+    assert.deepEqual(decodeSyncToken(encodeSyncToken(token)), token);
+  });
+
+  it("reads a token issued before marketplaces existed as the first marketplace", () => {
+    assert.deepEqual(decodeSyncToken(encodeRaw({ p: 5, a: "B0ABCDEF12", t: 3 })), { p: 5, a: "B0ABCDEF12", m: "", t: 3 });
+  });
+
+  it("rejects malformed tokens", () => {
+    assert.equal(decodeSyncToken("not a token"), null);
+    assert.equal(decodeSyncToken(encodeRaw({ p: 5, a: "B0ABCDEF12" })), null);
+    assert.equal(decodeSyncToken(encodeRaw({ p: -1, a: "", t: 0 })), null);
+    assert.equal(decodeSyncToken(encodeRaw({ p: 5, a: "", t: 1.5 })), null);
+  });
+});
+
+describe("sync safety lag", () => {
+  it("puts the horizon the safety lag before now", () => {
+    const now = Date.parse("2026-10-18T12:00:00.000Z");
+    assert.equal(getSyncHorizon(now).getTime(), now - SYNC_SAFETY_LAG_MS);
+  });
+
+  it("includes writes at the horizon and holds back later ones", () => {
+    const horizon = getSyncHorizon(Date.parse("2026-10-18T12:00:00.000Z"));
+    const where = buildSyncProductWhere({ p: 0, a: "", m: "", t: 0 }, horizon);
+    assert.deepEqual(where.updatedAt, { lte: horizon });
+    assert.equal(where.removedAt, null);
+  });
+
+  it("resumes after the token's position, breaking timestamp ties by ASIN and then marketplace", () => {
+    const horizon = new Date(10_000);
+    const where = buildSyncProductWhere({ p: 2_000, a: "B0ABCDEF12", m: "uk", t: 0 }, horizon, "uk");
+    const after = new Date(2_000);
+    assert.equal(where.marketplace, "uk");
+    assert.deepEqual(where.OR, [
+      { updatedAt: { gt: after } },
+      { updatedAt: after, asin: { gt: "B0ABCDEF12" } },
+      { updatedAt: after, asin: "B0ABCDEF12", marketplace: { gt: "uk" } },
+    ]);
+  });
+});
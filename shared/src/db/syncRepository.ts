@@ -0,0 +1,140 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { getDb } from "./client.js";
+import { toProductRecord, type ProductRecord } from "./productRepository.js";
+import type { MarketplaceId } from "../marketplaces.js";
+
+// Incremental sync for offline clients: products changed since a token plus tombstones for removed ASINs.
+// Writes committed with a timestamp inside the safety lag are held back until the next sync so that
+// slow transactions cannot slip behind a token that has already moved past them.
+export const SYNC_SAFETY_LAG_MS = 5_000;
+
+const syncTokenSchema = z.object({
+  p: z.number().int().nonnegative(), // updatedAt (ms) of the last product delivered
+  a: z.string(), // asin of the last product delivered (tie-breaker for equal timestamps)
+  m: z.string().default(""), // marketplace of the last product delivered (tie-breaker for equal ASINs)
+  t: z.number().int().nonnegative(), // id of the last tombstone delivered
+});
+
+export type SyncToken = z.output<typeof syncTokenSchema>;
+
+export type ProductTombstoneRecord = {
+  marketplace: MarketplaceId;
+  asin: string;
+  pageNumber: number;
+  removedAt: string;
+};
+
+export type ProductChanges = {
+  products: ProductRecord[];
+  tombstones: ProductTombstoneRecord[];
+  syncToken: string;
+  hasMore: boolean;
+};
+
+export const encodeSyncToken = (token: SyncToken): string => {
+  return Buffer.from(JSON.stringify(token)).toString("base64url");
+};
+
+export const decodeSyncToken = (value: string): SyncToken | null => {
+  try {
+    const parsed = syncTokenSchema.safeParse(JSON.parse(Buffer.from(value, "base64url").toString("utf8")));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+// Newest write timestamp a sync delivers: writes at the horizon are included, later ones wait for the next sync
+export const getSyncHorizon = (now: number = Date.now()): Date => new Date(now - SYNC_SAFETY_LAG_MS);
+
+// Live products after the token's (updatedAt, asin, marketplace) position, up to the horizon. Removed products reach
+// clients as tombstones only
+export const buildSyncProductWhere = (
+  token: SyncToken,
+  horizon: Date,
+  marketplace?: MarketplaceId
+): Prisma.ProductWhereInput => {
+  const after = new Date(token.p);
+  return {
+    marketplace,
+    removedAt: null,
+    updatedAt: { lte: horizon },
+    OR: [
+      { updatedAt: { gt: after } },
+      { updatedAt: after, asin: { gt: token.a } },
+      { updatedAt: after, asin: token.a, marketplace: { gt: token.m } },
+    ],
+  };
+};
+
+// A full sync starts from the beginning of the product table but skips tombstones that already exist,
+// since a client with an empty catalog has nothing to remove
+const createInitialSyncToken = async (): Promise<SyncToken> => {
+  const db = getDb();
+  const latest = await db.productTombstone.aggregate({ _max: { id: true } });
+  return { p: 0, a: "", m: "", t: latest._max.id ?? 0 };
+};
+
+// With a marketplace, clients must pass the same one on every call for the token to stay meaningful
+export const getProductChangesSince = async (
+  since: SyncToken | null,
+  limit: number = 500,
+  marketplace?: MarketplaceId
+): Promise<ProductChanges> => {
+  const db = getDb();
+  const token = since ?? (await createInitialSyncToken());
+  const horizon = getSyncHorizon();
+
+  const [rows, tombstoneRows] = await Promise.all([
+    db.product.findMany({
+      where: buildSyncProductWhere(token, horizon, marketplace),
+      orderBy: [{ updatedAt: "asc" }, { asin: "asc" }, { marketplace: "asc" }],
+      take: limit,
+    }),
+    db.productTombstone.findMany({
+      where: { marketplace, id: { gt: token.t }, removedAt: { lte: horizon } },
+      orderBy: { id: "asc" },
+      take: limit,
+    }),
+  ]);
+
+  // Products that were removed and listed again since (page reshuffles) are live again - don't tell clients to drop them
+  const liveProducts =
+    tombstoneRows.length > 0
+      ? new Set(
+          (
+            await db.product.findMany({
+              where: {
+                OR: tombstoneRows.map((row) => ({ marketplace: row.marketplace, asin: row.asin })),
+                removedAt: null,
+              },
+              select: { marketplace: true, asin: true },
+            })
+          ).map((row) => `${row.marketplace}:${row.asin}`)
+        )
+      : new Set<string>();
+
+  const lastRow = rows[rows.length - 1];
+  const lastTombstone = tombstoneRows[tombstoneRows.length - 1];
+  const nextToken: SyncToken = {
+    p: lastRow ? lastRow.updatedAt.getTime() : token.p,
+    a: lastRow ? lastRow.asin : token.a,
+    m: lastRow ? lastRow.marketplace : token.m,
+    t: lastTombstone ? lastTombstone.id : token.t,
+  };
+
+  return {
+    products: rows.map(toProductRecord),
+    tombstones: tombstoneRows
+      .filter((row) => !liveProducts.has(`${row.marketplace}:${row.asin}`))
+      .map((row) => ({
+        marketplace: row.marketplace as MarketplaceId,
+        asin: row.asin,
+        pageNumber: row.pageNumber,
+        removedAt: row.removedAt.toISOString(),
+      })),
+    syncToken: encodeSyncToken(nextToken),
+    hasMore: rows.length === limit || tombstoneRows.length === limit,
+  };
+};
@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ProductRecord } from "./productRepository.js";
+import {
+  compileWatchlist,
+  hasNestedQuantifier,
+  matchesWatchlist,
+  watchlistInputSchema,
+  type WatchlistRecord,
+} from "./watchlistRepository.js";
+
+const product = (overrides: Partial<ProductRecord> = {}): ProductRecord => ({
+  marketplace: "us",
+  asin: "B0ABCDEF12",
+  queue: "encore",
+  url: "https://www.amazon.com/dp/B0ABCDEF12",
+  title: "LEGO Star Wars Millennium Falcon",
+  pageNumber: 1,
+  images: [],
+  priceCents: 5999,
+  currencyCode: "USD",
+  rating: 4.5,
+  ratingCount: 120,
+  brand: "LEGO",
+  category: "Toys",
+  ...overrides,
+});
+
+const rule = (overrides: Partial<WatchlistRecord> = {}): WatchlistRecord => ({
+  id: 1,
+  name: "Lego",
+  marketplace: "us",
+  includeKeywords: [],
+  excludeKeywords: [],
+  pattern: null,
+  fields: ["title", "brand", "category"],
+  minPrice: null,
+  maxPrice: null,
+  minRating: null,
+  minRatingCount: null,
+  enabled: true,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+const matches = (overrides: Partial<WatchlistRecord>, item: ProductRecord = product()): boolean => {
+  const compiled = compileWatchlist(rule(overrides));
+  assert.ok(compiled);
+  return matchesWatchlist(compiled, item);
+};
+
+describe("matchesWatchlist", () => {
+  it("only matches products of the rule's marketplace", () => {
+    assert.equal(matches({ includeKeywords: ["lego"] }), true);
+    assert.equal(matches({ includeKeywords: ["lego"], marketplace: "uk" }), false);
+  });
+
+  it("compares price bounds in the marketplace currency", () => {
+    assert.equal(matches({ minPrice: 5000, maxPrice: 6000 }), true);
+    assert.equal(matches({ minPrice: 5000 }, product({ currencyCode: null })), true);
+    assert.equal(matches({ minPrice: 5000 }, product({ currencyCode: "EUR" })), false);
+    assert.equal(matches({ marketplace: "uk", minPrice: 5000 }, product({ marketplace: "uk", currencyCode: "GBP" })), true);
+  });
+
+  it("applies price bounds inclusively and never to an unknown price", () => {
+    assert.equal(matches({ minPrice: 5999, maxPrice: 5999 }), true);
+    assert.equal(matches({ minPrice: 6000 }), false);
+    assert.equal(matches({ maxPrice: 5998 }), false);
+    assert.equal(matches({ maxPrice: 10000 }, product({ priceCents: null })), false);
+  });
+
+  it("requires the minimum rating and rating count", () => {
+    assert.equal(matches({ minRating: 4.5, minRatingCount: 120 }), true);
+    assert.equal(matches({ minRating: 4.6 }), false);
+    assert.equal(matches({ minRatingCount: 121 }), false);
+    assert.equal(matches({ minRating: 1 }, product({ rating: null })), false);
+  });
+
+  it("needs one include keyword and no exclude keyword in the chosen fields, ignoring case", () => {
+    assert.equal(matches({ includeKeywords: ["duplo", "FALCON"] }), true);
+    assert.equal(matches({ includeKeywords: ["duplo"] }), false);
+    assert.equal(matches({ includeKeywords: ["lego"], excludeKeywords: ["star wars"] }), false);
+    assert.equal(matches({ includeKeywords: ["toys"], fields: ["title"] }), false);
+    assert.equal(matches({ includeKeywords: ["toys"], fields: ["category"] }), true);
+  });
+
+  it("matches the pattern case-insensitively against one of the fields", () => {
+    assert.equal(matches({ pattern: "^lego star" }), true);
+    assert.equal(matches({ pattern: "falcon$", fields: ["brand"] }), false);
+    assert.equal(matches({ pattern: "^toys$" }), true);
+  });
+});
+
+describe("watchlist patterns", () => {
+  it("detects quantified groups that contain a quantifier", () => {
+    assert.equal(hasNestedQuantifier("(a+)+$"), true);
+    assert.equal(hasNestedQuantifier("(a*)*"), true);
+    assert.equal(hasNestedQuantifier("((ab)+){2,}"), true);
+    assert.equal(hasNestedQuantifier("(?:foo\\d+)+"), true);
+  });
+
+  it("allows quantifiers that do not nest", () => {
+    assert.equal(hasNestedQuantifier("lego (star|wars)+"), false);
+    assert.equal(hasNestedQuantifier("(a+)?"), false);
+    assert.equal(hasNestedQuantifier("\\(a+\\)+"), false);
+    assert.equal(hasNestedQuantifier("[(a+)]+"), false);
+    assert.equal(hasNestedQuantifier("\\d+ pack"), false);
+  });
+
+  it("rejects a nested quantifier in the input and skips one already stored", () => {
+    const parsed = watchlistInputSchema.safeParse({ name: "Bad", pattern: "(a+)+$" });
+    assert.equal(parsed.success, false);
+    assert.equal(compileWatchlist(rule({ pattern: "(a+)+$" })), null);
+  });
+});
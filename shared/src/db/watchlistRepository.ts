@@ -0,0 +1,396 @@
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import type { Watchlist, WatchMatch } from "@prisma/client";
+import { getDb } from "./client.js";
+import { logger } from "../logger.js";
+import type { ProductRecord } from "./productRepository.js";
+import { writeWebhookOutboxEvents } from "./webhookRepository.js";
+import { DEFAULT_MARKETPLACE, MARKETPLACES, marketplaceSchema, type MarketplaceId } from "../marketplaces.js";
+
+// Watchlists are keyword/price/rating rules evaluated against every product the product worker stores. A rule belongs
+// to one marketplace, so its price bounds are always compared in that marketplace's currency.
+// A hit is written to watch_matches, whose (watchlist, marketplace, ASIN) unique key makes each match fire only once,
+// together with a watchlist.match webhook outbox event
+
+export const WATCHLIST_FIELDS = ["title", "brand", "category"] as const;
+
+export type WatchlistField = (typeof WATCHLIST_FIELDS)[number];
+
+const RULES_CACHE_TTL_MS = 30_000; // The product worker evaluates every stored product, so rules are not re-read each time
+
+const keywordListSchema = z.array(z.string().trim().min(1).max(100)).max(50).default([]);
+
+// Patterns run in the product worker on every stored product, so a repeated group that itself repeats - (a+)+, (a*)*,
+// (a?){2,} - is rejected: it backtracks exponentially and can stall the worker
+export const hasNestedQuantifier = (pattern: string): boolean => {
+  const groups: boolean[] = []; // Per open group: whether its body contains a quantifier
+  let closedGroupQuantified = false; // The group that just closed contained a quantifier
+  let index = 0;
+
+  const markQuantifier = (): void => {
+    if (groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  };
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+    const followsClosedGroup = closedGroupQuantified;
+    closedGroupQuantified = false;
+
+    if (char === "\\") {
+      index += 2;
+    } else if (char === "[") {
+      // Skip the character class - nothing inside it is a quantifier or group
+      index++;
+      while (index < pattern.length && pattern[index] !== "]") {
+        index += pattern[index] === "\\" ? 2 : 1;
+      }
+      index++;
+    } else if (char === "(") {
+      groups.push(false);
+      index++;
+      if (pattern[index] === "?") {
+        index++; // (?: (?= (?! (?<name> - the ? is not a quantifier
+      }
+    } else if (char === ")") {
+      const quantified = groups.pop() ?? false;
+      closedGroupQuantified = quantified;
+      if (quantified) {
+        markQuantifier(); // The enclosing group contains it too
+      }
+      index++;
+    } else if (char === "*" || char === "+" || char === "?" || (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(index)))) {
+      const repeats = char !== "?"; // A trailing ? runs the group at most once
+      if (followsClosedGroup && repeats) {
+        return true;
+      }
+      markQuantifier();
+      index = char === "{" ? pattern.indexOf("}", index) + 1 : index + 1;
+      if (pattern[index] === "?" || pattern[index] === "+") {
+        index++; // Lazy or possessive modifier
+      }
+    } else {
+      index++;
+    }
+  }
+  return false;
+};
+
+export const watchlistInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    marketplace: marketplaceSchema.default(DEFAULT_MARKETPLACE).describe("Only items of this marketplace match"),
+    includeKeywords: keywordListSchema.describe("At least one must appear in the matched fields (case-insensitive)"),
+    excludeKeywords: keywordListSchema.describe("None may appear in the matched fields (case-insensitive)"),
+    pattern: z
+      .string()
+      .min(1)
+      .max(200)
+      .nullable()
+      .optional()
+      .describe("Case-insensitive regular expression that must match one of the fields; nested quantifiers such as (a+)+ are rejected"),
+    fields: z.array(z.enum(WATCHLIST_FIELDS)).min(1).default([...WATCHLIST_FIELDS]),
+    minPrice: z.number().int().nonnegative().nullable().optional().describe("Minimum price in minor units (x100) of the marketplace currency"),
+    maxPrice: z.number().int().nonnegative().nullable().optional().describe("Maximum price in minor units (x100) of the marketplace currency"),
+    minRating: z.number().min(0).max(5).nullable().optional(),
+    minRatingCount: z.number().int().nonnegative().nullable().optional(),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((input, ctx) => {
+    if (input.pattern) {
+      try {
+        new RegExp(input.pattern, "i");
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "pattern is not a valid regular expression", path: ["pattern"] });
+        return;
+      }
+      if (hasNestedQuantifier(input.pattern)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "pattern must not repeat a group that contains a quantifier, such as (a+)+",
+          path: ["pattern"],
+        });
+      }
+    }
+    if (input.minPrice != null && input.maxPrice != null && input.minPrice > input.maxPrice) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "minPrice must be less than or equal to maxPrice", path: ["minPrice"] });
+    }
+    // A rule without any positive criterion would match the whole queue
+    const hasCriterion =
+      input.includeKeywords.length > 0 ||
+      !!input.pattern ||
+      input.minPrice != null ||
+      input.maxPrice != null ||
+      input.minRating != null ||
+      input.minRatingCount != null;
+    if (!hasCriterion) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Watchlist needs at least one keyword, pattern, price or rating criterion" });
+    }
+  });
+
+export type WatchlistInput = z.infer<typeof watchlistInputSchema>;
+
+export type WatchlistRecord = {
+  id: number;
+  name: string;
+  marketplace: MarketplaceId;
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  pattern: string | null;
+  fields: WatchlistField[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  minRating: number | null;
+  minRatingCount: number | null;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type WatchMatchRecord = {
+  id: number;
+  watchlistId: number;
+  marketplace: MarketplaceId;
+  asin: string;
+  title: string;
+  priceCents: number | null;
+  matchedAt: Date;
+};
+
+const toStringArray = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+};
+
+const toWatchlistRecord = (row: Watchlist): WatchlistRecord => ({
+  id: row.id,
+  name: row.name,
+  marketplace: row.marketplace as MarketplaceId,
+  includeKeywords: toStringArray(row.includeKeywords),
+  excludeKeywords: toStringArray(row.excludeKeywords),
+  pattern: row.pattern,
+  fields: toStringArray(row.fields).filter((field): field is WatchlistField => (WATCHLIST_FIELDS as readonly string[]).includes(field)),
+  minPrice: row.minPrice,
+  maxPrice: row.maxPrice,
+  minRating: row.minRating !== null ? Number(row.minRating) : null,
+  minRatingCount: row.minRatingCount,
+  enabled: row.enabled,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+const toWatchMatchRecord = (row: WatchMatch): WatchMatchRecord => ({
+  id: row.id,
+  watchlistId: row.watchlistId,
+  marketplace: row.marketplace as MarketplaceId,
+  asin: row.asin,
+  title: row.title,
+  priceCents: row.priceCents,
+  matchedAt: row.matchedAt,
+});
+
+const toWatchlistData = (input: WatchlistInput) => ({
+  name: input.name,
+  marketplace: input.marketplace,
+  includeKeywords: input.includeKeywords,
+  excludeKeywords: input.excludeKeywords,
+  pattern: input.pattern ?? null,
+  fields: input.fields,
+  minPrice: input.minPrice ?? null,
+  maxPrice: input.maxPrice ?? null,
+  minRating: input.minRating ?? null,
+  minRatingCount: input.minRatingCount ?? null,
+  enabled: input.enabled,
+});
+
+export const listWatchlists = async (): Promise<WatchlistRecord[]> => {
+  const db = getDb();
+  const rows = await db.watchlist.findMany({ orderBy: { id: "asc" } });
+  return rows.map(toWatchlistRecord);
+};
+
+export const getWatchlist = async (id: number): Promise<WatchlistRecord | null> => {
+  const db = getDb();
+  const row = await db.watchlist.findUnique({ where: { id } });
+  return row ? toWatchlistRecord(row) : null;
+};
+
+export const createWatchlist = async (input: WatchlistInput): Promise<WatchlistRecord> => {
+  const db = getDb();
+  const row = await db.watchlist.create({ data: toWatchlistData(input) });
+  return toWatchlistRecord(row);
+};
+
+// Replaces the whole rule. Existing matches are kept, so products that already fired do not fire again
+export const updateWatchlist = async (id: number, input: WatchlistInput): Promise<WatchlistRecord | null> => {
+  const db = getDb();
+  const result = await db.watchlist.updateMany({ where: { id }, data: toWatchlistData(input) });
+  return result.count > 0 ? getWatchlist(id) : null;
+};
+
+export const deleteWatchlist = async (id: number): Promise<boolean> => {
+  const db = getDb();
+  const result = await db.watchlist.deleteMany({ where: { id } });
+  return result.count > 0;
+};
+
+export const getWatchMatches = async (
+  watchlistId: number,
+  limit = 100,
+  offset = 0
+): Promise<{ matches: WatchMatchRecord[]; total: number }> => {
+  const db = getDb();
+  const [rows, total] = await Promise.all([
+    db.watchMatch.findMany({
+      where: { watchlistId },
+      orderBy: { id: "desc" },
+      take: limit,
+      skip: offset,
+    }),
+    db.watchMatch.count({ where: { watchlistId } }),
+  ]);
+  return { matches: rows.map(toWatchMatchRecord), total };
+};
+
+export type CompiledWatchlist = {
+  rule: WatchlistRecord;
+  include: string[];
+  exclude: string[];
+  pattern: RegExp | null;
+};
+
+let rulesCache: { rules: CompiledWatchlist[]; loadedAt: number } | null = null;
+
+// Rules stored before nested quantifiers were rejected are skipped rather than run
+export const compileWatchlist = (rule: WatchlistRecord): CompiledWatchlist | null => {
+  let pattern: RegExp | null = null;
+  if (rule.pattern) {
+    if (hasNestedQuantifier(rule.pattern)) {
+      logger.warn({ watchlistId: rule.id, pattern: rule.pattern }, "Skipping watchlist with a nested quantifier in its pattern");
+      return null;
+    }
+    try {
+      pattern = new RegExp(rule.pattern, "i");
+    } catch {
+      logger.warn({ watchlistId: rule.id, pattern: rule.pattern }, "Skipping watchlist with an invalid pattern");
+      return null;
+    }
+  }
+  return {
+    rule,
+    include: rule.includeKeywords.map((keyword) => keyword.toLowerCase()),
+    exclude: rule.excludeKeywords.map((keyword) => keyword.toLowerCase()),
+    pattern,
+  };
+};
+
+const getEnabledWatchlists = async (): Promise<CompiledWatchlist[]> => {
+  if (rulesCache && Date.now() - rulesCache.loadedAt < RULES_CACHE_TTL_MS) {
+    return rulesCache.rules;
+  }
+  const db = getDb();
+  const rows = await db.watchlist.findMany({ where: { enabled: true } });
+  const rules = rows
+    .map((row) => compileWatchlist(toWatchlistRecord(row)))
+    .filter((rule): rule is CompiledWatchlist => rule !== null);
+  rulesCache = { rules, loadedAt: Date.now() };
+  return rules;
+};
+
+export const matchesWatchlist = (compiled: CompiledWatchlist, product: ProductRecord): boolean => {
+  const { rule } = compiled;
+  if (product.marketplace !== rule.marketplace) {
+    return false;
+  }
+
+  // Bounds only match products that have the value - an unknown price, or one shown in another currency than the
+  // marketplace's, never satisfies a price rule
+  const priceCents =
+    product.currencyCode == null || product.currencyCode === MARKETPLACES[rule.marketplace].currency ? product.priceCents : null;
+  if (rule.minPrice !== null && (priceCents == null || priceCents < rule.minPrice)) {
+    return false;
+  }
+  if (rule.maxPrice !== null && (priceCents == null || priceCents > rule.maxPrice)) {
+    return false;
+  }
+  if (rule.minRating !== null && (product.rating === null || product.rating < rule.minRating)) {
+    return false;
+  }
+  if (rule.minRatingCount !== null && (product.ratingCount === null || product.ratingCount < rule.minRatingCount)) {
+    return false;
+  }
+
+  const values = rule.fields.map((field) => product[field]).filter((value): value is string => !!value);
+  const text = values.join("\n").toLowerCase();
+
+  if (compiled.exclude.some((keyword) => text.includes(keyword))) {
+    return false;
+  }
+  if (compiled.include.length > 0 && !compiled.include.some((keyword) => text.includes(keyword))) {
+    return false;
+  }
+  if (compiled.pattern && !values.some((value) => compiled.pattern!.test(value))) {
+    return false;
+  }
+  return true;
+};
+
+// Returns only the matches that are new - a product that already fired a rule is skipped by the unique key
+export const recordWatchMatches = async (product: ProductRecord): Promise<WatchMatchRecord[]> => {
+  const rules = await getEnabledWatchlists();
+  const matchedRules = new Map(
+    rules.filter((compiled) => matchesWatchlist(compiled, product)).map((compiled) => [compiled.rule.id, compiled.rule] as const)
+  );
+  const matched = [...matchedRules.keys()];
+  if (matched.length === 0) {
+    return [];
+  }
+
+  const db = getDb();
+  const existing = await db.watchMatch.findMany({
+    where: { marketplace: product.marketplace, asin: product.asin, watchlistId: { in: matched } },
+    select: { watchlistId: true },
+  });
+  const alreadyMatched = new Set(existing.map((row) => row.watchlistId));
+  const fresh = matched.filter((watchlistId) => !alreadyMatched.has(watchlistId));
+  if (fresh.length === 0) {
+    return [];
+  }
+
+  // One insert per rule so only the worker whose insert wins reports the match. The watchlist.match outbox event is
+  // written in the same transaction, so subscribers are notified exactly when the match is recorded
+  const created: WatchMatchRecord[] = [];
+  for (const watchlistId of fresh) {
+    const rule = matchedRules.get(watchlistId)!;
+    try {
+      const row = await db.$transaction(async (tx) => {
+        const match = await tx.watchMatch.create({
+          data: {
+            watchlistId,
+            marketplace: product.marketplace,
+            asin: product.asin,
+            title: product.title,
+            priceCents: product.priceCents,
+          },
+        });
+        await writeWebhookOutboxEvents(tx, "watchlist.match", [
+          {
+            marketplace: product.marketplace,
+            asin: product.asin,
+            pageNumber: product.pageNumber,
+            product,
+            watchlist: { id: rule.id, name: rule.name },
+          },
+        ]);
+        return match;
+      });
+      created.push(toWatchMatchRecord(row));
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        continue; // Recorded concurrently by another product worker
+      }
+      throw error;
+    }
+  }
+  return created;
+};
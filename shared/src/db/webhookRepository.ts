@@ -0,0 +1,310 @@
+import { randomBytes } from "node:crypto";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import type { WebhookDelivery, WebhookSubscription } from "@prisma/client";
+import { getDb } from "./client.js";
+import type { ProductRecord } from "./productRepository.js";
+import type { MarketplaceId } from "../marketplaces.js";
+
+// Webhook subscriptions, the transactional outbox the product worker writes to, and the per-subscription delivery log
+
+export const WEBHOOK_EVENT_TYPES = ["product.added", "product.removed", "watchlist.match"] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "dead"] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+const SECRET_PREFIX_LENGTH = 12;
+
+export const webhookSubscriptionCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z
+    .string()
+    .url()
+    .refine((value) => /^https?:\/\//i.test(value), "url must use http or https"),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).default([...WEBHOOK_EVENT_TYPES]),
+  enabled: z.boolean().default(true),
+});
+
+export type WebhookSubscriptionCreateInput = z.infer<typeof webhookSubscriptionCreateSchema>;
+
+export type WebhookSubscriptionRecord = {
+  id: number;
+  name: string;
+  url: string;
+  secretPrefix: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type WebhookEventPayload = {
+  marketplace: MarketplaceId;
+  asin: string;
+  pageNumber: number;
+  product: ProductRecord | null; // null for product.removed
+  watchlist?: { id: number; name: string }; // watchlist.match only: the rule the product matched
+};
+
+export type WebhookDeliveryRecord = {
+  id: number;
+  outboxId: number;
+  subscriptionId: number;
+  eventType: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const toEventTypes = (value: unknown): WebhookEventType[] => {
+  return Array.isArray(value)
+    ? value.filter((type): type is WebhookEventType => (WEBHOOK_EVENT_TYPES as readonly string[]).includes(type))
+    : [];
+};
+
+const toWebhookSubscriptionRecord = (row: WebhookSubscription): WebhookSubscriptionRecord => ({
+  id: row.id,
+  name: row.name,
+  url: row.url,
+  secretPrefix: row.secret.slice(0, SECRET_PREFIX_LENGTH),
+  events: toEventTypes(row.events),
+  enabled: row.enabled,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+const toWebhookDeliveryRecord = (row: WebhookDelivery): WebhookDeliveryRecord => ({
+  id: row.id,
+  outboxId: row.outboxId,
+  subscriptionId: row.subscriptionId,
+  eventType: row.eventType,
+  status: row.status as WebhookDeliveryStatus,
+  attempts: row.attempts,
+  responseStatus: row.responseStatus,
+  lastError: row.lastError,
+  deliveredAt: row.deliveredAt,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+// Subscriptions
+
+export const createWebhookSubscription = async (
+  input: WebhookSubscriptionCreateInput
+): Promise<{ secret: string; subscription: WebhookSubscriptionRecord }> => {
+  const db = getDb();
+  const secret = `whsec_${randomBytes(24).toString("base64url")}`;
+  const row = await db.webhookSubscription.create({
+    data: {
+      name: input.name,
+      url: input.url,
+      secret,
+      events: input.events,
+      enabled: input.enabled,
+    },
+  });
+  return { secret, subscription: toWebhookSubscriptionRecord(row) };
+};
+
+export const listWebhookSubscriptions = async (): Promise<WebhookSubscriptionRecord[]> => {
+  const db = getDb();
+  const rows = await db.webhookSubscription.findMany({ orderBy: { id: "asc" } });
+  return rows.map(toWebhookSubscriptionRecord);
+};
+
+export const setWebhookSubscriptionEnabled = async (id: number, enabled: boolean): Promise<WebhookSubscriptionRecord | null> => {
+  const db = getDb();
+  const result = await db.webhookSubscription.updateMany({ where: { id }, data: { enabled } });
+  if (result.count === 0) {
+    return null;
+  }
+  const row = await db.webhookSubscription.findUnique({ where: { id } });
+  return row ? toWebhookSubscriptionRecord(row) : null;
+};
+
+// Deleting a subscription also deletes its delivery log
+export const deleteWebhookSubscription = async (id: number): Promise<boolean> => {
+  const db = getDb();
+  const result = await db.webhookSubscription.deleteMany({ where: { id } });
+  return result.count > 0;
+};
+
+// Outbox
+
+// Called inside the transaction that changes the product rows, so an event exists if and only if the change committed
+export const writeWebhookOutboxEvents = async (
+  tx: Prisma.TransactionClient,
+  type: WebhookEventType,
+  events: WebhookEventPayload[]
+): Promise<void> => {
+  if (events.length === 0) {
+    return;
+  }
+  const occurredAt = new Date().toISOString();
+  await tx.webhookOutbox.createMany({
+    data: events.map((event) => ({
+      eventType: type,
+      marketplace: event.marketplace,
+      asin: event.asin,
+      pageNumber: event.pageNumber,
+      // Round-trip through JSON so undefined fields are dropped
+      payload: JSON.parse(JSON.stringify({ ...event, occurredAt })) as Prisma.InputJsonValue,
+    })),
+  });
+};
+
+export type WebhookOutboxEvent = {
+  id: number;
+  eventType: WebhookEventType;
+  payload: WebhookEventPayload & { occurredAt: string };
+};
+
+// Claims each pending outbox event and creates one pending delivery per matching subscription, in one transaction.
+// Concurrent dispatchers (several API instances) skip events another instance has already claimed
+export const dispatchWebhookOutbox = async (batchSize = 100): Promise<number[]> => {
+  const db = getDb();
+  const pending = await db.webhookOutbox.findMany({
+    where: { dispatchedAt: null },
+    orderBy: { id: "asc" },
+    take: batchSize,
+    select: { id: true, eventType: true },
+  });
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const subscriptions = (await db.webhookSubscription.findMany({ where: { enabled: true } })).map(toWebhookSubscriptionRecord);
+  const deliveryIds: number[] = [];
+
+  for (const event of pending) {
+    const targets = subscriptions.filter((subscription) => subscription.events.includes(event.eventType as WebhookEventType));
+    const ids = await db.$transaction(async (tx) => {
+      const claimed = await tx.webhookOutbox.updateMany({
+        where: { id: event.id, dispatchedAt: null },
+        data: { dispatchedAt: new Date() },
+      });
+      if (claimed.count === 0 || targets.length === 0) {
+        return [];
+      }
+      await tx.webhookDelivery.createMany({
+        data: targets.map((subscription) => ({
+          outboxId: event.id,
+          subscriptionId: subscription.id,
+          eventType: event.eventType,
+          status: "pending",
+        })),
+        skipDuplicates: true,
+      });
+      const rows = await tx.webhookDelivery.findMany({ where: { outboxId: event.id }, select: { id: true } });
+      return rows.map((row) => row.id);
+    });
+    deliveryIds.push(...ids);
+  }
+
+  return deliveryIds;
+};
+
+// Pending deliveries untouched for a while - their job may have been lost (e.g. Redis was flushed)
+export const getStalePendingDeliveryIds = async (olderThan: Date, limit = 500): Promise<number[]> => {
+  const db = getDb();
+  const rows = await db.webhookDelivery.findMany({
+    where: { status: "pending", updatedAt: { lt: olderThan } },
+    orderBy: { id: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+  return rows.map((row) => row.id);
+};
+
+export const pruneWebhookLogs = async (olderThan: Date): Promise<number> => {
+  const db = getDb();
+  const result = await db.webhookOutbox.deleteMany({
+    where: { dispatchedAt: { not: null }, createdAt: { lt: olderThan }, deliveries: { none: { status: "pending" } } },
+  });
+  return result.count;
+};
+
+// Deliveries
+
+export type WebhookDeliveryTarget = {
+  delivery: WebhookDeliveryRecord;
+  subscription: WebhookSubscriptionRecord & { secret: string };
+  event: WebhookOutboxEvent;
+};
+
+export const getWebhookDeliveryTarget = async (id: number): Promise<WebhookDeliveryTarget | null> => {
+  const db = getDb();
+  const row = await db.webhookDelivery.findUnique({
+    where: { id },
+    include: { subscription: true, outbox: true },
+  });
+  if (!row) {
+    return null;
+  }
+  return {
+    delivery: toWebhookDeliveryRecord(row),
+    subscription: { ...toWebhookSubscriptionRecord(row.subscription), secret: row.subscription.secret },
+    event: {
+      id: row.outbox.id,
+      eventType: row.outbox.eventType as WebhookEventType,
+      payload: row.outbox.payload as WebhookOutboxEvent["payload"],
+    },
+  };
+};
+
+export const recordWebhookAttempt = async (
+  id: number,
+  outcome: { status: WebhookDeliveryStatus; responseStatus: number | null; error: string | null }
+): Promise<void> => {
+  const db = getDb();
+  await db.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: outcome.status,
+      attempts: { increment: 1 },
+      responseStatus: outcome.responseStatus,
+      lastError: outcome.error,
+      deliveredAt: outcome.status === "delivered" ? new Date() : undefined,
+    },
+  });
+};
+
+// Puts a dead-lettered delivery back to pending; false when it does not exist or is not dead
+export const resetDeadWebhookDelivery = async (id: number): Promise<boolean> => {
+  const db = getDb();
+  const result = await db.webhookDelivery.updateMany({
+    where: { id, status: "dead" },
+    data: { status: "pending", lastError: null },
+  });
+  return result.count > 0;
+};
+
+export const getWebhookDeliveries = async (
+  filter: { subscriptionId?: number; status?: WebhookDeliveryStatus; eventType?: WebhookEventType },
+  limit = 100,
+  offset = 0
+): Promise<{ deliveries: WebhookDeliveryRecord[]; total: number }> => {
+  const db = getDb();
+  const where: Prisma.WebhookDeliveryWhereInput = {
+    subscriptionId: filter.subscriptionId,
+    status: filter.status,
+    eventType: filter.eventType,
+  };
+  const [rows, total] = await Promise.all([
+    db.webhookDelivery.findMany({
+      where,
+      orderBy: { id: "desc" },
+      take: limit,
+      skip: offset,
+    }),
+    db.webhookDelivery.count({ where }),
+  ]);
+  return { deliveries: rows.map(toWebhookDeliveryRecord), total };
+};
@@ -0,0 +1,119 @@
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+import { redisConnection, REDIS_KEY_PRODUCT_EVENTS, REDIS_CHANNEL_PRODUCT_EVENTS } from "../queue/index.js";
+import type { ProductRecord } from "../db/productRepository.js";
+import { DEFAULT_MARKETPLACE, type MarketplaceId } from "../marketplaces.js";
+
+// Product change events are appended to a capped Redis stream (for Last-Event-ID replay)
+// and published on a pub/sub channel so every API instance can push them to its SSE clients
+
+export const PRODUCT_EVENT_TYPES = ["product.added", "product.updated", "product.removed"] as const;
+
+export type ProductEventType = (typeof PRODUCT_EVENT_TYPES)[number];
+
+export type ProductEvent = {
+  id: string; // Redis stream entry ID, used as the SSE event ID
+  type: ProductEventType;
+  marketplace: MarketplaceId;
+  asin: string;
+  pageNumber: number;
+  product: ProductRecord | null; // null for product.removed
+  occurredAt: string;
+};
+
+const STREAM_ID_PATTERN = /^\d+-\d+$/;
+
+export const isProductEventId = (value: string): boolean => STREAM_ID_PATTERN.test(value);
+
+// Returns a negative number, zero or a positive number like a sort comparator
+export const compareProductEventIds = (a: string, b: string): number => {
+  const [aMs, aSeq] = a.split("-").map(BigInt);
+  const [bMs, bSeq] = b.split("-").map(BigInt);
+  if (aMs !== bMs) {
+    return aMs < bMs ? -1 : 1;
+  }
+  return aSeq === bSeq ? 0 : aSeq < bSeq ? -1 : 1;
+};
+
+export const publishProductEvent = async (
+  type: ProductEventType,
+  payload: { marketplace: MarketplaceId; asin: string; pageNumber: number; product?: ProductRecord | null }
+): Promise<void> => {
+  const body = {
+    type,
+    marketplace: payload.marketplace,
+    asin: payload.asin,
+    pageNumber: payload.pageNumber,
+    product: payload.product ?? null,
+    occurredAt: new Date().toISOString(),
+  };
+
+  try {
+    const id = await redisConnection.xadd(
+      REDIS_KEY_PRODUCT_EVENTS,
+      "MAXLEN",
+      "~",
+      config.PRODUCT_EVENTS_MAX_LENGTH.toString(),
+      "*",
+      "event",
+      JSON.stringify(body)
+    );
+    if (!id) {
+      return;
+    }
+
+    const event: ProductEvent = { id, ...body };
+    await redisConnection.publish(REDIS_CHANNEL_PRODUCT_EVENTS, JSON.stringify(event));
+  } catch (error) {
+    // Event delivery is best effort - never fail a crawl because of it
+    logger.warn({ error, type, marketplace: payload.marketplace, asin: payload.asin }, "Failed to publish product event");
+  }
+};
+
+const parseStreamEntry = ([id, fields]: [string, string[]]): ProductEvent | null => {
+  const eventIndex = fields.indexOf("event");
+  if (eventIndex === -1 || eventIndex + 1 >= fields.length) {
+    return null;
+  }
+  try {
+    // Entries written before marketplaces existed carry no marketplace
+    return { id, marketplace: DEFAULT_MARKETPLACE, ...JSON.parse(fields[eventIndex + 1]) } as ProductEvent;
+  } catch {
+    return null;
+  }
+};
+
+// Events strictly after lastEventId, oldest first
+export const readProductEventsSince = async (lastEventId: string, count: number = 500): Promise<ProductEvent[]> => {
+  const entries = await redisConnection.xrange(REDIS_KEY_PRODUCT_EVENTS, `(${lastEventId}`, "+", "COUNT", count);
+  return entries.map(parseStreamEntry).filter((event): event is ProductEvent => event !== null);
+};
+
+// ID of the oldest event still retained, or null if the stream is empty
+export const getOldestProductEventId = async (): Promise<string | null> => {
+  const entries = await redisConnection.xrange(REDIS_KEY_PRODUCT_EVENTS, "-", "+", "COUNT", 1);
+  return entries[0]?.[0] ?? null;
+};
+
+// Subscribes on a dedicated connection (a subscribed Redis connection cannot run other commands)
+export const subscribeToProductEvents = async (
+  handler: (event: ProductEvent) => void
+): Promise<() => Promise<void>> => {
+  const subscriber = redisConnection.duplicate();
+  subscriber.on("message", (channel: string, message: string) => {
+    if (channel !== REDIS_CHANNEL_PRODUCT_EVENTS) {
+      return;
+    }
+    try {
+      handler(JSON.parse(message) as ProductEvent);
+    } catch (error) {
+      logger.warn({ error }, "Failed to handle product event message");
+    }
+  });
+  await subscriber.subscribe(REDIS_CHANNEL_PRODUCT_EVENTS);
+
+  return async () => {
+    await subscriber.unsubscribe(REDIS_CHANNEL_PRODUCT_EVENTS);
+    await subscriber.quit();
+  };
+};
@@ -1,6 +1,24 @@
 export * from "./config.js";
+export * from "./marketplaces.js";
 export * from "./logger.js";
+export * from "./metrics.js";
 export * from "./db/client.js";
+export * from "./db/migrationStatus.js";
 export * from "./db/productRepository.js";
+export * from "./db/productHistory.js";
+export * from "./db/productSearch.js";
+export * from "./db/syncRepository.js";
+export * from "./db/productExport.js";
+export * from "./db/crawlEventRepository.js";
+export * from "./db/crawlRunRepository.js";
+export * from "./db/apiKeyRepository.js";
+export * from "./db/adminAuditRepository.js";
+export * from "./db/watchlistRepository.js";
+export * from "./db/webhookRepository.js";
 export * from "./queue/index.js";
+export * from "./queue/workerStatus.js";
+export * from "./queue/crawlControl.js";
+export * from "./queue/responseCache.js";
+export * from "./queue/webhookDelivery.js";
+export * from "./events/productEvents.js";
 
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MARKETPLACES, parseMarketplacePrice } from "./marketplaces.js";
+
+describe("parseMarketplacePrice", () => {
+  it("parses a dollar price with a thousands separator", () => {
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.us, "$1,234.56"), { priceCents: 123456, currencyCode: "USD" });
+  });
+
+  it("takes the currency from the symbol", () => {
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.us, "£12.99"), { priceCents: 1299, currencyCode: "GBP" });
+  });
+
+  it("reads a comma as the decimal point when it is not followed by three digits", () => {
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.de, "12,99 €"), { priceCents: 1299, currencyCode: "EUR" });
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.de, "1.234,56 €"), { priceCents: 123456, currencyCode: "EUR" });
+  });
+
+  it("stores yen x100 like every other currency", () => {
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.jp, "￥1,234"), { priceCents: 123400, currencyCode: "JPY" });
+  });
+
+  it("takes the currency from an ISO code", () => {
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.us, "EUR 12,99"), { priceCents: 1299, currencyCode: "EUR" });
+  });
+
+  it("uses the marketplace currency for a bare dollar sign", () => {
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.ca, "$19.99"), { priceCents: 1999, currencyCode: "CAD" });
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.ca, "CDN$ 19.99"), { priceCents: 1999, currencyCode: "CAD" });
+  });
+
+  it("stops at the end of the amount", () => {
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.us, "$5.99 2 pack"), { priceCents: 599, currencyCode: "USD" });
+  });
+
+  it("returns nulls without text and no price without an amount", () => {
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.us, null), { priceCents: null, currencyCode: null });
+    assert.deepEqual(parseMarketplacePrice(MARKETPLACES.uk, "Free"), { priceCents: null, currencyCode: "GBP" });
+  });
+});
@@ -0,0 +1,137 @@
+import { z } from "zod";
+
+// Amazon marketplaces with a Vine programme. Each worker process crawls one marketplace (MARKETPLACE); products,
+// crawl events and Redis coordination keys are kept apart per marketplace
+
+export const MARKETPLACE_IDS = ["us", "uk", "de", "ca", "jp"] as const;
+
+export type MarketplaceId = (typeof MARKETPLACE_IDS)[number];
+
+export const DEFAULT_MARKETPLACE: MarketplaceId = "us";
+
+export const marketplaceSchema = z.enum(MARKETPLACE_IDS);
+
+export type Marketplace = {
+  id: MarketplaceId;
+  host: string;
+  locale: string;
+  currency: string; // ISO 4217, assumed when a price shows only a symbol
+  vineBaseUrl: string;
+  encoreUrl: string;
+};
+
+const defineMarketplace = (id: MarketplaceId, host: string, locale: string, currency: string): Marketplace => ({
+  id,
+  host,
+  locale,
+  currency,
+  vineBaseUrl: `https://${host}/vine`,
+  encoreUrl: `https://${host}/vine/vine-items?queue=encore`,
+});
+
+export const MARKETPLACES: Record<MarketplaceId, Marketplace> = {
+  us: defineMarketplace("us", "www.amazon.com", "en-US", "USD"),
+  uk: defineMarketplace("uk", "www.amazon.co.uk", "en-GB", "GBP"),
+  de: defineMarketplace("de", "www.amazon.de", "de-DE", "EUR"),
+  ca: defineMarketplace("ca", "www.amazon.ca", "en-CA", "CAD"),
+  jp: defineMarketplace("jp", "www.amazon.co.jp", "ja-JP", "JPY"),
+};
+
+// Vine listing queues: "Recommended for you" (potluck), "Available for all" (last_chance) and "Additional items"
+// (encore). Each queue has its own page numbering; a product belongs to the queue it was last listed in
+
+export const VINE_QUEUE_IDS = ["potluck", "last_chance", "encore"] as const;
+
+export type VineQueue = (typeof VINE_QUEUE_IDS)[number];
+
+// The only queue crawled before queues were tracked - existing rows and Redis keys belong to it
+export const DEFAULT_VINE_QUEUE: VineQueue = "encore";
+
+export const vineQueueSchema = z.enum(VINE_QUEUE_IDS);
+
+export const getVineQueueUrl = (marketplace: Marketplace, queue: VineQueue): string => {
+  return queue === "encore" ? marketplace.encoreUrl : `${marketplace.vineBaseUrl}/vine-items?queue=${queue}`;
+};
+
+export const getVineQueuePageUrl = (marketplace: Marketplace, queue: VineQueue, pageNumber: number): string => {
+  return `${getVineQueueUrl(marketplace, queue)}&page=${pageNumber}`;
+};
+
+// Queue of a Vine listing URL, or null for any other page
+export const getVineQueueFromUrl = (url: string): VineQueue | null => {
+  const match = url.match(/[?&]queue=([a-z_]+)/);
+  const parsed = vineQueueSchema.safeParse(match?.[1]);
+  return parsed.success ? parsed.data : null;
+};
+
+// Hosts product images are served from on every marketplace, besides the marketplace itself
+const IMAGE_HOST_SUFFIXES = ["media-amazon.com", "ssl-images-amazon.com"];
+
+const hostOf = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+export const isMarketplaceUrl = (marketplace: Marketplace, url: string): boolean => {
+  const host = hostOf(url);
+  return host !== null && (host === marketplace.host || host === marketplace.host.replace(/^www\./, ""));
+};
+
+// Vine listing pages (any queue) of the marketplace
+export const isVineUrl = (marketplace: Marketplace, url: string): boolean => {
+  return isMarketplaceUrl(marketplace, url) && (url.includes("/vine") || getVineQueueFromUrl(url) !== null);
+};
+
+// Suffixes passed into page.evaluate, where the marketplace helpers are not available
+export const getImageHostSuffixes = (marketplace: Marketplace): string[] => [
+  marketplace.host.replace(/^www\./, ""),
+  ...IMAGE_HOST_SUFFIXES,
+];
+
+// A bare "$" is left out - it means the marketplace's own dollar (USD or CAD)
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "£": "GBP",
+  "€": "EUR",
+  "¥": "JPY",
+  "￥": "JPY",
+  "CDN$": "CAD",
+  "C$": "CAD",
+};
+
+// Parses a displayed price such as "$1,234.56", "£12.99", "12,99 €", "￥1,234" or "EUR 12,99" into minor units
+// (amount x 100, also for currencies without a minor unit). A separator followed by exactly three digits is a
+// thousands separator, otherwise the last separator is the decimal point. The amount ends at the first space - none of
+// the marketplaces groups digits with spaces, and text after the price ("2 pack") must not join the number
+export const parseMarketplacePrice = (
+  marketplace: Marketplace,
+  text: string | null | undefined
+): { priceCents: number | null; currencyCode: string | null } => {
+  if (!text) {
+    return { priceCents: null, currencyCode: null };
+  }
+
+  const amountMatch = text.match(/\d[\d.,]*/);
+  const codeMatch = text.match(new RegExp(`\\b(${Object.values(MARKETPLACES).map((m) => m.currency).join("|")})\\b`));
+  const symbol = Object.keys(CURRENCY_SYMBOLS)
+    .sort((a, b) => b.length - a.length)
+    .find((candidate) => text.includes(candidate));
+  const currencyCode = codeMatch?.[1] ?? (symbol ? CURRENCY_SYMBOLS[symbol] : marketplace.currency);
+  if (!amountMatch) {
+    return { priceCents: null, currencyCode };
+  }
+
+  const digits = amountMatch[0].replace(/[.,]$/, "");
+  const lastSeparator = Math.max(digits.lastIndexOf("."), digits.lastIndexOf(","));
+  const hasDecimals = lastSeparator !== -1 && digits.length - lastSeparator - 1 !== 3;
+  const integerPart = (hasDecimals ? digits.slice(0, lastSeparator) : digits).replace(/[.,]/g, "");
+  const fractionPart = hasDecimals ? digits.slice(lastSeparator + 1) : "";
+  const numeric = Number(`${integerPart}.${fractionPart || "0"}`);
+  if (!Number.isFinite(numeric)) {
+    return { priceCents: null, currencyCode };
+  }
+
+  return { priceCents: Math.round(numeric * 100), currencyCode };
+};
@@ -0,0 +1,104 @@
+import { createServer, type Server } from "node:http";
+import { Registry, Counter, Histogram, collectDefaultMetrics } from "prom-client";
+import { config } from "./config.js";
+import { logger } from "./logger.js";
+
+// Prometheus metrics shared by the API and the workers. Each process labels its series with its service name
+// (setMetricsService) and exposes them on /metrics - the API on its own port, workers on METRICS_PORT
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: "vine_" });
+
+export const setMetricsService = (service: string): void => {
+  metricsRegistry.setDefaultLabels({ service });
+};
+
+export const batchPagesOpened = new Histogram({
+  name: "vine_batch_pages_opened",
+  help: "Page tabs opened per batch by a general worker",
+  buckets: [1, 5, 10, 25, 50, 100, 200],
+  registers: [metricsRegistry],
+});
+
+export const pageProductsExtracted = new Histogram({
+  name: "vine_page_products_extracted",
+  help: "Products extracted from a single Vine listing page",
+  buckets: [0, 1, 5, 10, 20, 30, 40, 60, 100],
+  registers: [metricsRegistry],
+});
+
+export const productUpsertDuration = new Histogram({
+  name: "vine_product_upsert_duration_seconds",
+  help: "Time to upsert a single product, by outcome",
+  labelNames: ["result"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [metricsRegistry],
+});
+
+export const productBatchUpsertDuration = new Histogram({
+  name: "vine_product_batch_upsert_duration_seconds",
+  help: "Time to write one batch of products with a multi-row upsert, by outcome",
+  labelNames: ["result"] as const,
+  buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry],
+});
+
+export const loginAttempts = new Counter({
+  name: "vine_login_attempts_total",
+  help: "Automatic Amazon login attempts",
+  registers: [metricsRegistry],
+});
+
+export const loginFailures = new Counter({
+  name: "vine_login_failures_total",
+  help: "Automatic Amazon login attempts that failed",
+  registers: [metricsRegistry],
+});
+
+export const serviceUnavailableDetections = new Counter({
+  name: "vine_amazon_503_detections_total",
+  help: "Amazon 503 error pages detected on the Vine endpoint",
+  registers: [metricsRegistry],
+});
+
+export const webhookDeliveryAttempts = new Counter({
+  name: "vine_webhook_delivery_attempts_total",
+  help: "Outbound webhook delivery attempts, by outcome (delivered, failed, dead)",
+  labelNames: ["result"] as const,
+  registers: [metricsRegistry],
+});
+
+// Small standalone listener for processes without an HTTP server. No-op unless METRICS_PORT is set
+export const startMetricsServer = (service: string): Server | null => {
+  setMetricsService(service);
+  if (!config.METRICS_PORT) {
+    return null;
+  }
+
+  const server = createServer((req, res) => {
+    if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    metricsRegistry
+      .metrics()
+      .then((body) => {
+        res.writeHead(200, { "Content-Type": metricsRegistry.contentType }).end(body);
+      })
+      .catch((error) => {
+        logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Failed to collect metrics");
+        res.writeHead(500).end();
+      });
+  });
+
+  server.on("error", (error) => {
+    logger.error({ error: error.message, port: config.METRICS_PORT }, "Metrics server failed");
+  });
+  server.listen(config.METRICS_PORT, () => {
+    logger.info({ port: config.METRICS_PORT, service }, "Metrics server listening on /metrics");
+  });
+  server.unref(); // Never keeps a worker alive on its own
+
+  return server;
+};
@@ -0,0 +1,129 @@
+import { config } from "../config.js";
+import { redisConnection, getCrawlKeys, parseGeneralWorkerPages, type PageRange } from "./index.js";
+import { getGeneralWorkerIds } from "./workerStatus.js";
+import { VINE_QUEUE_IDS, DEFAULT_VINE_QUEUE, type MarketplaceId, type VineQueue } from "../marketplaces.js";
+
+// Operator actions on the crawl coordination state of a marketplace (the process's own MARKETPLACE unless another is
+// passed). The manager picks these up on its next poll; pausing only stops new assignments - workers finish the range
+// they already hold.
+
+export type CrawlPauseState = { paused: boolean; pausedAt: Date | null };
+
+const parseTimestamp = (value: string | null): Date | null => {
+  const parsed = value !== null ? parseInt(value, 10) : NaN;
+  return isNaN(parsed) ? null : new Date(parsed);
+};
+
+export const getCrawlPauseState = async (marketplace: MarketplaceId = config.MARKETPLACE): Promise<CrawlPauseState> => {
+  const value = await redisConnection.get(getCrawlKeys(marketplace).crawlPaused);
+  return { paused: value !== null, pausedAt: parseTimestamp(value) };
+};
+
+export const isCrawlPaused = async (marketplace: MarketplaceId = config.MARKETPLACE): Promise<boolean> => {
+  return (await redisConnection.exists(getCrawlKeys(marketplace).crawlPaused)) === 1;
+};
+
+// Asks the manager for a new assignment round (once no worker is mid-range) and product workers to check their pages.
+// No-op while paused
+export const triggerCrawl = async (marketplace: MarketplaceId = config.MARKETPLACE): Promise<boolean> => {
+  if (await isCrawlPaused(marketplace)) {
+    return false;
+  }
+  const keys = getCrawlKeys(marketplace);
+  await redisConnection.multi().set(keys.managerTrigger, "1").set(keys.crawlTrigger, "1").exec();
+  return true;
+};
+
+// Returns the state before the call, so a repeated pause keeps the original timestamp
+export const pauseCrawl = async (marketplace: MarketplaceId = config.MARKETPLACE): Promise<CrawlPauseState> => {
+  const previous = await getCrawlPauseState(marketplace);
+  await redisConnection.set(getCrawlKeys(marketplace).crawlPaused, Date.now().toString(), "NX");
+  return previous;
+};
+
+export const resumeCrawl = async (marketplace: MarketplaceId = config.MARKETPLACE): Promise<CrawlPauseState> => {
+  const previous = await getCrawlPauseState(marketplace);
+  await redisConnection.del(getCrawlKeys(marketplace).crawlPaused);
+  return previous;
+};
+
+// Restarts round-robin rotation from page 1 of every queue. Same cleanup the manager does when a rotation wraps around
+export const resetRotation = async (marketplace: MarketplaceId = config.MARKETPLACE): Promise<{
+  previousRotationIndex: number | null;
+  previousLastAssignedPages: Record<VineQueue, number | null>;
+  clearedWorkers: number[];
+}> => {
+  const keys = getCrawlKeys(marketplace);
+  const [rotationIndex, ...lastAssignedPages] = await redisConnection.mget(
+    keys.rotationIndex,
+    ...VINE_QUEUE_IDS.map((queue) => keys.lastAssignedPage(queue))
+  );
+  const workerIds = await getGeneralWorkerIds(marketplace);
+
+  const multi = redisConnection.multi().set(keys.rotationIndex, "0");
+  for (const queue of VINE_QUEUE_IDS) {
+    multi.set(keys.lastAssignedPage(queue), "0");
+  }
+  for (const workerId of workerIds) {
+    multi.del(keys.generalWorkerComplete(workerId), keys.generalWorkerPages(workerId));
+  }
+  await multi.exec();
+
+  const toNumber = (value: string | null) => (value !== null && !isNaN(parseInt(value, 10)) ? parseInt(value, 10) : null);
+  return {
+    previousRotationIndex: toNumber(rotationIndex),
+    previousLastAssignedPages: Object.fromEntries(
+      VINE_QUEUE_IDS.map((queue, index) => [queue, toNumber(lastAssignedPages[index])])
+    ) as Record<VineQueue, number | null>,
+    clearedWorkers: workerIds,
+  };
+};
+
+export type ReassignWorkerOptions = {
+  range?: PageRange; // Omit to clear the assignment - the manager assigns the next batch on its next poll
+  force?: boolean; // Reassign even while the worker is processing its current range
+};
+
+export type ReassignWorkerResult =
+  | { status: "reassigned"; previousRanges: PageRange[] | null; range: PageRange | null }
+  | { status: "not_found" }
+  | { status: "processing" }
+  | { status: "out_of_range"; totalPages: number };
+
+export const reassignGeneralWorker = async (
+  workerId: number,
+  options: ReassignWorkerOptions = {},
+  marketplace: MarketplaceId = config.MARKETPLACE
+): Promise<ReassignWorkerResult> => {
+  const keys = getCrawlKeys(marketplace);
+  const [heartbeat, pages, processing, totalPagesStr] = await redisConnection.mget(
+    keys.generalWorkerHeartbeat(workerId),
+    keys.generalWorkerPages(workerId),
+    keys.generalWorkerProcessing(workerId),
+    keys.totalPages(options.range?.queue ?? DEFAULT_VINE_QUEUE)
+  );
+
+  if (heartbeat === null && pages === null) {
+    return { status: "not_found" };
+  }
+  if (processing === "1" && !options.force) {
+    return { status: "processing" };
+  }
+
+  const totalPages = totalPagesStr !== null ? parseInt(totalPagesStr, 10) : NaN;
+  if (options.range && !isNaN(totalPages) && options.range.end > totalPages) {
+    return { status: "out_of_range", totalPages };
+  }
+
+  const previousRanges = parseGeneralWorkerPages(pages);
+
+  const multi = redisConnection.multi().del(keys.generalWorkerComplete(workerId));
+  if (options.range) {
+    multi.set(keys.generalWorkerPages(workerId), JSON.stringify([options.range]));
+  } else {
+    multi.del(keys.generalWorkerPages(workerId));
+  }
+  await multi.exec();
+
+  return { status: "reassigned", previousRanges, range: options.range ?? null };
+};
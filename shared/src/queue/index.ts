@@ -1,6 +1,7 @@
 import { Queue, Worker, Job, QueueEvents } from "bullmq";
 import { Redis } from "ioredis";
 import { config } from "../config.js";
+import { DEFAULT_MARKETPLACE, DEFAULT_VINE_QUEUE, type MarketplaceId, type VineQueue } from "../marketplaces.js";
 
 const connectionOptions = {
   maxRetriesPerRequest: null,
@@ -12,37 +13,130 @@ const createRedisConnection = (): Redis => {
 
 export const redisConnection = createRedisConnection();
 
-// Redis keys
-export const REDIS_KEY_TOTAL_PAGES = "vine:total-pages";
-export const REDIS_KEY_TOTAL_PRODUCTS = "vine:total-products";
-export const REDIS_KEY_PRODUCT_URLS = "vine:product-urls";
-export const REDIS_KEY_CRAWL_TRIGGER = "vine:crawl-trigger";
-export const REDIS_KEY_LAST_PRODUCT_COUNT = "vine:last-product-count";
-export const REDIS_KEY_TABS_READY = "vine:tabs-ready"; // Set to "1" when general worker has opened a batch of tabs
-export const REDIS_KEY_CURRENT_BATCH_START = "vine:current-batch-start"; // Start page of current batch
-export const REDIS_KEY_CURRENT_BATCH_END = "vine:current-batch-end"; // End page of current batch
-export const REDIS_KEY_BATCH_COMPLETE = "vine:batch-complete"; // Set to "1" when all product workers finish current batch
-export const REDIS_KEY_WORKER_PAGES = (workerId: number) => `vine:worker-${workerId}-pages`; // Pages assigned to a specific product worker (JSON array)
-export const REDIS_KEY_WORKER_COMPLETE = (workerId: number) => `vine:worker-${workerId}-complete`; // Worker completion status
-export const REDIS_KEY_WORKER_HEARTBEAT = (workerId: number) => `vine:worker-${workerId}-heartbeat`; // Worker heartbeat timestamp
-export const REDIS_KEY_PENDING_PAGES = "vine:pending-pages"; // Pages waiting to be assigned (JSON array)
-export const REDIS_KEY_ASSIGNED_PAGES = "vine:assigned-pages"; // Pages currently assigned (JSON array)
-export const REDIS_KEY_GENERAL_WORKER_HEARTBEAT = (workerId: number) => `vine:general-worker-${workerId}-heartbeat`; // General worker heartbeat timestamp
-export const REDIS_KEY_GENERAL_WORKER_PAGES = (workerId: number) => `vine:general-worker-${workerId}-pages`; // Page range assigned to a general worker (JSON: {start, end})
-export const REDIS_KEY_GENERAL_WORKER_COMPLETE = (workerId: number) => `vine:general-worker-${workerId}-complete`; // General worker completion status
-export const REDIS_KEY_GENERAL_WORKER_PROCESSING = (workerId: number) => `vine:general-worker-${workerId}-processing`; // General worker processing lock
-export const REDIS_KEY_MANAGER_TRIGGER = "vine:manager-trigger"; // Trigger for manager to assign work
-export const REDIS_KEY_ROTATION_INDEX = "vine:rotation-index"; // Current rotation index for round-robin assignment
-export const REDIS_KEY_LAST_ASSIGNED_PAGE = "vine:last-assigned-page"; // Last page number assigned in rotation
-export const REDIS_KEY_AMAZON_COOKIES = "vine:amazon-cookies"; // Shared Amazon session cookies (JSON array)
-export const REDIS_KEY_AMAZON_SESSION_VALID = "vine:amazon-session-valid"; // Session validity flag
-export const REDIS_KEY_WORKER_LOCK = (workerType: "manager" | "general" | "product", workerId: number) => `vine:lock:${workerType}-${workerId}`; // Worker process lock to prevent duplicates
-
-export const queueEvents = new QueueEvents(config.QUEUE_NAME, {
+export type WorkerType = "manager" | "general" | "product";
+
+// Redis keys. Crawl coordination keys are namespaced per marketplace so that worker sets for different marketplaces
+// can share one Redis; the default marketplace keeps the original "vine:" names. Product events, rate limits and the
+// response cache are shared by all marketplaces
+export const getRedisKeyNamespace = (marketplace: MarketplaceId): string =>
+  marketplace === DEFAULT_MARKETPLACE ? "vine" : `vine:${marketplace}`;
+
+// Coordination keys of one marketplace. Workers use the REDIS_KEY_* constants below, built for their own MARKETPLACE;
+// the API builds the keys of the marketplace a request asks about
+export const getCrawlKeys = (marketplace: MarketplaceId) => {
+  const NS = getRedisKeyNamespace(marketplace);
+
+  // Page counts and rotation progress are kept per Vine queue; the default queue keeps the names from before queues were tracked
+  const queueKey = (queue: VineQueue, name: string): string =>
+    queue === DEFAULT_VINE_QUEUE ? `${NS}:${name}` : `${NS}:${queue}:${name}`;
+
+  return {
+    namespace: NS,
+    totalPages: (queue: VineQueue) => queueKey(queue, "total-pages"),
+    totalProducts: (queue: VineQueue) => queueKey(queue, "total-products"),
+    productUrls: `${NS}:product-urls`,
+    crawlTrigger: `${NS}:crawl-trigger`,
+    lastProductCount: (queue: VineQueue) => queueKey(queue, "last-product-count"),
+    tabsReady: `${NS}:tabs-ready`, // Set to "1" when general worker has opened a batch of tabs
+    currentBatchStart: `${NS}:current-batch-start`, // Start page of current batch
+    currentBatchEnd: `${NS}:current-batch-end`, // End page of current batch
+    batchComplete: `${NS}:batch-complete`, // Set to "1" when all product workers finish current batch
+    workerPages: (workerId: number) => `${NS}:worker-${workerId}-pages`, // Pages assigned to a specific product worker (JSON: PageAssignment[])
+    workerComplete: (workerId: number) => `${NS}:worker-${workerId}-complete`, // Worker completion status
+    workerHeartbeat: (workerId: number) => `${NS}:worker-${workerId}-heartbeat`, // Worker heartbeat timestamp
+    pendingPages: `${NS}:pending-pages`, // Pages waiting to be assigned (JSON: PageAssignment[])
+    assignedPages: `${NS}:assigned-pages`, // Pages currently assigned (JSON: PageAssignment[])
+    generalWorkerHeartbeat: (workerId: number) => `${NS}:general-worker-${workerId}-heartbeat`, // General worker heartbeat timestamp
+    generalWorkerPages: (workerId: number) => `${NS}:general-worker-${workerId}-pages`, // Page ranges assigned to a general worker (JSON: PageRange[])
+    generalWorkerComplete: (workerId: number) => `${NS}:general-worker-${workerId}-complete`, // General worker completion status
+    generalWorkerProcessing: (workerId: number) => `${NS}:general-worker-${workerId}-processing`, // General worker processing lock
+    managerTrigger: `${NS}:manager-trigger`, // Trigger for manager to assign work
+    rotationIndex: `${NS}:rotation-index`, // Current rotation index for round-robin assignment
+    lastAssignedPage: (queue: VineQueue) => queueKey(queue, "last-assigned-page"), // Last page number of the queue assigned in rotation
+    crawlPaused: `${NS}:crawl-paused`, // Pause timestamp - while set, the manager assigns no new work
+    amazonCookies: `${NS}:amazon-cookies`, // Shared Amazon session cookies (JSON array)
+    amazonSessionValid: `${NS}:amazon-session-valid`, // Session validity flag
+    workerLock: (workerType: WorkerType, workerId: number) => `${NS}:lock:${workerType}-${workerId}`, // Worker process lock to prevent duplicates
+  };
+};
+
+export type CrawlKeys = ReturnType<typeof getCrawlKeys>;
+
+const keys = getCrawlKeys(config.MARKETPLACE);
+
+export const REDIS_KEY_NAMESPACE = keys.namespace;
+export const REDIS_KEY_TOTAL_PAGES = keys.totalPages;
+export const REDIS_KEY_TOTAL_PRODUCTS = keys.totalProducts;
+export const REDIS_KEY_PRODUCT_URLS = keys.productUrls;
+export const REDIS_KEY_CRAWL_TRIGGER = keys.crawlTrigger;
+export const REDIS_KEY_LAST_PRODUCT_COUNT = keys.lastProductCount;
+export const REDIS_KEY_TABS_READY = keys.tabsReady;
+export const REDIS_KEY_CURRENT_BATCH_START = keys.currentBatchStart;
+export const REDIS_KEY_CURRENT_BATCH_END = keys.currentBatchEnd;
+export const REDIS_KEY_BATCH_COMPLETE = keys.batchComplete;
+export const REDIS_KEY_WORKER_PAGES = keys.workerPages;
+export const REDIS_KEY_WORKER_COMPLETE = keys.workerComplete;
+export const REDIS_KEY_WORKER_HEARTBEAT = keys.workerHeartbeat;
+export const REDIS_KEY_PENDING_PAGES = keys.pendingPages;
+export const REDIS_KEY_ASSIGNED_PAGES = keys.assignedPages;
+export const REDIS_KEY_GENERAL_WORKER_HEARTBEAT = keys.generalWorkerHeartbeat;
+export const REDIS_KEY_GENERAL_WORKER_PAGES = keys.generalWorkerPages;
+export const REDIS_KEY_GENERAL_WORKER_COMPLETE = keys.generalWorkerComplete;
+export const REDIS_KEY_GENERAL_WORKER_PROCESSING = keys.generalWorkerProcessing;
+export const REDIS_KEY_MANAGER_TRIGGER = keys.managerTrigger;
+export const REDIS_KEY_ROTATION_INDEX = keys.rotationIndex;
+export const REDIS_KEY_LAST_ASSIGNED_PAGE = keys.lastAssignedPage;
+export const REDIS_KEY_CRAWL_PAUSED = keys.crawlPaused;
+export const REDIS_KEY_AMAZON_COOKIES = keys.amazonCookies;
+export const REDIS_KEY_AMAZON_SESSION_VALID = keys.amazonSessionValid;
+export const REDIS_KEY_WORKER_LOCK = keys.workerLock;
+export const REDIS_KEY_PRODUCT_EVENTS = "vine:product-events"; // Capped stream of product change events (replayed via Last-Event-ID)
+export const REDIS_CHANNEL_PRODUCT_EVENTS = "vine:product-events:live"; // Pub/sub channel for live product change events
+export const REDIS_KEY_API_RATE_LIMIT = (apiKeyId: number, windowStart: number) => `vine:rate-limit:${apiKeyId}:${windowStart}`; // Request counter for an API key in a fixed one-minute window
+export const REDIS_KEY_API_CACHE_VERSION = "vine:api-cache:version"; // Bumped whenever product data changes - orphans every cached response
+export const REDIS_KEY_API_CACHE_ENTRY = (version: string, key: string) => `vine:api-cache:${version}:${key}`; // Cached product response (JSON: {etag, lastModified, body})
+
+// Pages of one Vine queue, as assigned to general workers
+export type PageRange = { queue: VineQueue; start: number; end: number };
+
+// Reads a general worker assignment. Assignments written before queues were tracked are a single {start, end} encore range
+export const parseGeneralWorkerPages = (value: string | null): PageRange[] | null => {
+  if (value === null) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(value) as PageRange[] | { start: number; end: number };
+    return Array.isArray(parsed) ? parsed : [{ queue: DEFAULT_VINE_QUEUE, start: parsed.start, end: parsed.end }];
+  } catch {
+    return null;
+  }
+};
+
+// Page numbers overlap across Vine queues, so every product worker page carries its queue
+export type PageAssignment = { queue: VineQueue; page: number };
+
+// Reads a product worker assignment. Assignments written before queues were tracked are plain encore page numbers
+export const parseWorkerPageAssignments = (value: string | null): PageAssignment[] | null => {
+  if (value === null) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(value) as Array<PageAssignment | number>;
+    return parsed.map((entry) => (typeof entry === "number" ? { queue: DEFAULT_VINE_QUEUE, page: entry } : entry));
+  } catch {
+    return null;
+  }
+};
+
+// One product queue per marketplace, so jobs only reach workers that are signed in to the right marketplace
+export const PRODUCTS_QUEUE_NAME =
+  config.MARKETPLACE === DEFAULT_MARKETPLACE ? config.QUEUE_NAME : `${config.QUEUE_NAME}-${config.MARKETPLACE}`;
+
+export const queueEvents = new QueueEvents(PRODUCTS_QUEUE_NAME, {
   connection: createRedisConnection(),
 });
 
-export const productsQueue = new Queue(config.QUEUE_NAME, {
+export const productsQueue = new Queue(PRODUCTS_QUEUE_NAME, {
   connection: createRedisConnection(),
   defaultJobOptions: {
     attempts: 3,
@@ -54,13 +148,14 @@ export const productsQueue = new Queue(config.QUEUE_NAME, {
 export type ProductJobData = {
   url: string;
   pageNumber: number;
+  queue?: VineQueue; // Defaults to DEFAULT_VINE_QUEUE
   asin?: string;
 };
 
 export const createWorker = (
   processor: (job: Job<ProductJobData>) => Promise<void>
 ): Worker<ProductJobData> => {
-  return new Worker(config.QUEUE_NAME, processor, {
+  return new Worker(PRODUCTS_QUEUE_NAME, processor, {
     connection: createRedisConnection(),
     concurrency: 1,
     limiter: {
@@ -70,7 +165,41 @@ export const createWorker = (
   });
 };
 
+// Webhook deliveries share the Redis connection setup with the products queue.
+// Retries and backoff come from BullMQ; the delivery row in MySQL is the durable log and dead-letter record.
+// Created on first use, so only the outbox dispatcher and delivery worker open its connection
+let webhookQueue: Queue<WebhookJobData> | null = null;
+
+export const getWebhookQueue = (): Queue<WebhookJobData> => {
+  if (!webhookQueue) {
+    webhookQueue = new Queue<WebhookJobData>(config.WEBHOOK_QUEUE_NAME, {
+      connection: createRedisConnection(),
+      defaultJobOptions: {
+        attempts: config.WEBHOOK_MAX_ATTEMPTS,
+        backoff: { type: "exponential", delay: config.WEBHOOK_BACKOFF_BASE_MS },
+        removeOnComplete: 1_000,
+        removeOnFail: 5_000,
+      },
+    });
+  }
+
+  return webhookQueue;
+};
+
+export type WebhookJobData = {
+  deliveryId: number;
+};
+
+export const createWebhookWorker = (
+  processor: (job: Job<WebhookJobData>) => Promise<void>
+): Worker<WebhookJobData> => {
+  return new Worker(config.WEBHOOK_QUEUE_NAME, processor, {
+    connection: createRedisConnection(),
+    concurrency: 5,
+  });
+};
+
 export const closeQueueResources = async (): Promise<void> => {
-  await Promise.all([queueEvents.close(), redisConnection.quit()]);
+  await Promise.all([queueEvents.close(), webhookQueue?.close(), redisConnection.quit()]);
 };
 
@@ -0,0 +1,40 @@
+import { logger } from "../logger.js";
+import { redisConnection, REDIS_KEY_API_CACHE_VERSION, REDIS_KEY_API_CACHE_ENTRY } from "./index.js";
+
+// Redis cache for product API responses. Entries are keyed by a version number instead of being deleted:
+// bumping the version on every product write makes all older entries unreachable, and their TTL cleans them up
+
+export type CachedResponse = {
+  etag: string;
+  lastModified: string | null;
+  body: unknown;
+};
+
+export const getResponseCacheVersion = async (): Promise<string> => {
+  return (await redisConnection.get(REDIS_KEY_API_CACHE_VERSION)) ?? "0";
+};
+
+export const getCachedResponse = async (version: string, key: string): Promise<CachedResponse | null> => {
+  const raw = await redisConnection.get(REDIS_KEY_API_CACHE_ENTRY(version, key));
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as CachedResponse;
+  } catch {
+    return null;
+  }
+};
+
+export const setCachedResponse = async (version: string, key: string, entry: CachedResponse, ttlSeconds: number): Promise<void> => {
+  await redisConnection.set(REDIS_KEY_API_CACHE_ENTRY(version, key), JSON.stringify(entry), "EX", ttlSeconds);
+};
+
+export const invalidateProductResponseCache = async (): Promise<void> => {
+  try {
+    await redisConnection.incr(REDIS_KEY_API_CACHE_VERSION);
+  } catch (error) {
+    // Stale entries still expire with their TTL - never fail a crawl because of the cache
+    logger.warn({ error }, "Failed to invalidate product response cache");
+  }
+};
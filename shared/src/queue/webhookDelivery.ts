@@ -0,0 +1,176 @@
+import { createHmac } from "node:crypto";
+import type { Job } from "bullmq";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+import { webhookDeliveryAttempts } from "../metrics.js";
+import { getWebhookQueue, createWebhookWorker, type WebhookJobData } from "./index.js";
+import {
+  dispatchWebhookOutbox,
+  getStalePendingDeliveryIds,
+  getWebhookDeliveryTarget,
+  pruneWebhookLogs,
+  recordWebhookAttempt,
+  resetDeadWebhookDelivery,
+} from "../db/webhookRepository.js";
+
+// Webhook delivery: a dispatcher polls the outbox and fans events out into delivery rows, and a BullMQ worker
+// POSTs each delivery with an HMAC signature. BullMQ retries with exponential backoff; after the last attempt
+// the delivery is marked dead and stays in webhook_deliveries until it is retried through the admin API.
+//
+// Receivers verify X-Vine-Signature = "sha256=" + hex HMAC-SHA256(secret, `${X-Vine-Timestamp}.${body}`)
+
+const STALE_PENDING_AFTER_MS = 15 * 60_000;
+const MAINTENANCE_INTERVAL_MS = 60 * 60_000;
+const MAX_ERROR_LENGTH = 1_000;
+
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+};
+
+const deliveryJobId = (deliveryId: number): string => `webhook-delivery-${deliveryId}`;
+
+// The job ID makes enqueueing idempotent while a job for the delivery still exists (waiting, delayed or active)
+const enqueueDeliveries = async (deliveryIds: number[]): Promise<void> => {
+  if (deliveryIds.length === 0) {
+    return;
+  }
+  await getWebhookQueue().addBulk(
+    deliveryIds.map((deliveryId) => ({
+      name: "deliver",
+      data: { deliveryId },
+      opts: { jobId: deliveryJobId(deliveryId) },
+    }))
+  );
+};
+
+// Deliveries left pending, e.g. when the last attempt threw before its result was recorded. The queue keeps
+// finished jobs, and addBulk ignores a job ID that still exists, so a failed or completed job is removed first
+const requeueStalePendingDeliveries = async (deliveryIds: number[]): Promise<void> => {
+  for (const deliveryId of deliveryIds) {
+    const job = await getWebhookQueue().getJob(deliveryJobId(deliveryId));
+    const state = job ? await job.getState() : null;
+    if (job && (state === "failed" || state === "completed")) {
+      await job.remove();
+    }
+  }
+  await enqueueDeliveries(deliveryIds);
+};
+
+// Dead deliveries keep their failed job around, so a retry needs a fresh job ID
+export const retryWebhookDelivery = async (deliveryId: number): Promise<boolean> => {
+  const reset = await resetDeadWebhookDelivery(deliveryId);
+  if (reset) {
+    await getWebhookQueue().add("deliver", { deliveryId }, { jobId: `${deliveryJobId(deliveryId)}-retry-${Date.now()}` });
+  }
+  return reset;
+};
+
+const deliverWebhook = async (job: Job<WebhookJobData>): Promise<void> => {
+  const target = await getWebhookDeliveryTarget(job.data.deliveryId);
+  if (!target || target.delivery.status !== "pending") {
+    return; // Subscription deleted, or already delivered by an earlier job
+  }
+
+  const { delivery, subscription, event } = target;
+  const attempt = job.attemptsMade + 1;
+  const isLastAttempt = attempt >= (job.opts.attempts ?? 1);
+
+  if (!subscription.enabled) {
+    await recordWebhookAttempt(delivery.id, { status: "dead", responseStatus: null, error: "Subscription is disabled" });
+    webhookDeliveryAttempts.inc({ result: "dead" });
+    return;
+  }
+
+  const body = JSON.stringify({ id: event.id, type: event.eventType, occurredAt: event.payload.occurredAt, data: event.payload });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string;
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "vine-crawler-webhooks",
+        "X-Vine-Event": event.eventType,
+        "X-Vine-Delivery": delivery.id.toString(),
+        "X-Vine-Timestamp": timestamp.toString(),
+        "X-Vine-Signature": signWebhookPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(config.WEBHOOK_TIMEOUT_MS),
+      redirect: "manual",
+    });
+    responseStatus = response.status;
+    await response.body?.cancel();
+
+    if (response.ok) {
+      await recordWebhookAttempt(delivery.id, { status: "delivered", responseStatus, error: null });
+      webhookDeliveryAttempts.inc({ result: "delivered" });
+      return;
+    }
+    error = `HTTP ${response.status}`;
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+
+  const status = isLastAttempt ? "dead" : "pending";
+  await recordWebhookAttempt(delivery.id, { status, responseStatus, error: error.slice(0, MAX_ERROR_LENGTH) });
+  webhookDeliveryAttempts.inc({ result: isLastAttempt ? "dead" : "failed" });
+
+  if (isLastAttempt) {
+    logger.warn({ deliveryId: delivery.id, subscriptionId: subscription.id, attempts: attempt, error }, "Webhook delivery dead-lettered");
+  }
+  throw new Error(`Webhook delivery ${delivery.id} failed: ${error}`); // Lets BullMQ schedule the next attempt
+};
+
+// Runs until the returned stop function is called. Safe to run in several processes at once
+export const startWebhookDelivery = (): { stop: () => Promise<void> } => {
+  const worker = createWebhookWorker(deliverWebhook);
+  worker.on("error", (error) => {
+    logger.error({ error: error.message }, "Webhook worker error");
+  });
+
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let lastMaintenanceAt = 0;
+
+  const tick = async (): Promise<void> => {
+    try {
+      // Drain the outbox in batches so a burst of page changes is not spread over many intervals
+      let deliveryIds: number[];
+      do {
+        deliveryIds = await dispatchWebhookOutbox();
+        await enqueueDeliveries(deliveryIds);
+      } while (deliveryIds.length > 0 && !stopped);
+
+      if (Date.now() - lastMaintenanceAt >= MAINTENANCE_INTERVAL_MS) {
+        lastMaintenanceAt = Date.now();
+        await requeueStalePendingDeliveries(await getStalePendingDeliveryIds(new Date(Date.now() - STALE_PENDING_AFTER_MS)));
+        const pruned = await pruneWebhookLogs(new Date(Date.now() - config.WEBHOOK_LOG_RETENTION_DAYS * 24 * 60 * 60_000));
+        if (pruned > 0) {
+          logger.info({ pruned }, "Pruned old webhook outbox events and delivery logs");
+        }
+      }
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, "Webhook dispatch failed");
+    }
+
+    if (!stopped) {
+      timer = setTimeout(tick, config.WEBHOOK_DISPATCH_INTERVAL_MS);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+  logger.info({ queue: config.WEBHOOK_QUEUE_NAME, maxAttempts: config.WEBHOOK_MAX_ATTEMPTS }, "Webhook delivery started");
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      await worker.close();
+    },
+  };
+};
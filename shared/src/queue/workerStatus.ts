@@ -0,0 +1,276 @@
+import { Gauge } from "prom-client";
+import { config } from "../config.js";
+import { metricsRegistry } from "../metrics.js";
+import {
+  redisConnection,
+  WorkerType,
+  getCrawlKeys,
+  parseGeneralWorkerPages,
+  parseWorkerPageAssignments,
+  type PageRange,
+  type PageAssignment,
+} from "./index.js";
+import { VINE_QUEUE_IDS, type MarketplaceId, type VineQueue } from "../marketplaces.js";
+
+// Fleet status read from the coordination keys the workers of a marketplace maintain in Redis (the process's own
+// MARKETPLACE unless another is passed).
+// The manager has no heartbeat key - its lock value is refreshed with the current time on every poll instead.
+
+export const WORKER_ALIVE_THRESHOLD_MS = 60_000; // Same timeout the manager uses to detect active workers
+export const WORKER_DEAD_THRESHOLD_MS = 5 * 60_000;
+
+export type WorkerState = "alive" | "stale" | "dead";
+
+export type WorkerLockStatus = {
+  held: boolean;
+  refreshedAt: string | null;
+  ageMs: number | null;
+  ttlSeconds: number | null;
+};
+
+export type WorkerStatus = {
+  type: WorkerType;
+  id: number;
+  state: WorkerState;
+  lastHeartbeatAt: string | null;
+  heartbeatAgeMs: number | null;
+  assignedRanges: PageRange[] | null; // general workers
+  assignedPages: PageAssignment[] | null; // product workers
+  processing: boolean | null; // general workers
+  complete: boolean | null; // general and product workers
+  lock: WorkerLockStatus;
+};
+
+export type WorkerFleetStatus = {
+  workers: WorkerStatus[];
+  counts: Record<WorkerState, number>;
+  coordination: {
+    paused: boolean;
+    totalPages: number | null; // Summed over the queues discovered so far
+    totalProducts: number | null;
+    rotationIndex: number | null;
+    queues: QueueCoordination[];
+  };
+};
+
+export type QueueCoordination = {
+  queue: VineQueue;
+  totalPages: number | null;
+  totalProducts: number | null;
+  lastAssignedPage: number | null;
+};
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null) {
+    return null;
+  }
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? null : parsed;
+};
+
+export const deriveWorkerState = (heartbeatAgeMs: number | null): WorkerState => {
+  if (heartbeatAgeMs === null || heartbeatAgeMs >= WORKER_DEAD_THRESHOLD_MS) {
+    return "dead";
+  }
+  return heartbeatAgeMs < WORKER_ALIVE_THRESHOLD_MS ? "alive" : "stale";
+};
+
+const scanKeys = async (pattern: string): Promise<string[]> => {
+  const keys: string[] = [];
+  let cursor = "0";
+  do {
+    const [nextCursor, batch] = await redisConnection.scan(cursor, "MATCH", pattern, "COUNT", 200);
+    keys.push(...batch);
+    cursor = nextCursor;
+  } while (cursor !== "0");
+  return keys;
+};
+
+// Worker IDs that have left any trace (heartbeat, assignment or lock) in Redis
+const discoverWorkerIds = async (patterns: { pattern: string; regex: RegExp }[]): Promise<number[]> => {
+  const ids = new Set<number>();
+  for (const { pattern, regex } of patterns) {
+    for (const key of await scanKeys(pattern)) {
+      const match = key.match(regex);
+      if (match) {
+        ids.add(parseInt(match[1], 10));
+      }
+    }
+  }
+  return [...ids].sort((a, b) => a - b);
+};
+
+// SCAN pattern and ID regex for a per-worker key of the marketplace, e.g. "general-worker-{id}-pages"
+const workerKeyPattern = (marketplace: MarketplaceId, template: string): { pattern: string; regex: RegExp } => {
+  const namespace = getCrawlKeys(marketplace).namespace;
+  return {
+    pattern: `${namespace}:${template.replace("{id}", "*")}`,
+    regex: new RegExp(`^${namespace}:${template.replace("{id}", "(\\d+)")}$`),
+  };
+};
+
+export const getGeneralWorkerIds = (marketplace: MarketplaceId = config.MARKETPLACE): Promise<number[]> =>
+  discoverWorkerIds([
+    workerKeyPattern(marketplace, "general-worker-{id}-heartbeat"),
+    workerKeyPattern(marketplace, "general-worker-{id}-pages"),
+    workerKeyPattern(marketplace, "lock:general-{id}"),
+  ]);
+
+const getLockStatus = async (marketplace: MarketplaceId, type: WorkerType, id: number, now: number): Promise<WorkerLockStatus> => {
+  const lockKey = getCrawlKeys(marketplace).workerLock(type, id);
+  const [value, ttl] = await Promise.all([redisConnection.get(lockKey), redisConnection.ttl(lockKey)]);
+  const refreshedAt = parseNumber(value);
+  return {
+    held: value !== null,
+    refreshedAt: refreshedAt !== null ? new Date(refreshedAt).toISOString() : null,
+    ageMs: refreshedAt !== null ? now - refreshedAt : null,
+    ttlSeconds: ttl >= 0 ? ttl : null,
+  };
+};
+
+const buildStatus = (
+  type: WorkerType,
+  id: number,
+  heartbeat: number | null,
+  now: number,
+  lock: WorkerLockStatus,
+  details: Pick<WorkerStatus, "assignedRanges" | "assignedPages" | "processing" | "complete">
+): WorkerStatus => {
+  const heartbeatAgeMs = heartbeat !== null ? now - heartbeat : null;
+  return {
+    type,
+    id,
+    state: deriveWorkerState(heartbeatAgeMs),
+    lastHeartbeatAt: heartbeat !== null ? new Date(heartbeat).toISOString() : null,
+    heartbeatAgeMs,
+    ...details,
+    lock,
+  };
+};
+
+export const getWorkerFleetStatus = async (marketplace: MarketplaceId = config.MARKETPLACE): Promise<WorkerFleetStatus> => {
+  const keys = getCrawlKeys(marketplace);
+  const now = Date.now();
+  const workers: WorkerStatus[] = [];
+
+  const managerLock = await getLockStatus(marketplace, "manager", 1, now);
+  if (managerLock.held) {
+    workers.push(
+      buildStatus("manager", 1, managerLock.refreshedAt ? Date.parse(managerLock.refreshedAt) : null, now, managerLock, {
+        assignedRanges: null,
+        assignedPages: null,
+        processing: null,
+        complete: null,
+      })
+    );
+  }
+
+  const generalIds = await getGeneralWorkerIds(marketplace);
+  for (const id of generalIds) {
+    const [heartbeat, pages, complete, processing] = await redisConnection.mget(
+      keys.generalWorkerHeartbeat(id),
+      keys.generalWorkerPages(id),
+      keys.generalWorkerComplete(id),
+      keys.generalWorkerProcessing(id)
+    );
+    workers.push(
+      buildStatus("general", id, parseNumber(heartbeat), now, await getLockStatus(marketplace, "general", id, now), {
+        assignedRanges: parseGeneralWorkerPages(pages),
+        assignedPages: null,
+        processing: processing === "1",
+        complete: complete === "1",
+      })
+    );
+  }
+
+  const productIds = await discoverWorkerIds([
+    workerKeyPattern(marketplace, "worker-{id}-heartbeat"),
+    workerKeyPattern(marketplace, "worker-{id}-pages"),
+    workerKeyPattern(marketplace, "lock:product-{id}"),
+  ]);
+  for (const id of productIds) {
+    const [heartbeat, pages, complete] = await redisConnection.mget(
+      keys.workerHeartbeat(id),
+      keys.workerPages(id),
+      keys.workerComplete(id)
+    );
+    workers.push(
+      buildStatus("product", id, parseNumber(heartbeat), now, await getLockStatus(marketplace, "product", id, now), {
+        assignedRanges: null,
+        assignedPages: parseWorkerPageAssignments(pages),
+        processing: null,
+        complete: complete === "1",
+      })
+    );
+  }
+
+  const [paused, rotationIndex] = await redisConnection.mget(keys.crawlPaused, keys.rotationIndex);
+  const queues: QueueCoordination[] = [];
+  for (const queue of VINE_QUEUE_IDS) {
+    const [totalPages, totalProducts, lastAssignedPage] = await redisConnection.mget(
+      keys.totalPages(queue),
+      keys.totalProducts(queue),
+      keys.lastAssignedPage(queue)
+    );
+    queues.push({
+      queue,
+      totalPages: parseNumber(totalPages),
+      totalProducts: parseNumber(totalProducts),
+      lastAssignedPage: parseNumber(lastAssignedPage),
+    });
+  }
+  const sum = (values: (number | null)[]): number | null =>
+    values.some((value) => value !== null) ? values.reduce<number>((total, value) => total + (value ?? 0), 0) : null;
+
+  const counts: Record<WorkerState, number> = { alive: 0, stale: 0, dead: 0 };
+  for (const worker of workers) {
+    counts[worker.state]++;
+  }
+
+  return {
+    workers,
+    counts,
+    coordination: {
+      paused: paused !== null,
+      totalPages: sum(queues.map((entry) => entry.totalPages)),
+      totalProducts: sum(queues.map((entry) => entry.totalProducts)),
+      rotationIndex: parseNumber(rotationIndex),
+      queues,
+    },
+  };
+};
+
+const HEARTBEAT_METRICS_TIMEOUT_MS = 2_000;
+let heartbeatMetricsRegistered = false;
+
+// Exposes vine_worker_heartbeat_age_seconds, read from Redis on every scrape.
+// Register it in a single process (the API) so the fleet is not reported once per scrape target
+export const registerWorkerHeartbeatMetrics = (): void => {
+  if (heartbeatMetricsRegistered) {
+    return;
+  }
+  heartbeatMetricsRegistered = true;
+
+  new Gauge({
+    name: "vine_worker_heartbeat_age_seconds",
+    help: "Seconds since each worker last refreshed its heartbeat (-1 when it has none)",
+    labelNames: ["type", "id", "state"] as const,
+    registers: [metricsRegistry],
+    async collect() {
+      this.reset();
+      // Redis commands queue indefinitely while disconnected - don't let that hang the scrape
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), HEARTBEAT_METRICS_TIMEOUT_MS);
+      });
+      const fleet = await Promise.race([getWorkerFleetStatus().catch(() => null), timeout]).finally(() => clearTimeout(timer));
+      if (!fleet) {
+        return;
+      }
+      for (const worker of fleet.workers) {
+        const labels = { type: worker.type, id: worker.id.toString(), state: worker.state };
+        this.set(labels, worker.heartbeatAgeMs !== null ? worker.heartbeatAgeMs / 1000 : -1);
+      }
+    },
+  });
+};